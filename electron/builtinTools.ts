@@ -0,0 +1,1042 @@
+/**
+ * 内置本地工具
+ *
+ * 职责：
+ * 1. 定义内置工具的参数 schema、执行函数、显示格式、风险级别和超时时间
+ * 2. 把内置工具注册到工具注册表
+ * 3. 依赖会话状态的操作（路径授权、命令审批、文件修改确认、会话图片）由宿主（SessionManager）提供
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { commandExecutor } from './commandExecutor';
+import { listDirectory, readFile } from './fileTools';
+import { searchFiles } from './codeSearch';
+import { getRepoRoot, gitBlame, gitCheckout, gitCommit, gitDiff, gitLog, gitPush, gitShow, gitStatus, verifyCheckoutRef } from './gitTools';
+import { isWithin, realPathOf, workspaceSandbox } from './workspace';
+import { formatWebFetchResult, webFetcher } from './webFetch';
+import { runJs } from './jsSandbox';
+import { clipboardTools } from './clipboardTools';
+import { formatDueTime, reminderScheduler, resolveDueTime } from './reminders';
+import { toolOutputStore } from './toolOutputs';
+import { ToolContext, ToolDefinition, ToolResult, toolRegistry } from './toolRegistry';
+
+/**
+ * 宿主提供的会话相关能力
+ */
+export interface BuiltinToolHost {
+  // 检查路径访问权限，返回解析后的绝对路径；工作区外的路径可能需要用户确认
+  authorizePath(sessionId: string, inputPath: string): Promise<string>;
+  // 弹出确认对话框，用户允许时返回 true
+  confirm(title: string, message: string, detail: string): Promise<boolean>;
+  // 执行命令（需要确认的命令等待用户审批）
+  executeCommand(context: ToolContext, command: string, cwd: string): Promise<string>;
+  // 生成文件修改并等待用户确认
+  executeFileEdit(context: ToolContext, toolName: string, args: any): Promise<ToolResult>;
+  // 识别会话附带图片或本地图片中的文字
+  executeOcrImage(context: ToolContext, args: any): Promise<string>;
+}
+
+/**
+ * 注册全部内置工具
+ */
+export function registerBuiltinTools(host: BuiltinToolHost): void {
+  createBuiltinTools(host).forEach(tool => toolRegistry.register(tool));
+}
+
+function createBuiltinTools(host: BuiltinToolHost): ToolDefinition[] {
+  return [
+    {
+      name: "find_file",
+      description: "根据文件名、类名或内容快速查找文件位置。返回匹配的文件路径列表。适用于：1) 不知道文件完整路径时 2) 需要查找包含特定类名/方法名的文件 3) 模糊搜索文件。",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "搜索关键词。可以是：1) 文件名（如 'PVLogWrapper.java'）2) 类名（如 'PVLogWrapper'）3) 方法名（如 'logPipeline'）4) 部分路径（如 'hermes/service'）"
+          },
+          file_type: {
+            type: "string",
+            description: "文件扩展名过滤（可选）。例如：'.java', '.ts', '.py', '.js' 等。不填则搜索所有类型"
+          },
+          base_path: {
+            type: "string",
+            description: "搜索的基础路径（可选）。默认搜索全部工作区目录。可以指定更精确的路径以加快搜索速度"
+          },
+          max_results: {
+            type: "number",
+            description: "最多返回的结果数量（可选）。默认 10，最大 50"
+          }
+        },
+        required: ["query"]
+      },
+      risk: 'read-only',
+      timeoutMs: 60000,
+      display: (args) => `find "${args.base_path || '~'}" -name "*${args.query}*"`,
+      handler: async (args, { sessionId, signal }) =>
+        executeFindFile(args.query, args.file_type, await getSearchPaths(host, sessionId, args.base_path), args.max_results, signal),
+    },
+    {
+      name: "smart_read",
+      description: "智能查找并读取文件内容。这是一个组合工具，会自动完成：1) 查找文件位置 2) 读取文件内容。如果找到多个匹配文件，会列出所有文件让用户选择；如果只找到一个，直接返回内容。适用于：当你知道文件名/类名但不知道完整路径时。",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "文件名、类名或路径关键词。例如：'PVLogWrapper.java', 'PVLogWrapper', 'hermes/service/PVLog'"
+          },
+          file_type: {
+            type: "string",
+            description: "文件扩展名过滤（可选）。例如：'.java', '.ts', '.py' 等"
+          },
+          base_path: {
+            type: "string",
+            description: "搜索的基础路径（可选）。默认搜索全部工作区目录"
+          }
+        },
+        required: ["query"]
+      },
+      risk: 'read-only',
+      timeoutMs: 60000,
+      display: (args) => `smart_read "${args.query}"`,
+      handler: async (args, { sessionId, signal }) =>
+        executeSmartRead(args.query, args.file_type, await getSearchPaths(host, sessionId, args.base_path), signal),
+    },
+    {
+      name: "read_file",
+      description: "读取文本文件内容，返回带行号的结果。默认最多返回 2000 行，大文件请用 offset/limit 分段读取。二进制文件和超过 10MB 的文件不会返回内容。注意：如果你不知道文件的完整路径，应该先使用 find_file 或 smart_read 工具。",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "文件路径（绝对路径，或相对于会话工作目录的路径）。例如：'package.json' 或 '/Users/user/project/src/index.ts'"
+          },
+          offset: {
+            type: "number",
+            description: "起始行号（可选，从 1 开始）。默认 1"
+          },
+          limit: {
+            type: "number",
+            description: "最多读取的行数（可选）。默认 2000"
+          }
+        },
+        required: ["path"]
+      },
+      risk: 'read-only',
+      display: (args) => `read_file ${args.path}${args.offset || args.limit ? ` (offset: ${args.offset || 1}, limit: ${args.limit || 'default'})` : ''}`,
+      handler: async (args, { sessionId, signal }) =>
+        executeReadFile(await host.authorizePath(sessionId, args.path), args.offset, args.limit, signal),
+    },
+    {
+      name: "list_directory",
+      description: "列出目录中的文件和子目录，返回 JSON 格式的条目列表（名称、相对路径、类型、大小、修改时间）。可以查看项目结构、查找文件等。递归模式不会展开 node_modules、.git 等目录。",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "目录路径（绝对路径，或相对于会话工作目录的路径）。例如：'.' 表示工作目录，'src' 表示 src 目录"
+          },
+          recursive: {
+            type: "boolean",
+            description: "是否递归列出子目录的内容（默认 false）"
+          },
+          max_depth: {
+            type: "number",
+            description: "递归深度（可选，仅递归模式有效）。默认 3"
+          }
+        },
+        required: ["path"]
+      },
+      risk: 'read-only',
+      display: (args) => `list_directory ${args.path}${args.recursive ? ' (recursive)' : ''}`,
+      handler: async (args, { sessionId, signal }) =>
+        executeListDirectory(await host.authorizePath(sessionId, args.path), args.recursive, args.max_depth, signal),
+    },
+    {
+      name: "execute_command",
+      description: "执行系统命令。可以运行各种命令行工具，如 git、npm、grep 等。注意：危险命令会被自动拦截；安装软件、删除文件或未知命令需要用户确认后才会执行。",
+      parameters: {
+        type: "object",
+        properties: {
+          command: {
+            type: "string",
+            description: "要执行的完整命令。例如：'git status' 或 'npm list'"
+          },
+          cwd: {
+            type: "string",
+            description: "工作目录（可选）。默认为会话工作目录"
+          }
+        },
+        required: ["command"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 可能等待用户审批，命令本身有执行超时
+      display: (args) => args.command,
+      handler: async (args, context) =>
+        host.executeCommand(context, args.command, await host.authorizePath(context.sessionId, args.cwd || '.')),
+    },
+    {
+      name: "write_file",
+      description: "创建新文件或整体覆盖已有文件。修改会先以 diff 形式展示给用户，用户确认后才会写入磁盘。修改已有文件的局部内容时优先使用 edit_file。",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "文件路径（相对路径或绝对路径）"
+          },
+          content: {
+            type: "string",
+            description: "文件的完整新内容"
+          }
+        },
+        required: ["path", "content"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 等待用户确认 diff
+      display: (args) => `write_file ${args.path}`,
+      handler: (args, context) => host.executeFileEdit(context, 'write_file', args),
+    },
+    {
+      name: "edit_file",
+      description: "精确替换文件中的一段文本。old_string 必须与文件内容完全一致（包括缩进）且在文件中唯一，否则需要提供更多上下文或设置 replace_all。修改会先以 diff 形式展示给用户，用户确认后才会写入磁盘。",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "文件路径（相对路径或绝对路径）"
+          },
+          old_string: {
+            type: "string",
+            description: "要替换的原文"
+          },
+          new_string: {
+            type: "string",
+            description: "替换后的内容"
+          },
+          replace_all: {
+            type: "boolean",
+            description: "是否替换所有出现的位置（默认 false）"
+          }
+        },
+        required: ["path", "old_string", "new_string"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0,
+      display: (args) => `edit_file ${args.path}`,
+      handler: (args, context) => host.executeFileEdit(context, 'edit_file', args),
+    },
+    {
+      name: "apply_patch",
+      description: "应用统一 diff 格式（unified diff）的补丁，可同时修改、新建或删除多个文件。新建文件使用 '--- /dev/null'，删除文件使用 '+++ /dev/null'。修改会先展示给用户，用户确认后才会写入磁盘。",
+      parameters: {
+        type: "object",
+        properties: {
+          patch: {
+            type: "string",
+            description: "统一 diff 格式的补丁内容，包含 ---/+++ 文件头和 @@ hunk"
+          },
+          base_dir: {
+            type: "string",
+            description: "补丁中相对路径的基准目录（可选）"
+          }
+        },
+        required: ["patch"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0,
+      display: () => 'apply_patch',
+      handler: (args, context) => host.executeFileEdit(context, 'apply_patch', args),
+    },
+    {
+      name: "search_files",
+      description: "在文件中搜索文本内容，返回 JSON 格式的匹配列表（文件、行号、列号、预览）。自动遵循 .gitignore，跳过 node_modules 等依赖目录和二进制文件。结果过多时会截断，请缩小范围或使用 include 过滤。",
+      parameters: {
+        type: "object",
+        properties: {
+          pattern: {
+            type: "string",
+            description: "要搜索的正则表达式（JavaScript 语法），regex 为 false 时按原文匹配"
+          },
+          path: {
+            type: "string",
+            description: "搜索的目录或文件路径"
+          },
+          regex: {
+            type: "boolean",
+            description: "pattern 是否为正则表达式（默认 true）"
+          },
+          case_sensitive: {
+            type: "boolean",
+            description: "是否区分大小写（默认 false）"
+          },
+          include: {
+            type: "array",
+            items: { type: "string" },
+            description: "只搜索匹配的文件（glob），例如 ['*.ts', 'src/**']"
+          },
+          exclude: {
+            type: "array",
+            items: { type: "string" },
+            description: "排除匹配的文件或目录（glob），例如 ['*.test.ts', 'docs']"
+          },
+          context_lines: {
+            type: "number",
+            description: "每个匹配前后显示的上下文行数（默认 0，最大 10）"
+          },
+          max_results: {
+            type: "number",
+            description: "最多返回的匹配数（默认 100，最大 1000）"
+          },
+          recursive: {
+            type: "boolean",
+            description: "是否递归搜索子目录（默认 true）"
+          }
+        },
+        required: ["pattern", "path"]
+      },
+      risk: 'read-only',
+      display: (args) => `search_files ${JSON.stringify(args.pattern)} ${args.path}${args.include?.length ? ` (include: ${args.include.join(', ')})` : ''}`,
+      handler: async (args, { sessionId, signal }) =>
+        executeSearchFiles(args.pattern, await host.authorizePath(sessionId, args.path), args, signal),
+    },
+    {
+      name: "git_status",
+      description: "查看 git 仓库状态，返回 JSON：当前分支、与上游的领先/落后提交数、已暂存、未暂存、未跟踪和冲突的文件。",
+      parameters: {
+        type: "object",
+        properties: {
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: []
+      },
+      risk: 'read-only',
+      display: (args) => formatGitDisplay('git_status', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_status', args, signal),
+    },
+    {
+      name: "git_diff",
+      description: "查看 git 差异，返回 JSON：每个文件的增删行数和 diff 文本（过长时截断）。默认对比工作区与暂存区；staged 为 true 时对比暂存区与 HEAD；指定 from/to 时对比两个提交。",
+      parameters: {
+        type: "object",
+        properties: {
+          from: {
+            type: "string",
+            description: "起始提交、分支或标签（可选），如 'HEAD~3'、'main'"
+          },
+          to: {
+            type: "string",
+            description: "结束提交（可选，需同时指定 from）"
+          },
+          staged: {
+            type: "boolean",
+            description: "是否查看已暂存的修改（默认 false）"
+          },
+          paths: {
+            type: "array",
+            items: { type: "string" },
+            description: "只查看这些路径（可选）"
+          },
+          context_lines: {
+            type: "number",
+            description: "上下文行数（默认 3）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: []
+      },
+      risk: 'read-only',
+      display: (args) => formatGitDisplay('git_diff', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_diff', args, signal),
+    },
+    {
+      name: "git_log",
+      description: "查看提交历史，返回 JSON 格式的提交列表（哈希、作者、时间、标题、正文）。",
+      parameters: {
+        type: "object",
+        properties: {
+          max_count: {
+            type: "number",
+            description: "最多返回的提交数（默认 20，最大 200）"
+          },
+          range: {
+            type: "string",
+            description: "提交范围（可选），如 'main..HEAD'"
+          },
+          path: {
+            type: "string",
+            description: "只查看修改了该路径的提交（可选）"
+          },
+          author: {
+            type: "string",
+            description: "按作者过滤（可选）"
+          },
+          grep: {
+            type: "string",
+            description: "按提交信息过滤（可选，不区分大小写）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: []
+      },
+      risk: 'read-only',
+      display: (args) => formatGitDisplay('git_log', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_log', args, signal),
+    },
+    {
+      name: "git_show",
+      description: "查看单个提交的详情，返回 JSON：提交信息、修改的文件和 diff。",
+      parameters: {
+        type: "object",
+        properties: {
+          revision: {
+            type: "string",
+            description: "提交哈希、分支或标签（默认 HEAD）"
+          },
+          path: {
+            type: "string",
+            description: "只查看该路径的修改（可选）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: []
+      },
+      risk: 'read-only',
+      display: (args) => formatGitDisplay('git_show', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_show', args, signal),
+    },
+    {
+      name: "git_blame",
+      description: "查看文件每一行最后一次修改的提交和作者，返回 JSON。一次最多 500 行，请用 start_line/end_line 指定范围。",
+      parameters: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "文件路径（相对于仓库根目录）"
+          },
+          start_line: {
+            type: "number",
+            description: "起始行号（默认 1）"
+          },
+          end_line: {
+            type: "number",
+            description: "结束行号（可选）"
+          },
+          revision: {
+            type: "string",
+            description: "在指定提交上查看（可选）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: ["path"]
+      },
+      risk: 'read-only',
+      display: (args) => formatGitDisplay('git_blame', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_blame', args, signal),
+    },
+    {
+      name: "git_commit",
+      description: "创建 git 提交。执行前需要用户确认。",
+      parameters: {
+        type: "object",
+        properties: {
+          message: {
+            type: "string",
+            description: "提交信息"
+          },
+          paths: {
+            type: "array",
+            items: { type: "string" },
+            description: "提交前先暂存这些路径（可选）"
+          },
+          all: {
+            type: "boolean",
+            description: "是否自动暂存所有已跟踪文件的修改（相当于 git commit -a，默认 false）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: ["message"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 等待用户确认
+      display: (args) => formatGitDisplay('git_commit', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_commit', args, signal),
+    },
+    {
+      name: "git_checkout",
+      description: "切换分支或提交，也可以新建分支。执行前需要用户确认。",
+      parameters: {
+        type: "object",
+        properties: {
+          ref: {
+            type: "string",
+            description: "分支名、标签或提交"
+          },
+          create: {
+            type: "boolean",
+            description: "是否新建分支（相当于 git checkout -b，默认 false）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: ["ref"]
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 等待用户确认
+      display: (args) => formatGitDisplay('git_checkout', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_checkout', args, signal),
+    },
+    {
+      name: "git_push",
+      description: "推送当前分支到远程仓库（不支持强制推送）。执行前需要用户确认。",
+      parameters: {
+        type: "object",
+        properties: {
+          remote: {
+            type: "string",
+            description: "远程仓库名（可选），如 'origin'"
+          },
+          branch: {
+            type: "string",
+            description: "要推送的分支名（可选），如 'main'。不支持 refspec（+、:）"
+          },
+          set_upstream: {
+            type: "boolean",
+            description: "是否设置上游分支（默认 false）"
+          },
+          repo_path: {
+            type: "string",
+            description: "仓库内的任意路径（可选）。默认为会话工作目录"
+          }
+        },
+        required: []
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 等待用户确认
+      display: (args) => formatGitDisplay('git_push', args),
+      handler: (args, { sessionId, signal }) => executeGitTool(host, sessionId, 'git_push', args, signal),
+    },
+    {
+      name: "ocr_image",
+      description: "在本地识别图片中的文字（OCR，离线运行）。可识别会话中附带的截图 / 粘贴板图片，或本地图片文件。适合需要精确引用图中文字（报错信息、代码、表格）时使用。",
+      parameters: {
+        type: "object",
+        properties: {
+          image_index: {
+            type: "number",
+            description: "会话中附带图片的序号，按出现顺序从 1 开始；负数表示从最近一张倒数（默认 -1，即最近一张）"
+          },
+          path: {
+            type: "string",
+            description: "本地图片路径（可选）。指定时忽略 image_index"
+          }
+        },
+        required: []
+      },
+      risk: 'read-only',
+      display: (args) => `ocr ${args.path || `图片 #${args.image_index ?? -1}`}`,
+      handler: (args, context) => host.executeOcrImage(context, args),
+    },
+    {
+      name: "fetch_url",
+      description: "打开网页并提取正文为 Markdown（去掉脚本、样式和导航）。适合阅读文档页面、issue、博客等。内容较长时分页返回，按提示的 offset 继续读取；结果会在本地缓存一段时间。",
+      parameters: {
+        type: "object",
+        properties: {
+          url: {
+            type: "string",
+            description: "网页地址（http 或 https）"
+          },
+          offset: {
+            type: "number",
+            description: "从第几个字符开始读取（默认 0），用于读取后续内容"
+          },
+          max_length: {
+            type: "number",
+            description: "本次最多返回的字符数（默认 20000）"
+          },
+          refresh: {
+            type: "boolean",
+            description: "是否忽略缓存重新下载（默认 false）"
+          }
+        },
+        required: ["url"]
+      },
+      risk: 'network',
+      display: (args) => `fetch ${args.url}${args.offset ? ` (offset: ${args.offset})` : ''}`,
+      handler: (args, { signal }) => executeFetchUrl(args.url, args, signal),
+    },
+    {
+      name: "run_js",
+      description: "在隔离的沙箱中执行 JavaScript，用于计算、数据转换、正则测试、日期处理等。没有 require、文件系统和网络，也没有定时器；返回最后一个表达式的值和 console 输出。可以使用顶层 await，此时用 return 返回结果。不要为此使用 execute_command 运行 node -e 或 python -c。",
+      parameters: {
+        type: "object",
+        properties: {
+          code: {
+            type: "string",
+            description: "要执行的 JavaScript 代码，最后一个表达式的值作为结果"
+          },
+          timeout_ms: {
+            type: "number",
+            description: "CPU 时间上限（毫秒），默认 3000，最大 10000"
+          }
+        },
+        required: ["code"]
+      },
+      risk: 'read-only',
+      display: (args) => `run_js ${firstLine(args.code)}`,
+      handler: async (args, { signal }) => {
+        const result = await runJs(String(args.code ?? ''), { timeoutMs: args.timeout_ms }, signal);
+        return { content: JSON.stringify(result, null, 2), failed: !result.ok };
+      },
+    },
+    {
+      name: "clipboard_read_text",
+      description: "读取用户粘贴板中的文本。用户提到“我复制的内容”“粘贴板里的”等时使用。粘贴板中的图片会随消息自动附带，不需要用此工具读取。",
+      parameters: {
+        type: "object",
+        properties: {
+          format: {
+            type: "string",
+            enum: ["text", "html"],
+            description: "读取格式：text 为纯文本（默认），html 为富文本的 HTML 源码"
+          }
+        }
+      },
+      risk: 'read-only',
+      display: (args) => `clipboard_read_text${args.format === 'html' ? ' (html)' : ''}`,
+      handler: async (args) => clipboardTools.readText(args.format === 'html' ? 'html' : 'text'),
+    },
+    {
+      name: "clipboard_write",
+      description: "把内容写入用户的粘贴板，方便用户直接粘贴。可以同时提供纯文本和 HTML（粘贴到富文本编辑器时保留格式），或写入本地图片。给用户建议回复时请使用 suggest_replies，不要用此工具。",
+      parameters: {
+        type: "object",
+        properties: {
+          text: {
+            type: "string",
+            description: "纯文本内容"
+          },
+          html: {
+            type: "string",
+            description: "HTML 内容（可选），只提供 HTML 时会自动生成对应的纯文本"
+          },
+          image_path: {
+            type: "string",
+            description: "本地图片路径（可选），支持 PNG 和 JPEG"
+          }
+        }
+      },
+      risk: 'mutating',
+      timeoutMs: 0, // 关闭自动复制时等待用户确认
+      display: (args) => `clipboard_write ${[args.text && 'text', args.html && 'html', args.image_path].filter(Boolean).join(' + ')}`,
+      handler: (args, { sessionId }) => executeClipboardWrite(host, sessionId, args),
+    },
+    {
+      name: "suggest_replies",
+      description: "给出可以直接发送的建议回复（如回复同事消息、邮件、评论），界面上显示为卡片，用户点击即可复制；用户开启自动复制时第一条会直接复制到粘贴板。有多种语气或方案时提供多条，最合适的放在第一条。",
+      parameters: {
+        type: "object",
+        properties: {
+          replies: {
+            type: "array",
+            description: "建议回复，最多 5 条",
+            items: {
+              type: "object",
+              properties: {
+                label: {
+                  type: "string",
+                  description: "简短说明（可选），如“正式”“简短”“婉拒”"
+                },
+                text: {
+                  type: "string",
+                  description: "回复的完整内容"
+                }
+              },
+              required: ["text"]
+            }
+          }
+        },
+        required: ["replies"]
+      },
+      risk: 'mutating',
+      display: (args) => `suggest_replies (${Array.isArray(args.replies) ? args.replies.length : 0} 条)`,
+      handler: async (args) => JSON.stringify(clipboardTools.suggestReplies(args.replies), null, 2),
+    },
+    {
+      name: "schedule_reminder",
+      description: "设置提醒或计时器。到时间后会弹出桌面通知，桌面宠物也会提示用户，点击即可回到当前对话。提醒在应用重启后仍然有效。delay_minutes 和 at 二选一。",
+      parameters: {
+        type: "object",
+        properties: {
+          message: {
+            type: "string",
+            description: "提醒内容，如“检查构建结果”"
+          },
+          delay_minutes: {
+            type: "number",
+            description: "多少分钟后提醒，如 20"
+          },
+          at: {
+            type: "string",
+            description: "提醒的具体时间（本地时间）：HH:mm（今天，已过则为明天）或 YYYY-MM-DD HH:mm"
+          }
+        },
+        required: ["message"]
+      },
+      risk: 'mutating',
+      display: (args) => `schedule_reminder ${args.delay_minutes ? `+${args.delay_minutes}min` : args.at || ''} ${JSON.stringify(args.message || '')}`,
+      handler: (args, { sessionId }) => executeScheduleReminder(sessionId, args),
+    },
+    {
+      name: "list_reminders",
+      description: "列出所有待触发的提醒（包括其他对话中设置的），返回提醒 ID、时间和内容。",
+      parameters: {
+        type: "object",
+        properties: {}
+      },
+      risk: 'read-only',
+      display: () => 'list_reminders',
+      handler: async (args, { sessionId }) => formatReminderList(sessionId),
+    },
+    {
+      name: "cancel_reminder",
+      description: "取消一个待触发的提醒。不知道提醒 ID 时先调用 list_reminders。",
+      parameters: {
+        type: "object",
+        properties: {
+          id: {
+            type: "string",
+            description: "提醒 ID（如 rem-1700000000000-abc123def）"
+          }
+        },
+        required: ["id"]
+      },
+      risk: 'mutating',
+      display: (args) => `cancel_reminder ${args.id}`,
+      handler: async (args) => {
+        const reminder = await reminderScheduler.cancel(String(args.id || ''));
+        return reminder
+          ? `已取消提醒 ${reminder.id}（${formatDueTime(reminder.dueAt)}：${reminder.message}）`
+          : { content: `提醒不存在或已触发：${args.id}`, failed: true };
+      },
+    },
+    {
+      name: "read_tool_output",
+      description: "分页读取之前被截断的工具输出。工具输出过长时只保留开头和结尾，并给出 [truncated N lines] 标记和句柄；确实需要中间内容时用此工具按行读取。",
+      parameters: {
+        type: "object",
+        properties: {
+          handle: {
+            type: "string",
+            description: "截断标记中给出的句柄（如 out-1700000000000-abc123def）"
+          },
+          offset: {
+            type: "number",
+            description: "起始行号，从 1 开始（默认 1）"
+          },
+          limit: {
+            type: "number",
+            description: "最多读取的行数（默认 200）"
+          }
+        },
+        required: ["handle"]
+      },
+      risk: 'read-only',
+      display: (args) => `read_tool_output ${args.handle} (offset: ${args.offset || 1}, limit: ${args.limit || 'default'})`,
+      handler: (args, { sessionId }) => toolOutputStore.read(sessionId, args.handle, args.offset, args.limit),
+    }
+  ];
+}
+
+// find_file / smart_read 的搜索目录：指定时检查权限，未指定时搜索全部工作区
+async function getSearchPaths(host: BuiltinToolHost, sessionId: string, basePath?: string): Promise<string[]> {
+  if (basePath) {
+    return [await host.authorizePath(sessionId, basePath)];
+  }
+  const roots = workspaceSandbox.getRoots().filter(root => fs.existsSync(root));
+  return roots.length > 0 ? roots : [workspaceSandbox.getDefaultCwd()];
+}
+
+/**
+ * 执行 git 工具：只读操作返回 JSON，写操作执行前需要用户确认
+ */
+async function executeGitTool(host: BuiltinToolHost, sessionId: string, toolName: string, args: any, signal: AbortSignal): Promise<string> {
+  const scope = await host.authorizePath(sessionId, args.repo_path || '.');
+  const root = await getRepoRoot(scope, signal);
+  logger.info(`🌿 Running ${toolName} in ${root}`);
+
+  // 工作区是仓库子目录时仓库根目录不在授权范围内：未指定路径的 diff / log / show 只查看授权目录
+  const scopeReal = await realPathOf(scope);
+  const scopePath = isWithin(scopeReal, root) ? undefined : path.relative(root, scopeReal).split(path.sep).join('/');
+
+  // 指定的路径（相对于仓库根目录）同样需要授权；不接受 :(top) 等 pathspec 魔法前缀
+  const authorizeGitPaths = async (paths: Array<string | undefined>) => {
+    for (const item of paths) {
+      if (!item) continue;
+      if (item.startsWith(':')) {
+        throw new Error(`不支持的路径：${item}`);
+      }
+      await host.authorizePath(sessionId, path.resolve(root, item));
+    }
+  };
+  await authorizeGitPaths([...(Array.isArray(args.paths) ? args.paths : []), args.path]);
+
+  switch (toolName) {
+    case 'git_status':
+      return JSON.stringify(await gitStatus(root, signal), null, 2);
+    case 'git_diff':
+      return JSON.stringify(await gitDiff(root, {
+        paths: args.paths?.length ? args.paths : scopePath ? [scopePath] : undefined,
+        from: args.from,
+        to: args.to,
+        staged: args.staged,
+        contextLines: args.context_lines,
+      }, signal), null, 2);
+    case 'git_log':
+      return JSON.stringify(await gitLog(root, {
+        maxCount: args.max_count,
+        range: args.range,
+        path: args.path || scopePath,
+        author: args.author,
+        grep: args.grep,
+      }, signal), null, 2);
+    case 'git_show':
+      return JSON.stringify(await gitShow(root, args.revision || 'HEAD', args.path || scopePath, signal), null, 2);
+    case 'git_blame':
+      return JSON.stringify(await gitBlame(root, args.path, {
+        startLine: args.start_line,
+        endLine: args.end_line,
+        revision: args.revision,
+      }, signal), null, 2);
+  }
+
+  // 切换的目标必须是分支或提交，确认前检查，避免对话框中显示的是文件路径
+  if (toolName === 'git_checkout') {
+    await verifyCheckoutRef(root, args.ref, args.create, signal);
+  }
+
+  // 写操作：展示完整命令，由用户确认
+  const display = formatGitDisplay(toolName, args);
+  const allowed = await host.confirm('执行 git 写操作', `AI 请求在仓库中执行：\n${display}`, `仓库：${root}`);
+  if (!allowed) {
+    logger.warn(`🚫 Git operation denied by user: ${display}`);
+    throw new Error(`用户拒绝执行：${display}`);
+  }
+
+  switch (toolName) {
+    case 'git_commit':
+      return await gitCommit(root, args.message || '', { paths: args.paths, all: args.all }, signal);
+    case 'git_checkout':
+      return await gitCheckout(root, args.ref, args.create, signal);
+    default:
+      return await gitPush(root, { remote: args.remote, branch: args.branch, setUpstream: args.set_upstream }, signal);
+  }
+}
+
+/**
+ * 执行 read_file 工具
+ */
+async function executeReadFile(path: string, offset?: number, limit?: number, signal?: AbortSignal): Promise<string> {
+  try {
+    logger.info(`📖 Reading file: ${path} (offset: ${offset || 1}, limit: ${limit || 'default'})`);
+    return await readFile(path, { offset, limit }, signal);
+  } catch (error: any) {
+    logger.error(`❌ Failed to read file ${path}:`, error);
+    return `Error reading file: ${error.message}`;
+  }
+}
+
+/**
+ * 执行 list_directory 工具
+ */
+async function executeListDirectory(path: string, recursive: boolean = false, maxDepth?: number, signal?: AbortSignal): Promise<string> {
+  try {
+    logger.info(`📂 Listing directory: ${path} (recursive: ${recursive})`);
+    const result = await listDirectory(path, { recursive, maxDepth }, signal);
+    return JSON.stringify(result, null, 2);
+  } catch (error: any) {
+    logger.error(`❌ Failed to list directory ${path}:`, error);
+    return `Error listing directory: ${error.message}`;
+  }
+}
+
+/**
+ * 执行 search_files 工具
+ */
+async function executeSearchFiles(pattern: string, path: string, args: any, signal?: AbortSignal): Promise<string> {
+  try {
+    logger.info(`🔍 Searching files: pattern="${pattern}" path="${path}"`);
+    const result = await searchFiles(pattern, path, {
+      regex: args.regex,
+      caseSensitive: args.case_sensitive,
+      include: args.include,
+      exclude: args.exclude,
+      contextLines: args.context_lines,
+      maxResults: args.max_results,
+      recursive: args.recursive,
+    }, signal);
+    logger.info(`✅ Search completed: ${result.matches.length} matches in ${result.filesMatched}/${result.filesSearched} files`);
+    return JSON.stringify(result, null, 2);
+  } catch (error: any) {
+    logger.error(`❌ Failed to search files:`, error);
+    return `Error searching files: ${error.message}`;
+  }
+}
+
+/**
+ * 执行 fetch_url 工具
+ */
+async function executeFetchUrl(url: string, args: any, signal?: AbortSignal): Promise<string> {
+  try {
+    const result = await webFetcher.fetch(url, {
+      offset: args.offset,
+      maxLength: args.max_length,
+      refresh: args.refresh,
+    }, signal);
+    return formatWebFetchResult(result);
+  } catch (error: any) {
+    logger.error(`❌ Failed to fetch ${url}:`, error);
+    return `Error fetching URL: ${error.message}`;
+  }
+}
+
+/**
+ * 执行 clipboard_write 工具：关闭自动复制时写入前需要用户确认
+ */
+async function executeClipboardWrite(host: BuiltinToolHost, sessionId: string, args: any): Promise<string> {
+  const imagePath = args.image_path ? await host.authorizePath(sessionId, args.image_path) : undefined;
+
+  if (!clipboardTools.isAutoCopy()) {
+    const preview = [
+      args.text && `文本：${truncatePreview(args.text)}`,
+      args.html && `HTML：${truncatePreview(args.html)}`,
+      imagePath && `图片：${imagePath}`,
+    ].filter(Boolean).join('\n');
+    const allowed = await host.confirm('写入粘贴板', 'AI 请求写入粘贴板，将覆盖当前内容', preview);
+    if (!allowed) {
+      logger.warn('🚫 Clipboard write denied by user');
+      throw new Error('用户拒绝写入粘贴板');
+    }
+  }
+
+  return clipboardTools.write({ text: args.text, html: args.html, imagePath });
+}
+
+/**
+ * 执行 schedule_reminder 工具
+ */
+async function executeScheduleReminder(sessionId: string, args: any): Promise<string> {
+  const reminder = await reminderScheduler.schedule(sessionId, String(args.message || ''), resolveDueTime(args.delay_minutes, args.at));
+  const minutes = Math.round((reminder.dueAt - Date.now()) / 60000);
+  const relative = minutes < 60 ? `${minutes} 分钟后` : `约 ${(minutes / 60).toFixed(minutes < 600 ? 1 : 0)} 小时后`;
+  return `已设置提醒 ${reminder.id}：${formatDueTime(reminder.dueAt)}（${relative}）提醒“${reminder.message}”`;
+}
+
+// list_reminders 的输出
+function formatReminderList(sessionId: string): string {
+  const reminders = reminderScheduler.list();
+  if (reminders.length === 0) {
+    return '没有待触发的提醒';
+  }
+  const lines = reminders.map(reminder =>
+    `- ${reminder.id} | ${formatDueTime(reminder.dueAt)} | ${reminder.message}${reminder.sessionId === sessionId ? '（本对话）' : ''}`);
+  return `待触发的提醒（${reminders.length} 个）：\n${lines.join('\n')}`;
+}
+
+/**
+ * 执行 find_file 工具
+ */
+async function executeFindFile(query: string, fileType: string | undefined, searchPaths: string[], maxResults?: number, signal?: AbortSignal): Promise<string> {
+  try {
+    logger.info(`🔍 Finding files: query="${query}", type="${fileType || 'all'}"`);
+    const files = await commandExecutor.findFile(query, fileType, searchPaths, maxResults, signal);
+    
+    if (files.length === 0) {
+      return `未找到匹配的文件。\n\n搜索条件：\n- 关键词：${query}\n- 文件类型：${fileType || '所有类型'}\n- 搜索路径：${searchPaths.join(', ')}`;
+    }
+    
+    const fileList = files.map((f, i) => `${i + 1}. ${f}`).join('\n');
+    return `找到 ${files.length} 个匹配的文件：\n\n${fileList}`;
+  } catch (error: any) {
+    logger.error(`❌ Failed to find files:`, error);
+    return `Error finding files: ${error.message}`;
+  }
+}
+
+/**
+ * 执行 smart_read 工具
+ */
+async function executeSmartRead(query: string, fileType: string | undefined, searchPaths: string[], signal?: AbortSignal): Promise<string> {
+  try {
+    logger.info(`📖 Smart reading: query="${query}"`);
+    const result = await commandExecutor.smartRead(query, fileType, searchPaths, signal);
+    return result.data;
+  } catch (error: any) {
+    logger.error(`❌ Failed to smart read:`, error);
+    return `Error smart reading: ${error.message}`;
+  }
+}
+
+// 生成 git 工具的显示命令
+function formatGitDisplay(toolName: string, args: any): string {
+  const paths = (list?: string[]) => (list?.length ? ` -- ${list.join(' ')}` : '');
+  switch (toolName) {
+    case 'git_status':
+      return 'git status';
+    case 'git_diff':
+      return `git diff${args.staged ? ' --cached' : ''}${args.from ? ` ${args.from}${args.to ? `..${args.to}` : ''}` : ''}${paths(args.paths)}`;
+    case 'git_log':
+      return `git log -n ${args.max_count || 20}${args.range ? ` ${args.range}` : ''}${args.path ? ` -- ${args.path}` : ''}`;
+    case 'git_show':
+      return `git show ${args.revision || 'HEAD'}${args.path ? ` -- ${args.path}` : ''}`;
+    case 'git_blame':
+      return `git blame${args.start_line ? ` -L${args.start_line},${args.end_line || ''}` : ''} ${args.path}`;
+    case 'git_commit':
+      return `git commit${args.all ? ' -a' : ''} -m ${JSON.stringify(args.message || '')}${paths(args.paths)}`;
+    case 'git_checkout':
+      return `git checkout ${args.create ? '-b ' : ''}${args.ref} --`;
+    case 'git_push':
+      return `git push${args.set_upstream ? ' --set-upstream' : ''}${args.remote ? ` ${args.remote}` : ''}${args.branch ? ` ${args.branch}` : ''}`;
+    default:
+      return toolName;
+  }
+}
+
+// 代码的第一行（过长时截断），用于显示 run_js 调用
+function firstLine(code: unknown): string {
+  const lines = String(code ?? '').trim().split('\n');
+  const line = lines[0].length > 80 ? `${lines[0].slice(0, 80)}…` : lines[0];
+  return lines.length > 1 ? `${line} …（共 ${lines.length} 行）` : line;
+}
+
+// 确认对话框中的内容预览
+function truncatePreview(text: string, maxLength: number = 300): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…（共 ${text.length} 个字符）` : text;
+}
@@ -0,0 +1,155 @@
+/**
+ * 粘贴板工具
+ *
+ * 职责：
+ * 1. 读取粘贴板中的纯文本和 HTML
+ * 2. 写入文本、HTML 或图片（多种格式可同时写入，粘贴时由目标程序选择）
+ * 3. 整理建议回复；开启自动复制时把第一条写入粘贴板
+ */
+import { clipboard, nativeImage } from 'electron';
+import * as fs from 'fs';
+import { logger } from './logger';
+
+/**
+ * 自动复制设置
+ */
+export interface ClipboardSettings {
+  autoCopy: boolean;   // 建议回复自动复制，AI 写入粘贴板无需确认
+}
+
+/**
+ * 要写入的内容，至少包含一种格式
+ */
+export interface ClipboardContent {
+  text?: string;
+  html?: string;
+  imagePath?: string;   // 已授权的本地图片路径
+}
+
+/**
+ * suggest_replies 的结构化结果
+ */
+export interface SuggestRepliesResult {
+  kind: 'suggest_replies';
+  replies: Array<{ label?: string; text: string }>;
+  copiedIndex: number | null;   // 已自动复制的建议序号
+}
+
+const MAX_READ_CHARS = 100000;
+const MAX_REPLIES = 5;
+const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+class ClipboardTools {
+  private settings: ClipboardSettings = { autoCopy: true };
+
+  /**
+   * 更新配置
+   */
+  configure(settings: Partial<ClipboardSettings> = {}): void {
+    this.settings = { autoCopy: settings.autoCopy ?? true };
+  }
+
+  /**
+   * 是否自动写入（关闭时写入前需要用户确认）
+   */
+  isAutoCopy(): boolean {
+    return this.settings.autoCopy;
+  }
+
+  /**
+   * 读取粘贴板文本
+   * @param format text 为纯文本，html 为富文本的 HTML 源码
+   */
+  readText(format: 'text' | 'html' = 'text'): string {
+    const content = format === 'html' ? clipboard.readHTML() : clipboard.readText();
+    if (!content) {
+      const formats = clipboard.availableFormats();
+      return formats.length > 0
+        ? `粘贴板中没有${format === 'html' ? ' HTML ' : '文本'}内容（当前格式：${formats.join(', ')}）`
+        : '粘贴板为空';
+    }
+    if (content.length > MAX_READ_CHARS) {
+      return `${content.slice(0, MAX_READ_CHARS)}\n\n[粘贴板内容共 ${content.length} 个字符，只返回前 ${MAX_READ_CHARS} 个]`;
+    }
+    return content;
+  }
+
+  /**
+   * 写入粘贴板，返回写入结果说明
+   */
+  async write(content: ClipboardContent): Promise<string> {
+    if (!content.text && !content.html && !content.imagePath) {
+      throw new Error('没有要写入的内容，请提供 text、html 或 image_path');
+    }
+
+    const data: Electron.Data = {};
+    const written: string[] = [];
+    if (content.text) {
+      data.text = content.text;
+      written.push(`文本 ${content.text.length} 个字符`);
+    }
+    if (content.html) {
+      data.html = content.html;
+      // 只提供 HTML 时附带去掉标签的纯文本，方便粘贴到不支持富文本的地方
+      data.text = data.text ?? htmlToPlainText(content.html);
+      written.push(`HTML ${content.html.length} 个字符`);
+    }
+    if (content.imagePath) {
+      const stat = await fs.promises.stat(content.imagePath);
+      if (stat.size > MAX_IMAGE_BYTES) {
+        throw new Error(`图片过大（${(stat.size / 1024 / 1024).toFixed(1)} MB），最多 ${MAX_IMAGE_BYTES / 1024 / 1024} MB`);
+      }
+      const image = nativeImage.createFromPath(content.imagePath);
+      if (image.isEmpty()) {
+        throw new Error(`无法读取图片：${content.imagePath}`);
+      }
+      data.image = image;
+      const size = image.getSize();
+      written.push(`图片 ${size.width}x${size.height}`);
+    }
+
+    clipboard.write(data);
+    logger.info(`📋 Clipboard written: ${written.join(', ')}`);
+    return `已写入粘贴板：${written.join('，')}`;
+  }
+
+  /**
+   * 整理建议回复；开启自动复制时把第一条写入粘贴板
+   */
+  suggestReplies(replies: Array<string | { label?: string; text: string }>): SuggestRepliesResult {
+    const normalized = (Array.isArray(replies) ? replies : [])
+      .map(reply => (typeof reply === 'string' ? { text: reply } : { label: reply?.label?.trim() || undefined, text: reply?.text }))
+      .filter((reply): reply is { label: string | undefined; text: string } => typeof reply.text === 'string' && reply.text.trim() !== '')
+      .slice(0, MAX_REPLIES);
+    if (normalized.length === 0) {
+      throw new Error('至少需要一条建议回复');
+    }
+
+    let copiedIndex: number | null = null;
+    if (this.settings.autoCopy) {
+      clipboard.writeText(normalized[0].text);
+      copiedIndex = 0;
+      logger.info(`📋 Suggested reply copied to clipboard (${normalized[0].text.length} chars)`);
+    }
+    return { kind: 'suggest_replies', replies: normalized, copiedIndex };
+  }
+}
+
+// 去掉标签和常见实体，块级元素换行
+function htmlToPlainText(html: string): string {
+  return html
+    .replace(/<(script|style)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export const clipboardTools = new ClipboardTools();
@@ -0,0 +1,383 @@
+/**
+ * 代码搜索
+ *
+ * 职责：
+ * 1. 在进程内遍历目录搜索文本（不经过 shell，模式中的引号等字符不会被解释）
+ * 2. 支持正则 / 字面量两种模式、include / exclude glob 过滤和上下文行
+ * 3. 遵循各级 .gitignore（包括搜索目录上级直到仓库根目录的），跳过依赖目录、二进制文件和超大文件
+ * 4. 按结果数和输出字节数截断，返回结构化结果（文件、行、列、预览）
+ * 5. 在 Worker 线程中搜索并限制时间，灾难性回溯的正则不会阻塞主进程
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { decodeText, isBinaryBuffer, SKIPPED_DIRECTORIES } from './fileTools';
+
+/**
+ * 搜索选项
+ */
+export interface SearchOptions {
+  regex?: boolean;          // true 为正则（默认），false 为字面量
+  caseSensitive?: boolean;  // 默认不区分大小写
+  include?: string[];       // 只搜索匹配的文件（glob，如 '*.ts'、'src/**'）
+  exclude?: string[];       // 排除匹配的文件或目录
+  contextLines?: number;    // 匹配行前后的上下文行数
+  maxResults?: number;      // 最多返回的匹配数
+  maxBytes?: number;        // 预览和上下文的总字节上限
+  recursive?: boolean;      // 是否进入子目录（默认 true）
+}
+
+/**
+ * 单条匹配
+ */
+export interface SearchMatch {
+  file: string;       // 相对于 root 的路径
+  line: number;       // 行号（从 1 开始）
+  column: number;     // 列号（从 1 开始）
+  preview: string;    // 匹配行内容（过长时截取匹配附近部分）
+  before?: string[];  // 上文
+  after?: string[];   // 下文
+}
+
+/**
+ * 搜索结果
+ */
+export interface SearchResult {
+  root: string;
+  pattern: string;
+  matches: SearchMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  truncated: boolean;
+}
+
+const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 1000;
+const DEFAULT_MAX_BYTES = 64 * 1024;
+const MAX_CONTEXT_LINES = 10;
+// 超过该大小的文件不搜索
+const MAX_FILE_BYTES = 2 * 1024 * 1024;
+// 预览的最大字符数
+const MAX_PREVIEW_CHARS = 300;
+// 单次搜索的时间上限
+const SEARCH_TIMEOUT_MS = 20000;
+
+/**
+ * 将 glob 转换为正则（支持 **、*、?、[...] 和 {a,b}）
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        // **/ 匹配零或多级目录，末尾的 ** 匹配任意内容
+        if (glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end < 0) {
+        source += '\\[';
+      } else {
+        source += `[${glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i + 1);
+      if (end < 0) {
+        source += '\\{';
+      } else {
+        source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 判断相对路径是否匹配 glob
+ * 不含 / 的 glob 只匹配文件名（如 '*.ts'），否则匹配完整相对路径
+ */
+export function matchGlob(relativePath: string, glob: string): boolean {
+  const normalized = relativePath.split(path.sep).join('/');
+  const pattern = glob.replace(/^\.\//, '').replace(/\/$/, '');
+  if (!pattern.includes('/')) {
+    return globToRegExp(pattern).test(path.posix.basename(normalized));
+  }
+  return globToRegExp(pattern).test(normalized) || globToRegExp(`${pattern}/**`).test(normalized);
+}
+
+/**
+ * 单条 .gitignore 规则
+ */
+export interface IgnoreRule {
+  base: string;       // .gitignore 所在目录（相对于搜索根目录，使用 /）
+  prefix?: string;    // 上级目录的 .gitignore：搜索根目录相对于该 .gitignore 所在目录的路径
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  anchored: boolean;  // 包含 / 时相对 base 匹配，否则匹配任意层级的名称
+}
+
+/**
+ * 解析 .gitignore 内容
+ */
+export function parseGitignore(content: string, base: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, '$1');
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (!line) continue;
+
+    rules.push({ base, regex: globToRegExp(line), negated, directoryOnly, anchored });
+  }
+  return rules;
+}
+
+/**
+ * 判断路径是否被忽略（按规则顺序，后出现的规则优先）
+ */
+export function isIgnored(rules: IgnoreRule[], relativePath: string, isDirectory: boolean): boolean {
+  let ignored = false;
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) continue;
+    const local = rule.prefix
+      ? `${rule.prefix}/${relativePath}`
+      : rule.base ? path.posix.relative(rule.base, relativePath) : relativePath;
+    if (!local || local.startsWith('..')) continue;
+
+    const target = rule.anchored ? local : path.posix.basename(local);
+    if (rule.regex.test(target)) {
+      ignored = !rule.negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * 读取搜索根目录上级直到 git 仓库根目录的 .gitignore 规则（外层在前）
+ * 不在 git 仓库中时返回空列表
+ */
+export async function loadAncestorIgnoreRules(root: string): Promise<IgnoreRule[]> {
+  const ancestors: string[] = [];
+  let dir = path.resolve(root);
+  while (!(await pathExists(path.join(dir, '.git')))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return [];
+    }
+    dir = parent;
+    ancestors.push(dir);
+  }
+
+  const rules: IgnoreRule[] = [];
+  for (const ancestor of ancestors.reverse()) {
+    const content = await fs.promises.readFile(path.join(ancestor, '.gitignore'), 'utf-8').catch(() => null);
+    if (!content) continue;
+    const prefix = path.relative(ancestor, root).split(path.sep).join('/');
+    rules.push(...parseGitignore(content, '').map(rule => ({ ...rule, prefix })));
+  }
+  return rules;
+}
+
+/**
+ * 搜索文件内容
+ * 在 Worker 线程中执行，超时或取消时终止 Worker
+ */
+export async function searchFiles(
+  pattern: string,
+  searchPath: string,
+  options: SearchOptions = {},
+  signal?: AbortSignal
+): Promise<SearchResult> {
+  // 先在主线程检查模式，语法错误直接返回
+  createMatcher(pattern, options);
+  if (signal?.aborted) {
+    throw new Error('Cancelled');
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(path.join(__dirname, 'codeSearchWorker.js'), {
+      workerData: { pattern, searchPath, options },
+    });
+    let settled = false;
+    const finish = (error: Error | null, result?: SearchResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate().catch(() => {});
+      if (error) {
+        reject(error);
+      } else {
+        resolve(result!);
+      }
+    };
+    const timer = setTimeout(() => {
+      finish(new Error(`搜索超时（${SEARCH_TIMEOUT_MS / 1000} 秒）。如果使用了嵌套量词等复杂正则，请简化模式或缩小搜索范围`));
+    }, SEARCH_TIMEOUT_MS);
+    const onAbort = () => finish(new Error('Cancelled'));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.on('message', (message: { result?: SearchResult; error?: string }) => {
+      finish(message.error !== undefined ? new Error(message.error) : null, message.result);
+    });
+    worker.on('error', (error) => finish(error));
+    worker.on('exit', (code) => finish(new Error(`搜索进程异常退出（${code}）`)));
+  });
+}
+
+/**
+ * 在当前线程中搜索文件内容（由 codeSearchWorker 调用）
+ */
+export async function searchFilesInProcess(
+  pattern: string,
+  searchPath: string,
+  options: SearchOptions = {}
+): Promise<SearchResult> {
+  const matcher = createMatcher(pattern, options);
+
+  const maxResults = Math.min(Math.max(1, options.maxResults ?? DEFAULT_MAX_RESULTS), MAX_RESULTS_LIMIT);
+  const maxBytes = Math.max(1024, options.maxBytes ?? DEFAULT_MAX_BYTES);
+  const contextLines = Math.min(Math.max(0, options.contextLines ?? 0), MAX_CONTEXT_LINES);
+  const include = options.include?.filter(Boolean) || [];
+  const exclude = options.exclude?.filter(Boolean) || [];
+
+  const stat = await fs.promises.stat(searchPath);
+  const root = stat.isDirectory() ? searchPath : path.dirname(searchPath);
+  const result: SearchResult = { root, pattern, matches: [], filesSearched: 0, filesMatched: 0, truncated: false };
+  let outputBytes = 0;
+
+  const searchFile = async (filePath: string, relativePath: string) => {
+    const fileStat = await fs.promises.stat(filePath).catch(() => null);
+    if (!fileStat || fileStat.size > MAX_FILE_BYTES) return;
+
+    const buffer = await fs.promises.readFile(filePath).catch(() => null);
+    if (!buffer || isBinaryBuffer(buffer)) return;
+
+    result.filesSearched++;
+    const lines = decodeText(buffer).text.split(/\r?\n/);
+    let fileMatched = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      matcher.lastIndex = 0;
+      const found = matcher.exec(lines[i]);
+      if (!found) continue;
+
+      const match: SearchMatch = {
+        file: relativePath.split(path.sep).join('/'),
+        line: i + 1,
+        column: found.index + 1,
+        preview: clipPreview(lines[i], found.index),
+      };
+      if (contextLines > 0) {
+        match.before = lines.slice(Math.max(0, i - contextLines), i).map(line => clipPreview(line, 0));
+        match.after = lines.slice(i + 1, i + 1 + contextLines).map(line => clipPreview(line, 0));
+      }
+
+      const bytes = match.file.length + match.preview.length
+        + [...(match.before || []), ...(match.after || [])].reduce((sum, line) => sum + line.length + 1, 0);
+      if (result.matches.length >= maxResults || outputBytes + bytes > maxBytes) {
+        result.truncated = true;
+        return;
+      }
+
+      outputBytes += bytes;
+      result.matches.push(match);
+      if (!fileMatched) {
+        fileMatched = true;
+        result.filesMatched++;
+      }
+    }
+  };
+
+  if (!stat.isDirectory()) {
+    await searchFile(searchPath, path.basename(searchPath));
+    return result;
+  }
+
+  const walk = async (dir: string, rules: IgnoreRule[]): Promise<void> => {
+    const relativeDir = path.relative(root, dir).split(path.sep).join('/');
+    const gitignore = await fs.promises.readFile(path.join(dir, '.gitignore'), 'utf-8').catch(() => null);
+    const activeRules = gitignore ? [...rules, ...parseGitignore(gitignore, relativeDir)] : rules;
+
+    const dirents = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const dirent of dirents) {
+      if (result.truncated) {
+        return;
+      }
+
+      const fullPath = path.join(dir, dirent.name);
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+
+      if (dirent.isDirectory()) {
+        if (options.recursive === false || SKIPPED_DIRECTORIES.has(dirent.name)) continue;
+        if (isIgnored(activeRules, relativePath, true)) continue;
+        if (exclude.some(glob => matchGlob(relativePath, glob))) continue;
+        await walk(fullPath, activeRules);
+      } else if (dirent.isFile()) {
+        if (isIgnored(activeRules, relativePath, false)) continue;
+        if (exclude.some(glob => matchGlob(relativePath, glob))) continue;
+        if (include.length > 0 && !include.some(glob => matchGlob(relativePath, glob))) continue;
+        await searchFile(fullPath, relativePath);
+      }
+    }
+  };
+
+  await walk(root, await loadAncestorIgnoreRules(root));
+  return result;
+}
+
+function createMatcher(pattern: string, options: SearchOptions): RegExp {
+  if (!pattern) {
+    throw new Error('搜索模式不能为空');
+  }
+  const flags = options.caseSensitive ? 'g' : 'gi';
+  try {
+    return new RegExp(options.regex === false ? escapeRegExp(pattern) : pattern, flags);
+  } catch (error: any) {
+    throw new Error(`无效的正则表达式：${error.message}。如需按原文搜索，请设置 regex 为 false`);
+  }
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  return fs.promises.access(filePath).then(() => true, () => false);
+}
+
+// 截取预览：过长时保留匹配位置附近的内容
+function clipPreview(line: string, index: number): string {
+  if (line.length <= MAX_PREVIEW_CHARS) {
+    return line;
+  }
+  const start = Math.max(0, Math.min(index - 50, line.length - MAX_PREVIEW_CHARS));
+  return `${start > 0 ? '…' : ''}${line.slice(start, start + MAX_PREVIEW_CHARS)}…`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,13 @@
+/**
+ * 代码搜索 Worker
+ *
+ * 职责：
+ * 1. 在独立线程中执行 searchFilesInProcess，主进程可随时终止（超时或取消）
+ */
+import { parentPort, workerData } from 'worker_threads';
+import { searchFilesInProcess } from './codeSearch';
+
+searchFilesInProcess(workerData.pattern, workerData.searchPath, workerData.options).then(
+  (result) => parentPort?.postMessage({ result }),
+  (error) => parentPort?.postMessage({ error: error?.message || String(error) })
+);
@@ -0,0 +1,227 @@
+/**
+ * 命令执行审批
+ *
+ * 职责：
+ * 1. 为 CommandSecurity 标记为需要确认的命令创建待审批请求，等待用户在聊天界面决定
+ * 2. 超时未处理时按拒绝处理，会话取消时立即结束等待
+ * 3. 维护「始终允许」的命令前缀规则，并持久化到本地
+ */
+import Store from 'electron-store';
+import { logger } from './logger';
+import { createMessageId } from './messageTree';
+import { CommandSecurity, SecurityCheckResult } from './commandSecurity';
+
+/**
+ * 用户的审批决定
+ * - approve：仅本次允许
+ * - deny：拒绝
+ * - always：允许并记住该命令前缀，之后不再询问
+ */
+export type ApprovalDecision = 'approve' | 'deny' | 'always';
+
+/**
+ * 待审批请求（发送给界面）
+ */
+export interface ApprovalRequest {
+  id: string;
+  command: string;
+  cwd?: string;
+  level: SecurityCheckResult['level'];
+  reason?: string;
+  suggestedPattern: string;  // 选择「始终允许」时记住的命令前缀
+  allowAlways: boolean;      // 是否提供「始终允许」：包含后台执行、命令替换、重定向或删除类命令时只能单次确认
+  expiresAt: number;         // 超时时间戳，超时按拒绝处理
+}
+
+/**
+ * 已记住的允许规则：命令以 pattern 中的各个词开头即视为匹配
+ */
+export interface ApprovalRule {
+  pattern: string;
+  createdAt: number;
+}
+
+interface PendingApproval {
+  request: ApprovalRequest;
+  resolve?: (decision: ApprovalDecision | 'timeout') => void;
+}
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
+// 这些命令的第二个词是子命令，规则默认精确到子命令（如 'npm install'）
+const SUBCOMMAND_TOOLS = new Set([
+  'npm', 'yarn', 'pnpm', 'pip', 'pip3', 'brew', 'apt', 'apt-get', 'yum',
+  'git', 'cargo', 'go', 'docker', 'kubectl', 'make',
+]);
+
+// 这些命令每次都需要确认，不能记住为规则
+const NEVER_REMEMBER_TOOLS = new Set(['rm', 'rmdir', 'shred', 'dd', 'sudo', 'su']);
+
+// 规则只按 && || ; | 拆分后逐段匹配，无法拆分的结构一律视为不可匹配：
+// 单个 &（后台执行）、换行、$( ) 和反引号命令替换、< > 重定向
+const UNMATCHABLE_SYNTAX = /[\r\n`<>]|\$\(|(^|[^&])&(?!&)/;
+
+class CommandApprovalManager {
+  private pending: Map<string, PendingApproval> = new Map();
+  private store = new Store<{ rules: ApprovalRule[] }>({
+    name: 'command-approvals',
+    defaults: { rules: [] },
+  });
+
+  /**
+   * 命令是否已被记住的规则允许
+   * 用 && || ; | 连接的多段命令需要每一段都是安全命令或匹配规则；
+   * 包含后台执行、命令替换或重定向的命令无法可靠拆分，始终需要确认
+   */
+  isAllowed(command: string): boolean {
+    const rules = this.getRules();
+    if (rules.length === 0 || !isRuleMatchable(command)) {
+      return false;
+    }
+
+    const segments = splitCommandSegments(command);
+    return segments.length > 0 && segments.every(segment =>
+      !CommandSecurity.checkCommand(segment).needsConfirm
+      || rules.some(rule => matchesPattern(segment, rule.pattern))
+    );
+  }
+
+  /**
+   * 创建待审批请求
+   */
+  createRequest(command: string, cwd: string | undefined, security: SecurityCheckResult, timeoutMs: number = DEFAULT_APPROVAL_TIMEOUT_MS): ApprovalRequest {
+    const request: ApprovalRequest = {
+      id: createMessageId('approval'),
+      command,
+      cwd,
+      level: security.level,
+      reason: security.reason,
+      suggestedPattern: suggestPattern(command),
+      allowAlways: canRemember(command),
+      expiresAt: Date.now() + timeoutMs,
+    };
+    this.pending.set(request.id, { request });
+    return request;
+  }
+
+  /**
+   * 等待用户决定；超时返回 'timeout'，取消信号触发时抛出错误
+   */
+  waitForDecision(approvalId: string, signal?: AbortSignal): Promise<ApprovalDecision | 'timeout'> {
+    const pending = this.pending.get(approvalId);
+    if (!pending) {
+      return Promise.reject(new Error(`Approval not found: ${approvalId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.resolve?.('timeout');
+      }, Math.max(0, pending.request.expiresAt - Date.now()));
+
+      const onAbort = () => {
+        clearTimeout(timer);
+        this.pending.delete(approvalId);
+        reject(new Error('Cancelled'));
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pending.resolve = (decision) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        this.pending.delete(approvalId);
+        resolve(decision);
+      };
+    });
+  }
+
+  /**
+   * 用户做出决定；选择「始终允许」时同时记住规则（不允许记住的命令按仅本次允许处理）
+   */
+  resolveDecision(approvalId: string, decision: ApprovalDecision, pattern?: string): boolean {
+    const pending = this.pending.get(approvalId);
+    if (!pending?.resolve) {
+      return false;
+    }
+
+    if (decision === 'always' && pending.request.allowAlways) {
+      this.addRule(pattern?.trim() || pending.request.suggestedPattern);
+    }
+    pending.resolve(decision);
+    return true;
+  }
+
+  getRules(): ApprovalRule[] {
+    return this.store.get('rules') || [];
+  }
+
+  addRule(pattern: string): void {
+    const normalized = normalizePattern(pattern);
+    if (!normalized || !isRuleMatchable(normalized) || NEVER_REMEMBER_TOOLS.has(normalized.split(' ')[0])) {
+      logger.warn(`⚠️ Command approval rule rejected: ${pattern}`);
+      return;
+    }
+    const rules = this.getRules();
+    if (rules.some(rule => rule.pattern === normalized)) {
+      return;
+    }
+    this.store.set('rules', [...rules, { pattern: normalized, createdAt: Date.now() }]);
+    logger.info(`✅ Command approval rule added: ${normalized}`);
+  }
+
+  removeRule(pattern: string): boolean {
+    const rules = this.getRules();
+    const remaining = rules.filter(rule => rule.pattern !== pattern);
+    if (remaining.length === rules.length) {
+      return false;
+    }
+    this.store.set('rules', remaining);
+    logger.info(`🗑️ Command approval rule removed: ${pattern}`);
+    return true;
+  }
+}
+
+// 按 && || ; | 拆分命令
+function splitCommandSegments(command: string): string[] {
+  return command.split(/&&|\|\||;|\|/).map(segment => segment.trim()).filter(Boolean);
+}
+
+function isRuleMatchable(command: string): boolean {
+  return !UNMATCHABLE_SYNTAX.test(command);
+}
+
+// 可以记住为规则：结构可拆分，且每一段需要确认的命令都不是删除、提权类命令
+function canRemember(command: string): boolean {
+  return isRuleMatchable(command) && splitCommandSegments(command).every(segment =>
+    !CommandSecurity.checkCommand(segment).needsConfirm
+    || !NEVER_REMEMBER_TOOLS.has(segment.split(/\s+/)[0])
+  );
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.trim().split(/\s+/).filter(Boolean).join(' ');
+}
+
+// 命令的前几个词与规则逐词相同时视为匹配
+function matchesPattern(command: string, pattern: string): boolean {
+  const words = command.trim().split(/\s+/);
+  const patternWords = normalizePattern(pattern).split(' ');
+  return patternWords.length > 0 && patternWords.every((word, index) => words[index] === word);
+}
+
+// 建议的规则取第一段需要确认的命令：带子命令的工具精确到子命令，其他命令保留全部参数
+function suggestPattern(command: string): string {
+  const segments = splitCommandSegments(command);
+  const segment = segments.find(item => CommandSecurity.checkCommand(item).needsConfirm) || segments[0] || '';
+  const words = segment.split(/\s+/).filter(Boolean);
+  const [first = '', second] = words;
+  if (second && !second.startsWith('-') && SUBCOMMAND_TOOLS.has(first)) {
+    return `${first} ${second}`;
+  }
+  return words.join(' ');
+}
+
+export const commandApprovalManager = new CommandApprovalManager();
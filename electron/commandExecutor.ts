@@ -11,6 +11,8 @@
 import { spawn, exec, ChildProcess } from 'child_process';
 import { logger } from './logger';
 import { EventEmitter } from 'events';
+import { readFile, resolvePath } from './fileTools';
+import { fileIndexManager } from './fileIndex';
 
 /**
  * 命令执行结果
@@ -31,6 +33,7 @@ export interface CommandOptions {
   timeout?: number;                // 超时时间（毫秒）
   shell?: boolean;                 // 是否使用 shell
   maxBuffer?: number;              // 最大缓冲区大小
+  signal?: AbortSignal;            // 取消信号（中止时终止子进程）
 }
 
 /**
@@ -59,6 +62,7 @@ export class CommandExecutor extends EventEmitter {
           env: { ...process.env, ...options.env },
           timeout: options.timeout || 30000,
           maxBuffer: options.maxBuffer || 10 * 1024 * 1024, // 10MB
+          signal: options.signal,
         },
         (error, stdout, stderr) => {
           const duration = Date.now() - startTime;
@@ -66,11 +70,13 @@ export class CommandExecutor extends EventEmitter {
           const result: CommandResult = {
             stdout: stdout.toString(),
             stderr: stderr.toString(),
-            exitCode: error ? (error.code || 1) : 0,
+            exitCode: error ? (typeof error.code === 'number' ? error.code : 1) : 0,
             duration,
           };
           
-          if (error) {
+          if (options.signal?.aborted) {
+            logger.info(`🛑 Command cancelled: ${command}`);
+          } else if (error) {
             logger.warn(`⚠️ Command failed with exit code ${result.exitCode}`);
           } else {
             logger.info(`✅ Command completed successfully in ${duration}ms`);
@@ -108,6 +114,14 @@ export class CommandExecutor extends EventEmitter {
       // 保存进程引用（用于取消）
       this.runningProcesses.set(executionId, child);
       
+      // 取消信号触发时终止进程
+      const onAbort = () => this.cancel(executionId);
+      if (options.signal?.aborted) {
+        onAbort();
+      } else {
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+      }
+      
       // 监听标准输出
       child.stdout.on('data', (data) => {
         const output = data.toString();
@@ -130,6 +144,7 @@ export class CommandExecutor extends EventEmitter {
       child.on('close', (code) => {
         const duration = Date.now() - startTime;
         this.runningProcesses.delete(executionId);
+        options.signal?.removeEventListener('abort', onAbort);
         
         const result: CommandResult = {
           stdout,
@@ -151,6 +166,7 @@ export class CommandExecutor extends EventEmitter {
       child.on('error', (error) => {
         const duration = Date.now() - startTime;
         this.runningProcesses.delete(executionId);
+        options.signal?.removeEventListener('abort', onAbort);
         
         logger.error(`❌ Stream command error:`, error);
         
@@ -211,46 +227,31 @@ export class CommandExecutor extends EventEmitter {
   
   /**
    * 查找文件
-   * 根据文件名、类名或内容查找文件位置
+   * 按文件名查询工作区索引，搜索路径不在索引内时临时遍历这些目录
    */
   async findFile(
     query: string,
     fileType?: string,
-    basePath?: string,
-    maxResults: number = 10
+    searchPaths: string[] = ['~/Code'],
+    maxResults: number = 10,
+    signal?: AbortSignal
   ): Promise<string[]> {
-    const searchPath = basePath || '~/Code';
+    const within = searchPaths.map(resolvePath);
     const limit = Math.min(maxResults, 50); // 最大 50 个结果
     
-    logger.info(`🔍 Finding files: query="${query}", type="${fileType || 'all'}", path="${searchPath}"`);
+    logger.info(`🔍 Finding files: query="${query}", type="${fileType || 'all'}", path=${within.join(', ')}`);
     
     try {
-      // 构建查找命令
-      let command: string;
-      
-      if (fileType) {
-        // 有文件类型过滤
-        command = `find ${searchPath} -name "*${fileType}" -type f 2>/dev/null | grep -i "${query}" | head -${limit}`;
-      } else {
-        // 无文件类型过滤
-        command = `find ${searchPath} -type f 2>/dev/null | grep -i "${query}" | head -${limit}`;
-      }
-      
-      const result = await this.execute(command, { timeout: 10000 });
-      
-      if (result.exitCode === 0 && result.stdout.trim()) {
-        const files = result.stdout
-          .trim()
-          .split('\n')
-          .filter(f => f.trim())
-          .map(f => f.replace(/^~/, process.env.HOME || '~')); // 展开 ~
-        
-        logger.info(`✅ Found ${files.length} files`);
+      // 搜索路径都在工作区索引内时直接查询索引
+      if (within.every(dir => fileIndexManager.covers(dir))) {
+        const files = await fileIndexManager.search(query, { fileType, within, limit });
+        logger.info(`✅ Found ${files.length} files (index)`);
         return files;
       }
-      
-      logger.info(`ℹ️ No files found`);
-      return [];
+
+      const files = await fileIndexManager.scan(query, within, { fileType, limit }, signal);
+      logger.info(`✅ Found ${files.length} files (scan)`);
+      return files;
     } catch (error) {
       logger.error(`❌ Find file error:`, error);
       return [];
@@ -264,18 +265,19 @@ export class CommandExecutor extends EventEmitter {
   async smartRead(
     query: string,
     fileType?: string,
-    basePath?: string
+    searchPaths?: string[],
+    signal?: AbortSignal
   ): Promise<{ type: 'content' | 'list'; data: string }> {
     logger.info(`📖 Smart reading: query="${query}", type="${fileType || 'all'}"`);
     
     try {
       // 1. 先查找文件
-      const files = await this.findFile(query, fileType, basePath, 10);
+      const files = await this.findFile(query, fileType, searchPaths, 10, signal);
       
       if (files.length === 0) {
         return {
           type: 'content',
-          data: `❌ 未找到匹配的文件。\n\n搜索条件：\n- 关键词：${query}\n- 文件类型：${fileType || '所有类型'}\n- 搜索路径：${basePath || '~/Code'}\n\n建议：\n1. 检查文件名是否正确\n2. 尝试使用更短的关键词\n3. 检查文件是否在搜索路径下`
+          data: `❌ 未找到匹配的文件。\n\n搜索条件：\n- 关键词：${query}\n- 文件类型：${fileType || '所有类型'}\n- 搜索路径：${(searchPaths || ['~/Code']).join(', ')}\n\n建议：\n1. 检查文件名是否正确\n2. 尝试使用更短的关键词\n3. 检查文件是否在搜索路径下`
         };
       }
       
@@ -284,20 +286,15 @@ export class CommandExecutor extends EventEmitter {
         const filePath = files[0];
         logger.info(`📄 Reading single file: ${filePath}`);
         
-        const result = await this.execute(`cat "${filePath}"`, { timeout: 5000 });
-        
-        if (result.exitCode === 0) {
-          const lineCount = result.stdout.split('\n').length;
-          const sizeKB = (Buffer.byteLength(result.stdout, 'utf8') / 1024).toFixed(2);
-          
+        try {
           return {
             type: 'content',
-            data: `📄 文件：${filePath}\n📊 大小：${sizeKB} KB，共 ${lineCount} 行\n\n${'='.repeat(80)}\n\n${result.stdout}`
+            data: await readFile(filePath, {}, signal)
           };
-        } else {
+        } catch (error) {
           return {
             type: 'content',
-            data: `❌ 读取文件失败：${filePath}\n\n错误信息：\n${result.stderr || '未知错误'}`
+            data: `❌ 读取文件失败：${filePath}\n\n错误信息：\n${error instanceof Error ? error.message : '未知错误'}`
           };
         }
       }
@@ -46,6 +46,8 @@ export class CommandSecurity {
     /wget.*\|\s*sh/,                  // 下载并执行脚本
     /eval\s+/,                        // eval 命令
     /exec\s+/,                        // exec 命令
+    /git\s+push\s+.*(--force|--force-with-lease|-f\b|\s\+\S)/,  // 强制推送
+    /git\s+push\s+.*--(delete|mirror)/, // 删除远程分支 / 镜像推送
   ];
   
   // 需要确认的命令模式
@@ -57,6 +59,13 @@ export class CommandSecurity {
     /brew\s+install/,                 // Homebrew 安装
     /apt-get\s+install/,              // APT 安装
     /yum\s+install/,                  // YUM 安装
+    /git\s+push/,                     // 推送到远程（请优先使用 git_push 工具）
+    /git\s+(commit|checkout|switch|merge|rebase|cherry-pick|revert|stash|tag)\b/, // 修改仓库状态
+    /git\s+reset\s+--hard/,           // 丢弃本地修改
+    /git\s+clean\s+-\w*f/,            // 删除未跟踪文件
+    /git\s+branch\s+-[dD]/,           // 删除分支
+    /\b(node|deno|bun)\b.*\s(-e|-p|--eval|--print)\b/, // 内联执行脚本（计算请使用 run_js 工具）
+    /\bpython[\d.]*\b.*\s-c\b/,       // 内联执行 Python 代码
   ];
   
   /**
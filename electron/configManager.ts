@@ -5,6 +5,16 @@
 import Store from 'electron-store';
 import log from 'electron-log';
 import { BucAuthService, BucUserInfo, UserSession } from './bucAuth';
+import { DEFAULT_PROVIDER, ProviderConfig } from './llmProviders';
+import { DEFAULT_FALLBACK_RULES, FallbackRule } from './modelFallback';
+import { DEFAULT_TOOL_CONCURRENCY } from './toolScheduler';
+import { DEFAULT_LOOP_BUDGET, LoopBudget } from './loopBudget';
+import { DEFAULT_PERSONA_ID, DEFAULT_PERSONAS, Persona } from './personas';
+import { DEFAULT_WORKSPACE_SETTINGS, WorkspaceSettings } from './workspace';
+import { DEFAULT_WEB_FETCH_SETTINGS, WebFetchSettings } from './webFetch';
+import { DEFAULT_OCR_SETTINGS, OcrSettings } from './ocr';
+import { DEFAULT_TOOL_OUTPUT_BUDGETS, ToolOutputBudgets } from './toolOutputs';
+import { ScriptToolConfig } from './scriptTools';
 import axios from 'axios';
 
 interface StoreSchema {
@@ -15,6 +25,20 @@ interface StoreSchema {
   userInfo?: BucUserInfo; // 兼容旧版本
   clipboardImageExpiry?: number; // 粘贴板中截图识别时间范围（秒），默认60秒
   autoUnselectImages?: boolean; // 首轮对话后自动取消附带图片选项，默认true
+  autoClipboard?: boolean; // 建议回复自动复制、AI 写入粘贴板无需确认，默认true
+  knowledge?: string; // 背景知识
+  providers: ProviderConfig[]; // LLM 提供方列表
+  activeProviderId: string; // 当前使用的提供方 ID
+  fallbackRules: FallbackRule[]; // 模型降级规则
+  toolConcurrency: number; // 只读工具最大并发数
+  loopBudget: LoopBudget; // 工具调用循环预算
+  personas: Persona[]; // 人设列表
+  defaultPersonaId: string; // 默认人设 ID
+  workspace: WorkspaceSettings; // 工作区目录和越界访问策略
+  webFetch: WebFetchSettings; // 网页抓取的代理、域名限制和缓存
+  ocr: OcrSettings; // 截图文字识别
+  toolOutputBudgets: ToolOutputBudgets; // 工具输出长度上限
+  scriptTools: ScriptToolConfig[]; // 用户自定义脚本工具
 }
 
 export class ConfigManager {
@@ -29,6 +53,19 @@ export class ConfigManager {
         shortcut: 'CommandOrControl+Shift+0',
         clipboardImageExpiry: 60,
         autoUnselectImages: true,
+        autoClipboard: true,
+        providers: [DEFAULT_PROVIDER],
+        activeProviderId: DEFAULT_PROVIDER.id,
+        fallbackRules: DEFAULT_FALLBACK_RULES,
+        toolConcurrency: DEFAULT_TOOL_CONCURRENCY,
+        loopBudget: DEFAULT_LOOP_BUDGET,
+        personas: DEFAULT_PERSONAS,
+        defaultPersonaId: DEFAULT_PERSONA_ID,
+        workspace: DEFAULT_WORKSPACE_SETTINGS,
+        webFetch: DEFAULT_WEB_FETCH_SETTINGS,
+        ocr: DEFAULT_OCR_SETTINGS,
+        toolOutputBudgets: DEFAULT_TOOL_OUTPUT_BUDGETS,
+        scriptTools: [],
       },
     });
     
@@ -50,6 +87,30 @@ export class ConfigManager {
     log.info('Config saved:', config);
   }
 
+  /**
+   * 获取当前使用的 LLM 提供方
+   * 找不到时回退到默认提供方
+   */
+  getActiveProvider(): ProviderConfig {
+    const providers = this.store.get('providers') || [];
+    const activeId = this.store.get('activeProviderId');
+    return providers.find(p => p.id === activeId) || providers[0] || DEFAULT_PROVIDER;
+  }
+
+  /**
+   * 获取提供方使用的 API Key
+   * 优先使用提供方自己的 Key，否则使用全局 API Key
+   */
+  async getProviderApiKey(provider: ProviderConfig): Promise<string> {
+    if (provider.authScheme === 'none') {
+      return '';
+    }
+    if (provider.apiKey && provider.apiKey.trim()) {
+      return provider.apiKey;
+    }
+    return this.getApiKey();
+  }
+
   /**
    * 获取用户信息
    */
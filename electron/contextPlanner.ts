@@ -0,0 +1,248 @@
+/**
+ * 上下文规划器
+ *
+ * 职责：
+ * 1. 维护各模型的输入 / 输出 Token 上限和请求体大小上限
+ * 2. 估算聊天消息（OpenAI 格式）的 Token 数和请求体大小
+ * 3. 超出预算时依次：截断系统提示词（背景知识）→ 移除旧图片 → 截断旧工具结果 → 移除最早的对话轮次
+ *
+ * 每次调用模型前（包括工具调用循环中的每一轮）都会重新规划
+ */
+
+/**
+ * 模型限制
+ */
+export interface ModelLimits {
+  maxInputTokens: number;    // 最大输入 Token
+  maxOutputTokens: number;   // 为输出预留的 Token
+  maxRequestBytes: number;   // 最大请求体大小（字节）
+}
+
+/**
+ * 上下文规划统计
+ */
+export interface ContextPlanStats {
+  originalTokens: number;
+  plannedTokens: number;
+  targetTokens: number;
+  originalBytes: number;
+  plannedBytes: number;
+  systemTruncated: boolean;  // 系统提示词（背景知识）被截断
+  imagesRemoved: number;     // 移除的图片数
+  toolOutputsTruncated: number; // 截断的工具结果数
+  messagesRemoved: number;   // 移除的消息数
+}
+
+/**
+ * 上下文规划结果
+ */
+export interface ContextPlan {
+  messages: any[];
+  stats: ContextPlanStats;
+  trimmed: boolean;
+}
+
+const MB = 1024 * 1024;
+
+/**
+ * 各模型限制（按顺序匹配，第一个匹配的生效）
+ */
+export const MODEL_LIMITS: Array<{ pattern: RegExp; limits: ModelLimits }> = [
+  { pattern: /^qwen3-vl/i, limits: { maxInputTokens: 258048, maxOutputTokens: 32768, maxRequestBytes: 5 * MB } },
+  { pattern: /^qwen-vl-max/i, limits: { maxInputTokens: 129024, maxOutputTokens: 8192, maxRequestBytes: 5 * MB } },
+  { pattern: /^qwen-vl-plus/i, limits: { maxInputTokens: 129024, maxOutputTokens: 8192, maxRequestBytes: 5 * MB } },
+  { pattern: /^qwen-vl$/i, limits: { maxInputTokens: 30720, maxOutputTokens: 2048, maxRequestBytes: 5 * MB } },
+  { pattern: /^claude/i, limits: { maxInputTokens: 200000, maxOutputTokens: 8192, maxRequestBytes: 30 * MB } },
+  { pattern: /^(gpt-4o|gpt-4\.1|o\d)/i, limits: { maxInputTokens: 128000, maxOutputTokens: 16384, maxRequestBytes: 20 * MB } },
+];
+
+/**
+ * 未知模型使用的保守限制
+ */
+export const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  maxInputTokens: 32000,
+  maxOutputTokens: 4096,
+  maxRequestBytes: 5 * MB,
+};
+
+// 目标窗口比例（为估算误差留出余量）
+const TARGET_RATIO = 0.85;
+// 系统提示词最多占用的比例
+const MAX_SYSTEM_RATIO = 0.3;
+// 每张图片估算的 Token 数
+const IMAGE_TOKENS = 1500;
+// 旧工具结果截断后保留的字符数
+const TOOL_OUTPUT_KEEP_CHARS = 2000;
+
+/**
+ * 获取模型限制
+ */
+export function getModelLimits(model: string): ModelLimits {
+  return MODEL_LIMITS.find(entry => entry.pattern.test(model))?.limits || DEFAULT_MODEL_LIMITS;
+}
+
+/**
+ * 历史消息可用的 Token 预算
+ */
+export function getTargetTokens(limits: ModelLimits): number {
+  return Math.floor((limits.maxInputTokens - limits.maxOutputTokens) * TARGET_RATIO);
+}
+
+/**
+ * 估算文本的 Token 数量（中英文混合约 1.5 字符/Token）
+ */
+export function estimateTextTokens(text: string): number {
+  return text ? Math.ceil(text.length / 1.5) : 0;
+}
+
+/**
+ * 估算单条聊天消息的 Token 数量
+ */
+export function estimateChatMessageTokens(message: any): number {
+  let tokens = 4; // 角色等固定开销
+  if (typeof message.content === 'string') {
+    tokens += estimateTextTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      tokens += part.type === 'image_url' ? IMAGE_TOKENS : estimateTextTokens(part.text || '');
+    }
+  }
+  for (const call of message.tool_calls || []) {
+    tokens += estimateTextTokens(call.function.name + call.function.arguments);
+  }
+  return tokens;
+}
+
+// 估算单条消息的请求体大小（字节）
+function estimateChatMessageBytes(message: any): number {
+  return Buffer.byteLength(JSON.stringify(message), 'utf-8');
+}
+
+/**
+ * 规划发送给模型的上下文
+ * 系统消息和最后一轮用户对话始终保留
+ */
+export function planContext(messages: any[], limits: ModelLimits): ContextPlan {
+  const targetTokens = getTargetTokens(limits);
+  const targetBytes = Math.floor(limits.maxRequestBytes * TARGET_RATIO);
+
+  const measure = (list: any[]) => ({
+    tokens: list.reduce((sum, msg) => sum + estimateChatMessageTokens(msg), 0),
+    bytes: list.reduce((sum, msg) => sum + estimateChatMessageBytes(msg), 0),
+  });
+  const fits = (list: any[]) => {
+    const size = measure(list);
+    return size.tokens <= targetTokens && size.bytes <= targetBytes;
+  };
+
+  const original = measure(messages);
+  const stats: ContextPlanStats = {
+    originalTokens: original.tokens,
+    plannedTokens: original.tokens,
+    targetTokens,
+    originalBytes: original.bytes,
+    plannedBytes: original.bytes,
+    systemTruncated: false,
+    imagesRemoved: 0,
+    toolOutputsTruncated: 0,
+    messagesRemoved: 0,
+  };
+
+  if (fits(messages)) {
+    return { messages, stats, trimmed: false };
+  }
+
+  let planned = messages.map(msg => ({ ...msg }));
+  const lastUserIndex = findLastIndex(planned, msg => msg.role === 'user');
+
+  // 策略1：截断过长的系统提示词（通常是背景知识过长）
+  const maxSystemChars = Math.floor(targetTokens * MAX_SYSTEM_RATIO * 1.5);
+  planned.forEach(msg => {
+    if (msg.role === 'system' && typeof msg.content === 'string' && msg.content.length > maxSystemChars) {
+      msg.content = `${msg.content.slice(0, maxSystemChars)}\n…（内容过长，已截断）`;
+      stats.systemTruncated = true;
+    }
+  });
+
+  // 策略2：移除旧图片（保留最后一条带图片的消息）
+  if (!fits(planned)) {
+    const lastImageIndex = findLastIndex(planned, hasImages);
+    planned = planned.map((msg, index) => {
+      if (index >= lastImageIndex || !hasImages(msg)) {
+        return msg;
+      }
+      const parts = msg.content.filter((part: any) => part.type !== 'image_url');
+      stats.imagesRemoved += msg.content.length - parts.length;
+      return { ...msg, content: [...parts, { type: 'text', text: '（图片已省略）' }] };
+    });
+  }
+
+  // 策略3：截断最后一轮用户对话之前的工具结果
+  if (!fits(planned)) {
+    planned = planned.map((msg, index) => {
+      if (index >= lastUserIndex || msg.role !== 'tool' || typeof msg.content !== 'string' || msg.content.length <= TOOL_OUTPUT_KEEP_CHARS) {
+        return msg;
+      }
+      stats.toolOutputsTruncated++;
+      return {
+        ...msg,
+        content: `${msg.content.slice(0, TOOL_OUTPUT_KEEP_CHARS)}\n…（工具结果过长，已截断，原长度 ${msg.content.length} 字符）`,
+      };
+    });
+  }
+
+  // 策略4：从最早的对话轮次开始整轮移除（按用户消息切分，保证工具调用与结果成对）
+  while (!fits(planned)) {
+    const firstTurn = planned.findIndex(msg => msg.role !== 'system');
+    if (firstTurn < 0 || firstTurn >= findLastIndex(planned, msg => msg.role === 'user')) {
+      break;
+    }
+    const nextTurn = planned.findIndex((msg, index) => index > firstTurn && msg.role === 'user');
+    stats.messagesRemoved += nextTurn - firstTurn;
+    planned.splice(firstTurn, nextTurn - firstTurn);
+  }
+
+  // 策略5：工具调用循环较长时，截断本轮中除最新一批之外的工具结果
+  if (!fits(planned)) {
+    const latestCallIndex = findLastIndex(planned, msg => msg.role === 'assistant' && !!msg.tool_calls);
+    planned = planned.map((msg, index) => {
+      if (index >= latestCallIndex || msg.role !== 'tool' || typeof msg.content !== 'string' || msg.content.length <= TOOL_OUTPUT_KEEP_CHARS) {
+        return msg;
+      }
+      stats.toolOutputsTruncated++;
+      return {
+        ...msg,
+        content: `${msg.content.slice(0, TOOL_OUTPUT_KEEP_CHARS)}\n…（工具结果过长，已截断，原长度 ${msg.content.length} 字符）`,
+      };
+    });
+  }
+
+  const result = measure(planned);
+  stats.plannedTokens = result.tokens;
+  stats.plannedBytes = result.bytes;
+
+  return { messages: planned, stats, trimmed: true };
+}
+
+/**
+ * 生成裁剪说明（用于提示用户）
+ */
+export function describeContextPlan(stats: ContextPlanStats): string {
+  const parts: string[] = [];
+  if (stats.systemTruncated) parts.push('截断了过长的背景知识');
+  if (stats.imagesRemoved > 0) parts.push(`省略了 ${stats.imagesRemoved} 张较早的图片`);
+  if (stats.toolOutputsTruncated > 0) parts.push(`截断了 ${stats.toolOutputsTruncated} 个较早的工具结果`);
+  if (stats.messagesRemoved > 0) parts.push(`移除了 ${stats.messagesRemoved} 条最早的消息`);
+  return `上下文超出模型限制，已${parts.join('、') || '调整上下文'}`;
+}
+
+function hasImages(message: any): boolean {
+  return Array.isArray(message.content) && message.content.some((part: any) => part.type === 'image_url');
+}
+
+function findLastIndex<T>(list: T[], predicate: (item: T) => boolean): number {
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (predicate(list[i])) return i;
+  }
+  return -1;
+}
@@ -0,0 +1,144 @@
+/**
+ * 对话滚动摘要
+ *
+ * 职责：
+ * 1. 估算历史消息的 Token 数量
+ * 2. 历史超出预算时，选出需要压缩的较早消息（保留最近几轮对话）
+ * 3. 构建摘要请求（在已有摘要的基础上合并新的消息）
+ */
+
+/**
+ * 会话摘要
+ */
+export interface ConversationSummary {
+  content: string;          // 摘要内容
+  upToMessageId: string;    // 摘要覆盖到的最后一条消息（包含）
+  messageCount: number;     // 摘要覆盖的消息数量
+  updatedAt: number;
+}
+
+/**
+ * 摘要选项
+ */
+export interface SummaryOptions {
+  triggerTokens: number;    // 历史超过该 Token 数时触发摘要
+  keepRecentTurns: number;  // 始终原样保留的最近用户轮数
+}
+
+export const DEFAULT_SUMMARY_OPTIONS: SummaryOptions = {
+  triggerTokens: 60000,
+  keepRecentTurns: 4,
+};
+
+// 摘要本身的最大输出 Token
+export const SUMMARY_MAX_TOKENS = 2000;
+
+// 每张图片估算的 Token 数
+const IMAGE_TOKENS = 1500;
+
+/**
+ * 参与摘要的消息（只依赖以下字段）
+ */
+interface SummarizableMessage {
+  id: string;
+  role: string;
+  content: string | any[] | null;
+  imageUrls?: string[];
+  clipboardImageUrls?: string[];
+  tool_calls?: Array<{ function: { name: string; arguments: string } }>;
+}
+
+/**
+ * 估算单条消息的 Token 数量（约 1.5 字符/Token，图片按固定值估算）
+ */
+export function estimateMessageTokens(message: SummarizableMessage): number {
+  let tokens = Math.ceil(getMessageText(message).length / 1.5);
+  for (const call of message.tool_calls || []) {
+    tokens += Math.ceil((call.function.name.length + call.function.arguments.length) / 1.5);
+  }
+  const imageCount = (message.imageUrls?.length || 0) + (message.clipboardImageUrls?.length || 0);
+  return tokens + imageCount * IMAGE_TOKENS;
+}
+
+/**
+ * 选出需要合并进摘要的消息
+ * 只在未摘要的历史超过预算时返回；切分点总在用户消息之前，保证工具调用与结果不被拆开
+ */
+export function selectMessagesToSummarize<T extends SummarizableMessage>(
+  unsummarized: T[],
+  options: SummaryOptions = DEFAULT_SUMMARY_OPTIONS
+): T[] {
+  const total = unsummarized.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+  if (total <= options.triggerTokens) {
+    return [];
+  }
+
+  const userIndexes = unsummarized
+    .map((msg, index) => (msg.role === 'user' ? index : -1))
+    .filter(index => index >= 0);
+
+  // 从倒数第 keepRecentTurns 个用户消息开始原样保留
+  const keepFrom = userIndexes[userIndexes.length - Math.max(1, options.keepRecentTurns)];
+  if (keepFrom === undefined || keepFrom === 0) {
+    return [];
+  }
+
+  return unsummarized.slice(0, keepFrom);
+}
+
+/**
+ * 构建摘要请求消息
+ */
+export function buildSummaryRequest(previousSummary: string | undefined, messages: SummarizableMessage[]): any[] {
+  const transcript = messages.map(formatForTranscript).filter(Boolean).join('\n\n');
+
+  return [
+    {
+      role: 'system',
+      content: `你负责压缩一段较长的对话历史，生成供后续对话使用的摘要。
+要求：
+- 保留关键事实：用户目标、已确认的结论、文件路径、命令、报错信息、配置值、已做出的决定和未完成的事项
+- 省略寒暄、重复内容和已被推翻的尝试
+- 使用要点列表，总长度不超过 ${SUMMARY_MAX_TOKENS} tokens
+- 只输出摘要本身`,
+    },
+    {
+      role: 'user',
+      content: `${previousSummary ? `【已有摘要】\n${previousSummary}\n\n` : ''}【需要合并的新对话】\n${transcript}\n\n请输出合并后的完整摘要。`,
+    },
+  ];
+}
+
+// 将消息转换为摘要用的文本
+function formatForTranscript(message: SummarizableMessage): string {
+  const text = getMessageText(message);
+  switch (message.role) {
+    case 'user':
+      return `用户：${text}`;
+    case 'assistant': {
+      const calls = (message.tool_calls || [])
+        .map(call => `[调用工具 ${call.function.name} ${call.function.arguments}]`)
+        .join('\n');
+      return [text && `助手：${text}`, calls].filter(Boolean).join('\n');
+    }
+    case 'tool':
+      // 工具结果可能很长，只保留开头部分
+      return `[工具结果] ${text.length > 2000 ? `${text.slice(0, 2000)}…（已截断）` : text}`;
+    default:
+      return '';
+  }
+}
+
+// 提取消息中的文本内容
+function getMessageText(message: SummarizableMessage): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content
+      .filter((part: any) => part.type === 'text')
+      .map((part: any) => part.text)
+      .join('\n');
+  }
+  return '';
+}
@@ -0,0 +1,317 @@
+/**
+ * 文件修改管理器
+ *
+ * 职责：
+ * 1. 根据 write_file / edit_file / apply_patch 生成待确认的修改（只计算，不落盘）
+ * 2. 等待用户在聊天界面确认或拒绝
+ * 3. 应用修改前按原始字节备份原文件，写入失败时回滚，支持从聊天中撤销
+ */
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+import { logger } from './logger';
+import { isBinaryBuffer, resolvePath } from './fileTools';
+import { createMessageId } from './messageTree';
+import { applyHunks, createUnifiedDiff, parseUnifiedDiff } from './unifiedDiff';
+
+/**
+ * 单个文件的修改
+ */
+export interface FileChange {
+  path: string;            // 绝对路径
+  original: Buffer | null; // 原文件字节，null 表示新建
+  before: string | null;   // 原文件文本，null 表示新建
+  after: string | null;    // null 表示删除
+}
+
+/**
+ * 修改记录（发送给界面并保存在工具结果消息上）
+ */
+export interface FileEditRecord {
+  id: string;
+  tool: 'write_file' | 'edit_file' | 'apply_patch';
+  files: Array<{ path: string; action: 'create' | 'modify' | 'delete' }>;
+  diff: string;
+  status: 'pending' | 'applied' | 'rejected' | 'reverted';
+}
+
+/**
+ * 待确认的修改
+ */
+interface PendingEdit {
+  record: FileEditRecord;
+  changes: FileChange[];
+  resolve?: (approved: boolean) => void;
+}
+
+// 备份清单
+interface BackupManifest {
+  id: string;
+  createdAt: number;
+  files: Array<{ path: string; existed: boolean; backupFile?: string; after: string | null }>;
+}
+
+const BACKUP_DIR = path.join(app.getPath('userData'), 'file-edit-backups');
+
+class FileEditManager {
+  private pending: Map<string, PendingEdit> = new Map();
+
+  /**
+   * 整体写入文件
+   */
+  async prepareWriteFile(filePath: string, content: string): Promise<FileEditRecord> {
+    const absolutePath = resolvePath(filePath);
+    const original = await readIfExists(absolutePath);
+    return this.createPending('write_file', [{ path: absolutePath, original, before: decodeForEdit(absolutePath, original), after: content }]);
+  }
+
+  /**
+   * 精确字符串替换
+   * old_string 必须在文件中唯一出现，除非 replaceAll 为 true
+   */
+  async prepareEditFile(filePath: string, oldString: string, newString: string, replaceAll: boolean = false): Promise<FileEditRecord> {
+    const absolutePath = resolvePath(filePath);
+    const original = await readIfExists(absolutePath);
+    const before = decodeForEdit(absolutePath, original);
+    if (before === null) {
+      throw new Error(`文件不存在：${absolutePath}`);
+    }
+    if (!oldString) {
+      throw new Error('old_string 不能为空');
+    }
+
+    const occurrences = before.split(oldString).length - 1;
+    if (occurrences === 0) {
+      throw new Error('文件中未找到 old_string，请先用 read_file 确认原文（包括缩进和换行）');
+    }
+    if (occurrences > 1 && !replaceAll) {
+      throw new Error(`old_string 在文件中出现了 ${occurrences} 次，请提供更多上下文使其唯一，或设置 replace_all`);
+    }
+
+    const after = replaceAll ? before.split(oldString).join(newString) : before.replace(oldString, () => newString);
+    return this.createPending('edit_file', [{ path: absolutePath, original, before, after }]);
+  }
+
+  /**
+   * 应用统一 diff 补丁（可包含多个文件）
+   */
+  async prepareApplyPatch(patch: string, baseDir?: string): Promise<FileEditRecord> {
+    const changes: FileChange[] = [];
+
+    for (const filePatch of parseUnifiedDiff(patch)) {
+      const relativePath = filePatch.newPath ?? filePatch.oldPath;
+      if (!relativePath) {
+        throw new Error('补丁格式错误：文件路径为空');
+      }
+      const absolutePath = baseDir ? path.resolve(resolvePath(baseDir), relativePath) : resolvePath(relativePath);
+      const original = await readIfExists(absolutePath);
+      const before = decodeForEdit(absolutePath, original);
+
+      if (filePatch.oldPath === null && before !== null) {
+        throw new Error(`补丁要新建的文件已存在：${absolutePath}`);
+      }
+      if (filePatch.oldPath !== null && before === null) {
+        throw new Error(`文件不存在：${absolutePath}`);
+      }
+
+      const after = filePatch.newPath === null ? null : applyHunks(before ?? '', filePatch.hunks);
+      changes.push({ path: absolutePath, original, before, after });
+    }
+
+    return this.createPending('apply_patch', changes);
+  }
+
+  /**
+   * 等待用户确认，取消信号触发时视为拒绝并抛出错误
+   */
+  waitForDecision(editId: string, signal?: AbortSignal): Promise<boolean> {
+    const pending = this.pending.get(editId);
+    if (!pending) {
+      return Promise.reject(new Error(`Edit not found: ${editId}`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.pending.delete(editId);
+        reject(new Error('Cancelled'));
+      };
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      pending.resolve = (approved) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(approved);
+      };
+    });
+  }
+
+  /**
+   * 用户确认或拒绝修改
+   */
+  resolveDecision(editId: string, approved: boolean): boolean {
+    const pending = this.pending.get(editId);
+    if (!pending?.resolve) {
+      return false;
+    }
+    pending.resolve(approved);
+    return true;
+  }
+
+  /**
+   * 应用已确认的修改（先备份，再写入）
+   * 任一文件写入失败时从备份恢复已写入的文件，整个修改不生效
+   */
+  async apply(editId: string): Promise<FileEditRecord> {
+    const pending = this.pending.get(editId);
+    if (!pending) {
+      throw new Error(`Edit not found: ${editId}`);
+    }
+    this.pending.delete(editId);
+
+    // 确认期间文件被修改过时拒绝覆盖
+    for (const change of pending.changes) {
+      if (!sameBytes(await readIfExists(change.path), change.original)) {
+        throw new Error(`文件在确认期间已被修改：${change.path}，请重新读取后再修改`);
+      }
+    }
+
+    const manifest = await this.writeBackup(editId, pending.changes);
+
+    for (const [index, change] of pending.changes.entries()) {
+      try {
+        await writeOrDelete(change.path, change.after);
+      } catch (error) {
+        logger.error(`❌ Failed to write ${change.path}, rolling back file edit ${editId}:`, error);
+        // 包括写入失败的文件本身，它可能只写了一部分
+        await this.restoreFromBackup(editId, manifest.files.slice(0, index + 1));
+        await fs.promises.rm(path.join(BACKUP_DIR, editId), { recursive: true, force: true }).catch(() => {});
+        throw error;
+      }
+    }
+
+    logger.info(`✏️ Applied file edit ${editId}: ${pending.record.files.map(f => f.path).join(', ')}`);
+    return { ...pending.record, status: 'applied' };
+  }
+
+  /**
+   * 丢弃被拒绝的修改
+   */
+  discard(editId: string): void {
+    this.pending.delete(editId);
+  }
+
+  /**
+   * 撤销已应用的修改（从备份恢复）
+   */
+  async revert(editId: string): Promise<void> {
+    const manifestPath = path.join(BACKUP_DIR, editId, 'manifest.json');
+    const manifest = JSON.parse(await fs.promises.readFile(manifestPath, 'utf-8')) as BackupManifest;
+
+    for (const file of manifest.files) {
+      const current = await readIfExists(file.path);
+      if (!sameBytes(current, file.after === null ? null : Buffer.from(file.after, 'utf-8'))) {
+        throw new Error(`文件在修改后又被改动过：${file.path}，无法安全撤销`);
+      }
+    }
+
+    await this.restoreFromBackup(editId, manifest.files);
+
+    logger.info(`↩️ Reverted file edit ${editId}`);
+  }
+
+  private createPending(tool: FileEditRecord['tool'], changes: FileChange[]): FileEditRecord {
+    const effective = changes.filter(change => change.before !== change.after);
+    if (effective.length === 0) {
+      throw new Error('修改后的内容与原文件相同，无需修改');
+    }
+
+    const record: FileEditRecord = {
+      id: createMessageId('edit'),
+      tool,
+      files: effective.map(change => ({
+        path: change.path,
+        action: change.before === null ? 'create' : change.after === null ? 'delete' : 'modify',
+      })),
+      diff: effective.map(change => createUnifiedDiff(change.path, change.before, change.after)).join('\n'),
+      status: 'pending',
+    };
+
+    this.pending.set(record.id, { record, changes: effective });
+    return record;
+  }
+
+  // 备份原文件的原始字节，写入清单后才开始修改
+  private async writeBackup(editId: string, changes: FileChange[]): Promise<BackupManifest> {
+    const dir = path.join(BACKUP_DIR, editId);
+    await fs.promises.mkdir(dir, { recursive: true });
+
+    const manifest: BackupManifest = { id: editId, createdAt: Date.now(), files: [] };
+    for (const [index, change] of changes.entries()) {
+      const backupFile = change.original !== null ? `${index}.bak` : undefined;
+      if (backupFile) {
+        await fs.promises.writeFile(path.join(dir, backupFile), change.original!);
+      }
+      manifest.files.push({ path: change.path, existed: change.original !== null, backupFile, after: change.after });
+    }
+
+    await fs.promises.writeFile(path.join(dir, 'manifest.json'), JSON.stringify(manifest, null, 2), 'utf-8');
+    return manifest;
+  }
+
+  // 将文件恢复为备份中的原始内容（原来不存在的文件删除）
+  private async restoreFromBackup(editId: string, files: BackupManifest['files']): Promise<void> {
+    for (const file of files) {
+      const original = file.existed && file.backupFile
+        ? await fs.promises.readFile(path.join(BACKUP_DIR, editId, file.backupFile))
+        : null;
+      await writeOrDelete(file.path, original);
+    }
+  }
+}
+
+// 读取文件原始字节，不存在时返回 null
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  try {
+    return await fs.promises.readFile(filePath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// 解码为待修改的文本；不是 UTF-8 文本的文件拒绝修改，避免有损转换破坏原内容
+function decodeForEdit(filePath: string, buffer: Buffer | null): string | null {
+  if (buffer === null) {
+    return null;
+  }
+  if (isBinaryBuffer(buffer)) {
+    throw new Error(`无法修改二进制文件：${filePath}`);
+  }
+  try {
+    // 保留 BOM，写回时原样编码
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: true }).decode(buffer);
+  } catch {
+    throw new Error(`文件不是 UTF-8 编码，无法安全修改：${filePath}`);
+  }
+}
+
+function sameBytes(a: Buffer | null, b: Buffer | null): boolean {
+  return a === null || b === null ? a === b : a.equals(b);
+}
+
+// 写入文件（content 为 null 时删除）
+async function writeOrDelete(filePath: string, content: string | Buffer | null): Promise<void> {
+  if (content === null) {
+    await fs.promises.rm(filePath, { force: true });
+    return;
+  }
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, content);
+}
+
+export const fileEditManager = new FileEditManager();
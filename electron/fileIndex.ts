@@ -0,0 +1,392 @@
+/**
+ * 文件名索引
+ *
+ * 职责：
+ * 1. 为每个工作区根目录在后台建立文件名索引（遵循 .gitignore 和排除规则）
+ * 2. 通过 fs.watch 增量更新索引；平台不支持递归监听时定期重建
+ * 3. 按模糊匹配和驼峰 / 下划线分词打分（如 PVLogWrapper 可匹配 pv_log_wrapper.java）
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { SKIPPED_DIRECTORIES } from './fileTools';
+import { IgnoreRule, isIgnored, loadAncestorIgnoreRules, matchGlob, parseGitignore } from './codeSearch';
+import { isWithin } from './workspace';
+
+/**
+ * 索引查询选项
+ */
+export interface FileQueryOptions {
+  fileType?: string;      // 扩展名过滤，如 '.ts'
+  within?: string[];      // 只返回这些目录下的文件（绝对路径）
+  limit?: number;
+}
+
+/**
+ * 索引查询结果
+ */
+export interface FileQueryMatch {
+  path: string;   // 绝对路径
+  score: number;
+}
+
+// 单个根目录最多索引的文件数
+const MAX_FILES_PER_ROOT = 300_000;
+// 文件变化事件的合并间隔
+const WATCH_DEBOUNCE_MS = 300;
+// 不支持递归监听时的重建间隔
+const RESCAN_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * 将名称拆分为小写单词（驼峰、数字和 _ - . 空格 / 分隔）
+ * 例如 PVLogWrapper → ['pv', 'log', 'wrapper']，pv_log_wrapper.java → ['pv', 'log', 'wrapper', 'java']
+ */
+export function splitWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+/**
+ * 计算查询与相对路径的匹配分数，不匹配时返回 0
+ */
+export function scoreFilePath(query: string, relativePath: string): number {
+  const normalizedPath = relativePath.split(path.sep).join('/');
+  const basename = path.posix.basename(normalizedPath);
+  const stem = basename.replace(/\.[^.]+$/, '');
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+
+  const compact = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const qCompact = compact(q);
+  const lowerPath = normalizedPath.toLowerCase();
+  // 路径越短越靠前
+  const lengthPenalty = Math.min(normalizedPath.length, 200) / 10;
+
+  // 查询包含路径分隔符时按路径匹配
+  if (q.includes('/')) {
+    if (lowerPath.endsWith(q)) return 700 - lengthPenalty;
+    if (lowerPath.includes(q)) return 600 - lengthPenalty;
+    const fuzzy = subsequenceScore(q, lowerPath);
+    return fuzzy > 0 ? 100 + fuzzy - lengthPenalty : 0;
+  }
+
+  const lowerBase = basename.toLowerCase();
+  if (lowerBase === q || stem.toLowerCase() === q) return 1000 - lengthPenalty;
+  if (qCompact && compact(stem) === qCompact) return 900 - lengthPenalty;
+  if (qCompact && compact(basename).startsWith(qCompact)) return 800 - lengthPenalty;
+  if (lowerBase.includes(q)) return 700 - lengthPenalty;
+  if (qCompact && compact(basename).includes(qCompact)) return 650 - lengthPenalty;
+
+  // 单词前缀匹配：PVLogWrap → pv_log_wrapper
+  const queryWords = splitWords(query);
+  const nameWords = splitWords(basename);
+  if (queryWords.length > 1 && matchWordPrefixes(queryWords, nameWords)) return 600 - lengthPenalty;
+
+  // 首字母缩写：plw → pv_log_wrapper
+  const initials = nameWords.map(word => word[0]).join('');
+  if (qCompact.length > 1 && initials.startsWith(qCompact)) return 550 - lengthPenalty;
+
+  if (lowerPath.includes(q)) return 400 - lengthPenalty;
+
+  const wordStarts = new Set<number>();
+  nameWords.reduce((offset, word) => (wordStarts.add(offset), offset + word.length), 0);
+  const fuzzy = subsequenceScore(qCompact, nameWords.join(''), wordStarts);
+  if (fuzzy > 0) return 200 + fuzzy - lengthPenalty;
+  return 0;
+}
+
+// 查询单词依次是名称中（按顺序、可跳过）单词的前缀
+function matchWordPrefixes(queryWords: string[], nameWords: string[]): boolean {
+  let j = 0;
+  for (const word of queryWords) {
+    while (j < nameWords.length && !nameWords[j].startsWith(word)) j++;
+    if (j === nameWords.length) return false;
+    j++;
+  }
+  return true;
+}
+
+// 子序列匹配分数（连续匹配、匹配到单词开头越多分数越高），不匹配时返回 0
+function subsequenceScore(query: string, text: string, wordStarts?: Set<number>): number {
+  if (!query) return 0;
+  let score = 0;
+  let streak = 0;
+  let j = 0;
+  for (const char of query) {
+    const index = text.indexOf(char, j);
+    if (index < 0) return 0;
+    streak = index === j ? streak + 1 : 1;
+    score += streak + (wordStarts?.has(index) ? 3 : 0);
+    j = index + 1;
+  }
+  return Math.min(score, 150);
+}
+
+/**
+ * 单个根目录的索引
+ */
+class RootIndex {
+  private files: Set<string> = new Set();  // 相对路径（使用 /）
+  private watcher: fs.FSWatcher | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pendingChanges: Set<string> = new Set();
+  private building: Promise<void> | null = null;
+  private disposed = false;
+  truncated = false;
+
+  constructor(readonly root: string, private exclude: string[]) {}
+
+  start(): void {
+    this.building = this.rebuild();
+    this.watch();
+  }
+
+  /**
+   * 只遍历一次，不监听变化
+   */
+  scan(): void {
+    this.building = this.rebuild();
+  }
+
+  /**
+   * 等待首次建立索引完成
+   */
+  async ready(): Promise<void> {
+    await this.building;
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  query(query: string, options: FileQueryOptions): FileQueryMatch[] {
+    const fileType = options.fileType ? `.${options.fileType.replace(/^\./, '')}`.toLowerCase() : '';
+    // 查询范围包含整个根目录时不需要逐个过滤
+    const within = options.within?.some(dir => isWithin(dir, this.root)) ? undefined : options.within;
+    const matches: FileQueryMatch[] = [];
+
+    for (const relativePath of this.files) {
+      if (fileType && !relativePath.toLowerCase().endsWith(fileType)) continue;
+      const score = scoreFilePath(query, relativePath);
+      if (score <= 0) continue;
+
+      const absolutePath = path.join(this.root, relativePath);
+      if (within && !within.some(dir => isWithin(dir, absolutePath))) continue;
+      matches.push({ path: absolutePath, score });
+    }
+    return matches;
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.rescanTimer) clearInterval(this.rescanTimer);
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+  }
+
+  private async rebuild(): Promise<void> {
+    const startedAt = Date.now();
+    const files = new Set<string>();
+    this.truncated = false;
+    await this.walk(this.root, '', await loadAncestorIgnoreRules(this.root), files);
+    if (this.disposed) return;
+    this.files = files;
+    logger.info(`🗂️ Indexed ${files.size} files in ${this.root} (${Date.now() - startedAt}ms)${this.truncated ? ' (truncated)' : ''}`);
+  }
+
+  // 遍历目录，relativeDir 为空表示根目录
+  private async walk(dir: string, relativeDir: string, rules: IgnoreRule[], files: Set<string>): Promise<void> {
+    if (this.disposed) return;
+    const gitignore = await fs.promises.readFile(path.join(dir, '.gitignore'), 'utf-8').catch(() => null);
+    const activeRules = gitignore ? [...rules, ...parseGitignore(gitignore, relativeDir)] : rules;
+    const dirents = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+
+    for (const dirent of dirents) {
+      if (files.size >= MAX_FILES_PER_ROOT) {
+        this.truncated = true;
+        return;
+      }
+      const relativePath = relativeDir ? `${relativeDir}/${dirent.name}` : dirent.name;
+      if (dirent.isDirectory()) {
+        if (this.isExcluded(relativePath, true, activeRules)) continue;
+        await this.walk(path.join(dir, dirent.name), relativePath, activeRules, files);
+      } else if (dirent.isFile() && !this.isExcluded(relativePath, false, activeRules)) {
+        files.add(relativePath);
+      }
+    }
+  }
+
+  private isExcluded(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+    if (isDirectory && SKIPPED_DIRECTORIES.has(path.posix.basename(relativePath))) return true;
+    if (this.exclude.some(glob => matchGlob(relativePath, glob))) return true;
+    return isIgnored(rules, relativePath, isDirectory);
+  }
+
+  private watch(): void {
+    try {
+      this.watcher = fs.watch(this.root, { recursive: true }, (_event, filename) => {
+        if (filename) {
+          this.pendingChanges.add(filename.toString().split(path.sep).join('/'));
+          this.scheduleFlush();
+        }
+      });
+      this.watcher.on('error', (error) => {
+        logger.warn(`⚠️ File watcher error for ${this.root}, falling back to periodic rescan:`, error);
+        this.watcher?.close();
+        this.watcher = null;
+        this.startRescan();
+      });
+    } catch (error) {
+      // Linux 上部分 Node 版本不支持递归监听
+      logger.info(`ℹ️ Recursive watch unavailable for ${this.root}, rescanning every ${RESCAN_INTERVAL_MS / 1000}s`);
+      this.startRescan();
+    }
+  }
+
+  private startRescan(): void {
+    if (this.rescanTimer || this.disposed) return;
+    this.rescanTimer = setInterval(() => {
+      this.building = this.rebuild().catch(error => logger.error(`❌ Rescan failed for ${this.root}:`, error));
+    }, RESCAN_INTERVAL_MS);
+  }
+
+  private scheduleFlush(): void {
+    if (this.debounceTimer) return;
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      const changes = Array.from(this.pendingChanges);
+      this.pendingChanges.clear();
+      this.applyChanges(changes).catch(error => logger.error(`❌ Failed to update file index for ${this.root}:`, error));
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  // 按变化的路径增量更新（新增文件、删除文件或目录、新增目录）
+  private async applyChanges(changes: string[]): Promise<void> {
+    for (const relativePath of changes) {
+      if (this.disposed) return;
+      const segments = relativePath.split('/');
+      if (segments.some(segment => SKIPPED_DIRECTORIES.has(segment))) continue;
+
+      const stat = await fs.promises.stat(path.join(this.root, relativePath)).catch(() => null);
+      if (!stat) {
+        this.files.delete(relativePath);
+        const prefix = `${relativePath}/`;
+        for (const file of this.files) {
+          if (file.startsWith(prefix)) this.files.delete(file);
+        }
+        continue;
+      }
+
+      const rules = await this.rulesFor(path.posix.dirname(relativePath));
+      if (this.isExcluded(relativePath, stat.isDirectory(), rules)) continue;
+      if (stat.isDirectory()) {
+        await this.walk(path.join(this.root, relativePath), relativePath, rules, this.files);
+      } else if (stat.isFile()) {
+        this.files.add(relativePath);
+      }
+    }
+  }
+
+  // 收集仓库根目录到 relativeDir 路径上的 .gitignore 规则
+  private async rulesFor(relativeDir: string): Promise<IgnoreRule[]> {
+    const rules = await loadAncestorIgnoreRules(this.root);
+    const segments = relativeDir === '.' ? [] : relativeDir.split('/');
+    for (let i = 0; i <= segments.length; i++) {
+      const base = segments.slice(0, i).join('/');
+      const content = await fs.promises.readFile(path.join(this.root, base, '.gitignore'), 'utf-8').catch(() => null);
+      if (content) rules.push(...parseGitignore(content, base));
+    }
+    return rules;
+  }
+}
+
+class FileIndexManager {
+  private indexes: Map<string, RootIndex> = new Map();
+  private exclude: string[] = [];
+
+  /**
+   * 按工作区目录重建索引（目录和排除规则未变化的索引保留）
+   */
+  configure(roots: string[], exclude: string[] = []): void {
+    const normalizedExclude = exclude.map(glob => glob.trim()).filter(Boolean);
+    const excludeChanged = normalizedExclude.join('\n') !== this.exclude.join('\n');
+    this.exclude = normalizedExclude;
+
+    for (const [root, index] of this.indexes) {
+      if (excludeChanged || !roots.includes(root)) {
+        index.dispose();
+        this.indexes.delete(root);
+      }
+    }
+
+    for (const root of roots) {
+      if (this.indexes.has(root) || !fs.existsSync(root)) continue;
+      const index = new RootIndex(root, this.exclude);
+      index.start();
+      this.indexes.set(root, index);
+    }
+  }
+
+  /**
+   * 判断目录是否被索引覆盖
+   */
+  covers(dir: string): boolean {
+    return Array.from(this.indexes.keys()).some(root => isWithin(root, dir));
+  }
+
+  /**
+   * 查询文件（首次查询会等待索引建立完成）
+   */
+  async search(query: string, options: FileQueryOptions = {}): Promise<string[]> {
+    const indexes = Array.from(this.indexes.values()).filter(index =>
+      !options.within || options.within.some(dir => isWithin(index.root, dir) || isWithin(dir, index.root))
+    );
+    await Promise.all(indexes.map(index => index.ready()));
+    return rankMatches(indexes.flatMap(index => index.query(query, options)), options.limit);
+  }
+
+  /**
+   * 在未被索引覆盖的目录中查询：临时遍历这些目录（同样遵循 .gitignore 和排除规则），不保留索引
+   * 取消信号触发时停止遍历并返回空结果
+   */
+  async scan(query: string, dirs: string[], options: Omit<FileQueryOptions, 'within'> = {}, signal?: AbortSignal): Promise<string[]> {
+    const indexes = dirs
+      .filter(dir => fs.existsSync(dir))
+      .map(dir => new RootIndex(dir, this.exclude));
+    const onAbort = () => indexes.forEach(index => index.dispose());
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      indexes.forEach(index => index.scan());
+      await Promise.all(indexes.map(index => index.ready()));
+      if (signal?.aborted) {
+        return [];
+      }
+      return rankMatches(indexes.flatMap(index => index.query(query, options)), options.limit);
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      indexes.forEach(index => index.dispose());
+    }
+  }
+
+  dispose(): void {
+    this.indexes.forEach(index => index.dispose());
+    this.indexes.clear();
+  }
+}
+
+// 按得分排序，同分按路径排序
+function rankMatches(matches: FileQueryMatch[], limit: number = 10): string[] {
+  return matches
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, limit)
+    .map(match => match.path);
+}
+
+export const fileIndexManager = new FileIndexManager();
@@ -0,0 +1,262 @@
+/**
+ * 本地文件工具
+ *
+ * 职责：
+ * 1. 基于 fs 读取文件（不经过 shell，避免路径注入）
+ * 2. 按行范围读取，输出带行号
+ * 3. 识别文件编码，拦截二进制文件和超大文件
+ * 4. 列出目录，返回结构化条目（类型、大小、修改时间）
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextDecoder } from 'util';
+
+/**
+ * 读取选项
+ */
+export interface ReadFileOptions {
+  offset?: number;  // 起始行号（从 1 开始）
+  limit?: number;   // 最多读取的行数
+}
+
+/**
+ * 目录条目
+ */
+export interface DirectoryEntry {
+  name: string;
+  path: string;     // 相对于列出目录的路径
+  type: 'file' | 'directory' | 'symlink' | 'other';
+  size: number;     // 字节数（目录为 0）
+  mtime: string;    // ISO 格式修改时间
+}
+
+/**
+ * 列目录选项
+ */
+export interface ListDirectoryOptions {
+  recursive?: boolean;
+  maxDepth?: number;    // 递归深度（默认 3）
+  maxEntries?: number;  // 最多返回的条目数（默认 500）
+}
+
+/**
+ * 列目录结果
+ */
+export interface ListDirectoryResult {
+  path: string;
+  entries: DirectoryEntry[];
+  truncated: boolean;
+  skipped: string[];    // 未展开的目录（依赖、构建产物等）
+}
+
+// 允许读取的最大文件大小
+const MAX_READ_BYTES = 10 * 1024 * 1024;
+// 默认读取行数
+const DEFAULT_LINE_LIMIT = 2000;
+// 单次输出的最大字符数
+const MAX_OUTPUT_CHARS = 100 * 1024;
+// 单行最大字符数
+const MAX_LINE_CHARS = 2000;
+// 二进制检测的采样大小
+const BINARY_SAMPLE_BYTES = 8192;
+// 递归列目录、搜索时不展开的目录
+export const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', 'dist', 'build', 'release', '.next', '__pycache__', '.venv', 'target']);
+
+/**
+ * 解析路径（支持 ~ 和相对路径）
+ */
+export function resolvePath(inputPath: string): string {
+  const expanded = inputPath === '~' || inputPath.startsWith('~/')
+    ? path.join(os.homedir(), inputPath.slice(1))
+    : inputPath;
+  return path.resolve(expanded);
+}
+
+/**
+ * 判断内容是否为二进制（包含 NUL 字节或大量控制字符）
+ */
+export function isBinaryBuffer(buffer: Buffer): boolean {
+  const sample = buffer.subarray(0, BINARY_SAMPLE_BYTES);
+  if (sample.length === 0) {
+    return false;
+  }
+
+  // UTF-16 文件包含大量 NUL 字节，但有 BOM，不视为二进制
+  if (detectBom(sample)?.startsWith('utf-16')) {
+    return false;
+  }
+
+  let controlChars = 0;
+  for (const byte of sample) {
+    if (byte === 0) {
+      return true;
+    }
+    if (byte < 7 || (byte > 13 && byte < 32)) {
+      controlChars++;
+    }
+  }
+  return controlChars / sample.length > 0.1;
+}
+
+/**
+ * 解码文本：识别 BOM，其次尝试 UTF-8，失败时回退到 GB18030
+ */
+export function decodeText(buffer: Buffer): { text: string; encoding: string } {
+  const bom = detectBom(buffer);
+  if (bom === 'utf-8') {
+    return { text: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8 (BOM)' };
+  }
+  if (bom === 'utf-16le') {
+    return { text: buffer.subarray(2).toString('utf16le'), encoding: 'utf-16le' };
+  }
+  if (bom === 'utf-16be') {
+    const swapped = Buffer.from(buffer.subarray(2));
+    swapped.swap16();
+    return { text: swapped.toString('utf16le'), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    try {
+      return { text: new TextDecoder('gb18030').decode(buffer), encoding: 'gb18030' };
+    } catch {
+      return { text: buffer.toString('latin1'), encoding: 'latin1' };
+    }
+  }
+}
+
+/**
+ * 读取文件，返回带行号的内容
+ */
+export async function readFile(inputPath: string, options: ReadFileOptions = {}, signal?: AbortSignal): Promise<string> {
+  const filePath = resolvePath(inputPath);
+  const stat = await fs.promises.stat(filePath);
+
+  if (stat.isDirectory()) {
+    return `Error: ${filePath} 是目录，请使用 list_directory 查看`;
+  }
+  if (!stat.isFile()) {
+    return `Error: ${filePath} 不是普通文件`;
+  }
+  if (stat.size > MAX_READ_BYTES) {
+    return `Error: 文件过大（${formatSize(stat.size)}，上限 ${formatSize(MAX_READ_BYTES)}），请使用 search_files 搜索需要的内容`;
+  }
+
+  const buffer = await fs.promises.readFile(filePath, { signal });
+  if (isBinaryBuffer(buffer)) {
+    return `文件：${filePath}\n二进制文件（${formatSize(stat.size)}），不显示内容`;
+  }
+
+  const { text, encoding } = decodeText(buffer);
+  const lines = text.split(/\r?\n/);
+  if (lines.length > 1 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const start = Math.max(1, Math.floor(options.offset || 1));
+  const limit = Math.max(1, Math.floor(options.limit || DEFAULT_LINE_LIMIT));
+  const width = String(Math.min(lines.length, start + limit - 1)).length;
+
+  const output: string[] = [];
+  let outputChars = 0;
+  let end = start - 1;
+
+  for (let i = start - 1; i < lines.length && i < start - 1 + limit; i++) {
+    let line = lines[i];
+    if (line.length > MAX_LINE_CHARS) {
+      line = `${line.slice(0, MAX_LINE_CHARS)}…（本行过长，已截断）`;
+    }
+    const formatted = `${String(i + 1).padStart(width)}\t${line}`;
+    if (outputChars + formatted.length > MAX_OUTPUT_CHARS && output.length > 0) {
+      break;
+    }
+    output.push(formatted);
+    outputChars += formatted.length + 1;
+    end = i + 1;
+  }
+
+  const header = `文件：${filePath}（${lines.length} 行，${formatSize(stat.size)}，${encoding}）`;
+  if (start > lines.length) {
+    return `${header}\n起始行 ${start} 超出文件行数`;
+  }
+
+  const range = start === 1 && end === lines.length ? '' : `\n显示第 ${start}-${end} 行`;
+  const footer = end < lines.length ? `\n\n…还有 ${lines.length - end} 行未显示，使用 offset=${end + 1} 继续读取` : '';
+  return `${header}${range}\n\n${output.join('\n')}${footer}`;
+}
+
+/**
+ * 列出目录
+ */
+export async function listDirectory(
+  inputPath: string,
+  options: ListDirectoryOptions = {},
+  signal?: AbortSignal
+): Promise<ListDirectoryResult> {
+  const root = resolvePath(inputPath);
+  const maxDepth = options.recursive ? Math.max(1, options.maxDepth ?? 3) : 1;
+  const maxEntries = Math.max(1, options.maxEntries ?? 500);
+  const result: ListDirectoryResult = { path: root, entries: [], truncated: false, skipped: [] };
+
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    const dirents = await fs.promises.readdir(dir, { withFileTypes: true });
+    dirents.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name));
+
+    for (const dirent of dirents) {
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
+      }
+      if (result.entries.length >= maxEntries) {
+        result.truncated = true;
+        return;
+      }
+
+      const fullPath = path.join(dir, dirent.name);
+      const relativePath = path.relative(root, fullPath);
+      const stat = await fs.promises.lstat(fullPath).catch(() => null);
+
+      result.entries.push({
+        name: dirent.name,
+        path: relativePath,
+        type: dirent.isDirectory() ? 'directory' : dirent.isFile() ? 'file' : dirent.isSymbolicLink() ? 'symlink' : 'other',
+        size: stat && !dirent.isDirectory() ? stat.size : 0,
+        mtime: stat ? stat.mtime.toISOString() : '',
+      });
+
+      if (dirent.isDirectory() && depth < maxDepth) {
+        if (SKIPPED_DIRECTORIES.has(dirent.name)) {
+          result.skipped.push(relativePath);
+          continue;
+        }
+        await walk(fullPath, depth + 1).catch(error => {
+          if (signal?.aborted) throw error;
+          result.skipped.push(relativePath);
+        });
+        if (result.truncated) {
+          return;
+        }
+      }
+    }
+  };
+
+  await walk(root, 1);
+  return result;
+}
+
+/**
+ * 格式化文件大小
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function detectBom(buffer: Buffer): 'utf-8' | 'utf-16le' | 'utf-16be' | null {
+  if (buffer.length >= 3 && buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+  if (buffer.length >= 2 && buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+  if (buffer.length >= 2 && buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+  return null;
+}
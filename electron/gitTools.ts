@@ -0,0 +1,436 @@
+/**
+ * Git 工具
+ *
+ * 职责：
+ * 1. 通过 execFile 调用 git（不经过 shell，参数不会被解释）
+ * 2. 只读操作（status / diff / log / show / blame）返回结构化结果
+ * 3. 写操作（commit / checkout / push）只负责执行，确认由调用方负责
+ */
+import { execFile } from 'child_process';
+import { logger } from './logger';
+
+/**
+ * 文件状态
+ */
+export interface GitFileStatus {
+  path: string;
+  oldPath?: string;   // 重命名前的路径
+  status: string;     // M 修改 / A 新增 / D 删除 / R 重命名 / C 复制 / U 冲突 / ? 未跟踪
+}
+
+export interface GitStatusResult {
+  kind: 'git_status';
+  root: string;
+  branch: string | null;      // 分离 HEAD 时为 null
+  upstream: string | null;
+  ahead: number;
+  behind: number;
+  staged: GitFileStatus[];
+  unstaged: GitFileStatus[];
+  untracked: string[];
+  conflicted: string[];
+}
+
+/**
+ * diff 中单个文件的统计
+ */
+export interface GitDiffFile {
+  path: string;
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+export interface GitDiffResult {
+  kind: 'git_diff';
+  root: string;
+  range: string;      // 对比范围说明，如 '工作区 vs 暂存区'
+  files: GitDiffFile[];
+  diff: string;
+  truncated: boolean;
+}
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;       // ISO 格式
+  subject: string;
+  body?: string;
+}
+
+export interface GitLogResult {
+  kind: 'git_log';
+  root: string;
+  commits: GitCommit[];
+}
+
+export interface GitShowResult {
+  kind: 'git_show';
+  root: string;
+  commit: GitCommit;
+  files: GitDiffFile[];
+  diff: string;
+  truncated: boolean;
+}
+
+export interface GitBlameLine {
+  line: number;
+  hash: string;
+  author: string;
+  date: string;
+  summary: string;
+  content: string;
+}
+
+export interface GitBlameResult {
+  kind: 'git_blame';
+  root: string;
+  path: string;
+  lines: GitBlameLine[];
+}
+
+export type GitResult = GitStatusResult | GitDiffResult | GitLogResult | GitShowResult | GitBlameResult;
+
+export interface GitDiffOptions {
+  paths?: string[];
+  from?: string;          // 起始提交（不指定时对比工作区）
+  to?: string;            // 结束提交（需同时指定 from）
+  staged?: boolean;       // 对比暂存区与 HEAD
+  contextLines?: number;
+}
+
+export interface GitLogOptions {
+  maxCount?: number;
+  range?: string;         // 如 'main..HEAD'
+  path?: string;
+  author?: string;
+  grep?: string;          // 按提交信息过滤
+}
+
+// diff 文本的最大字符数
+const MAX_DIFF_CHARS = 60 * 1024;
+// 单次日志最多返回的提交数
+const MAX_LOG_COUNT = 200;
+// blame 最多返回的行数
+const MAX_BLAME_LINES = 500;
+// 提交格式：字段以 \x1f 分隔，提交以 \x1e 结尾
+const COMMIT_FORMAT = '%H%x1f%h%x1f%an%x1f%ae%x1f%aI%x1f%s%x1f%b%x1e';
+
+/**
+ * 执行 git 命令，返回标准输出；退出码非 0 时抛出包含 stderr 的错误
+ */
+export function runGit(cwd: string, args: string[], signal?: AbortSignal, timeout: number = 30000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, signal, timeout, maxBuffer: 20 * 1024 * 1024, env: { ...process.env, GIT_TERMINAL_PROMPT: '0', LC_ALL: 'C' } },
+      (error, stdout, stderr) => {
+        if (error) {
+          const message = stderr.toString().trim() || error.message;
+          reject(new Error(`git ${args[0]} 失败：${message}`));
+          return;
+        }
+        resolve(stdout.toString());
+      }
+    );
+  });
+}
+
+/**
+ * 获取仓库根目录
+ */
+export async function getRepoRoot(cwd: string, signal?: AbortSignal): Promise<string> {
+  try {
+    return (await runGit(cwd, ['rev-parse', '--show-toplevel'], signal)).trim();
+  } catch {
+    throw new Error(`${cwd} 不在 git 仓库中`);
+  }
+}
+
+/**
+ * git status
+ */
+export async function gitStatus(root: string, signal?: AbortSignal): Promise<GitStatusResult> {
+  const output = await runGit(root, ['status', '--porcelain=v2', '--branch', '-z'], signal);
+  const result: GitStatusResult = {
+    kind: 'git_status', root, branch: null, upstream: null, ahead: 0, behind: 0,
+    staged: [], unstaged: [], untracked: [], conflicted: [],
+  };
+
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i];
+    if (!record) continue;
+
+    if (record.startsWith('# branch.head ')) {
+      const head = record.slice('# branch.head '.length);
+      result.branch = head === '(detached)' ? null : head;
+    } else if (record.startsWith('# branch.upstream ')) {
+      result.upstream = record.slice('# branch.upstream '.length);
+    } else if (record.startsWith('# branch.ab ')) {
+      const [ahead, behind] = record.slice('# branch.ab '.length).split(' ');
+      result.ahead = Math.abs(Number(ahead));
+      result.behind = Math.abs(Number(behind));
+    } else if (record.startsWith('1 ') || record.startsWith('2 ')) {
+      // 1 XY sub mH mI mW hH hI path；2 XY sub mH mI mW hH hI Xscore path\0origPath
+      const fields = record.split(' ');
+      const xy = fields[1];
+      const filePath = fields.slice(record.startsWith('1 ') ? 8 : 9).join(' ');
+      const oldPath = record.startsWith('2 ') ? records[++i] : undefined;
+      if (xy[0] !== '.') result.staged.push({ path: filePath, oldPath, status: xy[0] });
+      if (xy[1] !== '.') result.unstaged.push({ path: filePath, status: xy[1] });
+    } else if (record.startsWith('u ')) {
+      result.conflicted.push(record.split(' ').slice(10).join(' '));
+    } else if (record.startsWith('? ')) {
+      result.untracked.push(record.slice(2));
+    }
+  }
+  return result;
+}
+
+/**
+ * git diff
+ */
+export async function gitDiff(root: string, options: GitDiffOptions = {}, signal?: AbortSignal): Promise<GitDiffResult> {
+  const revisionArgs: string[] = [];
+  let range = '工作区 vs 暂存区';
+  if (options.from) {
+    revisionArgs.push(options.to ? `${options.from}..${options.to}` : options.from);
+    range = options.to ? `${options.from}..${options.to}` : `工作区 vs ${options.from}`;
+  } else if (options.staged) {
+    revisionArgs.push('--cached');
+    range = '暂存区 vs HEAD';
+  }
+  assertSafeRevisions([options.from, options.to]);
+
+  const pathArgs = options.paths?.length ? ['--', ...options.paths] : [];
+  const context = `-U${Math.min(Math.max(0, options.contextLines ?? 3), 20)}`;
+
+  const [numstat, patch] = await Promise.all([
+    runGit(root, ['diff', '--numstat', '-z', '-M', ...revisionArgs, ...pathArgs], signal),
+    runGit(root, ['diff', '--no-color', '-M', context, ...revisionArgs, ...pathArgs], signal),
+  ]);
+
+  const { diff, truncated } = clipDiff(patch);
+  return { kind: 'git_diff', root, range, files: parseNumstat(numstat), diff, truncated };
+}
+
+/**
+ * git log
+ */
+export async function gitLog(root: string, options: GitLogOptions = {}, signal?: AbortSignal): Promise<GitLogResult> {
+  assertSafeRevisions([options.range]);
+  const maxCount = Math.min(Math.max(1, options.maxCount ?? 20), MAX_LOG_COUNT);
+  const args = ['log', `--max-count=${maxCount}`, `--format=${COMMIT_FORMAT}`];
+  if (options.author) args.push(`--author=${options.author}`);
+  if (options.grep) args.push(`--grep=${options.grep}`, '-i');
+  if (options.range) args.push(options.range);
+  if (options.path) args.push('--', options.path);
+
+  const output = await runGit(root, args, signal);
+  return { kind: 'git_log', root, commits: parseCommits(output) };
+}
+
+/**
+ * git show
+ */
+export async function gitShow(root: string, revision: string, path?: string, signal?: AbortSignal): Promise<GitShowResult> {
+  assertSafeRevisions([revision]);
+  const pathArgs = path ? ['--', path] : [];
+
+  const [header, numstat, patch] = await Promise.all([
+    runGit(root, ['show', '-s', `--format=${COMMIT_FORMAT}`, revision], signal),
+    runGit(root, ['show', '--numstat', '-z', '-M', '--format=', revision, ...pathArgs], signal),
+    runGit(root, ['show', '--no-color', '-M', '--format=', revision, ...pathArgs], signal),
+  ]);
+
+  const [commit] = parseCommits(header);
+  if (!commit) {
+    throw new Error(`找不到提交：${revision}`);
+  }
+  const { diff, truncated } = clipDiff(patch);
+  return { kind: 'git_show', root, commit, files: parseNumstat(numstat), diff, truncated };
+}
+
+/**
+ * git blame
+ */
+export async function gitBlame(
+  root: string,
+  path: string,
+  options: { startLine?: number; endLine?: number; revision?: string } = {},
+  signal?: AbortSignal
+): Promise<GitBlameResult> {
+  assertSafeRevisions([options.revision]);
+  const start = Math.max(1, options.startLine ?? 1);
+  const end = Math.min(options.endLine ?? start + MAX_BLAME_LINES - 1, start + MAX_BLAME_LINES - 1);
+
+  const args = ['blame', '--line-porcelain', `-L${start},${end}`];
+  if (options.revision) args.push(options.revision);
+  args.push('--', path);
+
+  const output = await runGit(root, args, signal);
+  const commits = new Map<string, { author: string; date: string; summary: string }>();
+  const lines: GitBlameLine[] = [];
+  let current: { hash: string; line: number; author?: string; time?: string; summary?: string } | null = null;
+
+  for (const raw of output.split('\n')) {
+    const headerMatch = /^([0-9a-f]{40}) \d+ (\d+)/.exec(raw);
+    if (headerMatch) {
+      current = { hash: headerMatch[1], line: Number(headerMatch[2]) };
+    } else if (current && raw.startsWith('author ')) {
+      current.author = raw.slice(7);
+    } else if (current && raw.startsWith('author-time ')) {
+      current.time = raw.slice(12);
+    } else if (current && raw.startsWith('summary ')) {
+      current.summary = raw.slice(8);
+    } else if (current && raw.startsWith('\t')) {
+      const info = commits.get(current.hash) || {
+        author: current.author || '',
+        date: current.time ? new Date(Number(current.time) * 1000).toISOString() : '',
+        summary: current.summary || '',
+      };
+      commits.set(current.hash, info);
+      lines.push({ line: current.line, hash: current.hash.slice(0, 8), ...info, content: raw.slice(1) });
+      current = null;
+    }
+  }
+
+  return { kind: 'git_blame', root, path, lines };
+}
+
+/**
+ * git commit（paths 为空时提交暂存区，all 为 true 时先暂存所有已跟踪文件的修改）
+ */
+export async function gitCommit(root: string, message: string, options: { paths?: string[]; all?: boolean } = {}, signal?: AbortSignal): Promise<string> {
+  if (!message.trim()) {
+    throw new Error('提交信息不能为空');
+  }
+  if (options.paths?.length) {
+    await runGit(root, ['add', '--', ...options.paths], signal);
+  }
+  const args = ['commit', '-m', message];
+  if (options.all) args.push('-a');
+  const output = await runGit(root, args, signal);
+  logger.info(`📦 git commit in ${root}`);
+  return output.trim();
+}
+
+/**
+ * 检查 git checkout 的目标：新建分支时检查分支名，否则必须是已存在的分支或提交（不能是文件路径）
+ */
+export async function verifyCheckoutRef(root: string, ref: string, create: boolean = false, signal?: AbortSignal): Promise<void> {
+  assertSafeRevisions([ref]);
+  if (!ref?.trim()) {
+    throw new Error('ref 不能为空');
+  }
+  if (create) {
+    await runGit(root, ['check-ref-format', '--branch', ref], signal).catch(() => {
+      throw new Error(`无效的分支名：${ref}`);
+    });
+    return;
+  }
+  await runGit(root, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], signal).catch(() => {
+    throw new Error(`找不到分支或提交：${ref}（git_checkout 只能切换分支或提交，不能用于恢复文件）`);
+  });
+}
+
+/**
+ * git checkout（create 为 true 时新建分支）
+ * 命令末尾加 --，ref 只会被当作分支或提交，不会被当作文件路径而丢弃文件修改
+ */
+export async function gitCheckout(root: string, ref: string, create: boolean = false, signal?: AbortSignal): Promise<string> {
+  await verifyCheckoutRef(root, ref, create, signal);
+  const args = create ? ['checkout', '-b', ref, '--'] : ['checkout', ref, '--'];
+  await runGit(root, args, signal);
+  logger.info(`🔀 git checkout ${ref} in ${root}`);
+  return (await runGit(root, ['status', '--short', '--branch'], signal)).trim();
+}
+
+/**
+ * git push（不支持强制推送和删除远程分支）
+ * remote 只能是远程仓库名，branch 只能是分支名，不接受 +src:dst 形式的 refspec
+ */
+export async function gitPush(root: string, options: { remote?: string; branch?: string; setUpstream?: boolean } = {}, signal?: AbortSignal): Promise<string> {
+  for (const value of [options.remote, options.branch]) {
+    if (value && /[+:\s]/.test(value)) {
+      throw new Error(`无效的参数：${value}（不支持强制推送、删除远程分支或自定义 refspec）`);
+    }
+  }
+  assertSafeRevisions([options.remote, options.branch]);
+  if (options.branch) {
+    await runGit(root, ['check-ref-format', '--branch', options.branch], signal).catch(() => {
+      throw new Error(`无效的分支名：${options.branch}`);
+    });
+  }
+
+  const args = ['push'];
+  if (options.setUpstream) args.push('--set-upstream');
+  if (options.remote) args.push(options.remote);
+  if (options.branch) args.push(options.branch);
+
+  // push 的进度信息输出在 stderr，这里只需要确认成功
+  await runGit(root, args, signal, 120000);
+  logger.info(`⬆️ git push in ${root}`);
+  return `推送成功${options.remote ? `：${options.remote}${options.branch ? ` ${options.branch}` : ''}` : ''}`;
+}
+
+// 提交、分支等参数不能以 - 开头，避免被当作选项解析；
+// 也不接受 rev:path 形式，文件内容只能通过 path 参数（经过路径授权）查看
+function assertSafeRevisions(values: Array<string | undefined>): void {
+  for (const value of values) {
+    if (value && value.trim().startsWith('-')) {
+      throw new Error(`无效的参数：${value}`);
+    }
+    if (value?.includes(':')) {
+      throw new Error(`不支持 rev:path 形式的参数：${value}，请使用 path 参数指定文件`);
+    }
+  }
+}
+
+function parseCommits(output: string): GitCommit[] {
+  return output
+    .split('\x1e')
+    .map(record => record.replace(/^\n/, ''))
+    .filter(Boolean)
+    .map(record => {
+      const [hash, shortHash, author, email, date, subject, body] = record.split('\x1f');
+      return { hash, shortHash, author, email, date, subject, body: body?.trim() || undefined };
+    });
+}
+
+// 解析 --numstat -z 输出（重命名时路径为 "\0旧路径\0新路径"）
+function parseNumstat(output: string): GitDiffFile[] {
+  const files: GitDiffFile[] = [];
+  const records = output.split('\0');
+  for (let i = 0; i < records.length; i++) {
+    const match = /^\n?(-|\d+)\t(-|\d+)\t(.*)$/s.exec(records[i]);
+    if (!match) continue;
+
+    const binary = match[1] === '-';
+    const file: GitDiffFile = {
+      path: match[3],
+      additions: binary ? 0 : Number(match[1]),
+      deletions: binary ? 0 : Number(match[2]),
+      binary,
+    };
+    if (!match[3]) {
+      file.oldPath = records[++i];
+      file.path = records[++i];
+    }
+    files.push(file);
+  }
+  return files;
+}
+
+function clipDiff(patch: string): { diff: string; truncated: boolean } {
+  if (patch.length <= MAX_DIFF_CHARS) {
+    return { diff: patch, truncated: false };
+  }
+  const cut = patch.lastIndexOf('\n', MAX_DIFF_CHARS);
+  return { diff: patch.slice(0, cut > 0 ? cut : MAX_DIFF_CHARS), truncated: true };
+}
@@ -2,7 +2,7 @@
  * IPC 处理器
  * 统一管理所有 IPC 通信处理
  */
-import { ipcMain, desktopCapturer, screen, nativeImage, app } from 'electron';
+import { ipcMain, desktopCapturer, screen, nativeImage, app, shell } from 'electron';
 import path from 'path';
 import fs from 'fs';
 import log from 'electron-log';
@@ -10,17 +10,30 @@ import { WindowManager } from './windowManager';
 import { ClipboardMonitor } from './clipboardMonitor';
 import { ConfigManager } from './configManager';
 import { sessionManager } from './sessionManager';
+import { sessionEventBus } from './sessionEvents';
 import { commandExecutor } from './commandExecutor';
+import { workspaceSandbox } from './workspace';
 import { CommandSecurity } from './commandSecurity';
+import { commandApprovalManager } from './commandApproval';
+import { ocrEngine } from './ocr';
+import type { ApprovalDecision } from './commandApproval';
 import { mcpManager } from './mcpManager';
 import { updateManager } from './updateManager';
-import { reregisterShortcut } from './main';
+import { initializeSessionManager, reregisterShortcut } from './main';
 import type { CommandOptions } from './commandExecutor';
 import type { MCPServerConfig } from './mcpClient';
 
 // 应用日志文件路径
 const appLogPath = path.join(app.getPath('userData'), 'app.log');
 
+// 双击会被系统执行的文件类型，file:open 只在文件夹中显示（Windows 上 .js 等脚本也会直接执行）
+const EXECUTABLE_EXTENSIONS = new Set([
+  '.app', '.command', '.tool', '.terminal', '.workflow', '.scpt', '.pkg', '.dmg',
+  '.exe', '.bat', '.cmd', '.com', '.msi', '.ps1', '.vbs', '.scr', '.lnk', '.url', '.reg',
+  '.sh', '.desktop', '.appimage', '.run', '.jar',
+  ...(process.platform === 'win32' ? ['.js', '.jse', '.wsf', '.hta'] : []),
+]);
+
 export class IpcHandlers {
   constructor(
     private windowManager: WindowManager,
@@ -55,6 +68,16 @@ export class IpcHandlers {
       this.windowManager.closeChatWindow();
     });
 
+    // 点击宠物上的提醒：打开设置提醒的会话
+    ipcMain.on('pet:open-session', (event, sessionId: string | null) => {
+      this.windowManager.openSession(sessionId);
+    });
+
+    // 对话窗口加载后获取要切换到的会话
+    ipcMain.handle('chat:take-pending-session', () => {
+      return this.windowManager.takePendingSession();
+    });
+
     ipcMain.on('move-pet-window', (event, deltaX, deltaY) => {
       this.windowManager.movePetWindow(deltaX, deltaY);
     });
@@ -201,10 +224,8 @@ export class IpcHandlers {
       try {
         this.configManager.saveConfig(config);
         
-        // 重新初始化 SessionManager（获取 API KEY）
-        const apiKey = await this.configManager.getApiKey();
-        await sessionManager.initialize(apiKey, config.knowledge);
-        log.info('✅ SessionManager re-initialized with API KEY');
+        // 重新初始化 SessionManager（获取提供方、API KEY 和模型设置）
+        await initializeSessionManager();
         
         // 更新剪贴板图片过期时间（如果有变化）
         if (config.clipboardImageExpiry !== undefined) {
@@ -290,9 +311,20 @@ export class IpcHandlers {
       }
     });
 
+    ipcMain.handle('session:continue', async (event, sessionId: string) => {
+      try {
+        const continued = await sessionManager.continueSession(sessionId);
+        log.info(`Session ${sessionId} ${continued ? 'continued' : 'cannot be continued'}`);
+        return continued;
+      } catch (error) {
+        log.error('Continue session failed:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('session:cancel', async (event, sessionId: string) => {
       try {
-        const cancelled = sessionManager.cancelSession(sessionId);
+        const cancelled = await sessionManager.cancelSession(sessionId);
         log.info(`Session ${sessionId} ${cancelled ? 'cancelled' : 'not found'}`);
         return cancelled;
       } catch (error) {
@@ -301,6 +333,211 @@ export class IpcHandlers {
       }
     });
 
+    ipcMain.handle('session:set-model', async (event, sessionId: string, model: string) => {
+      try {
+        return sessionManager.setSessionModel(sessionId, model);
+      } catch (error) {
+        log.error('Set session model failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('model:get-available', async () => {
+      try {
+        return sessionManager.getAvailableModels();
+      } catch (error) {
+        log.error('Get available models failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:set-persona', async (event, sessionId: string, personaId: string) => {
+      try {
+        return sessionManager.setSessionPersona(sessionId, personaId);
+      } catch (error) {
+        log.error('Set session persona failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('persona:get-all', async () => {
+      try {
+        return sessionManager.getPersonas();
+      } catch (error) {
+        log.error('Get personas failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:set-cwd', async (event, sessionId: string, cwd: string) => {
+      try {
+        return await sessionManager.setSessionCwd(sessionId, cwd);
+      } catch (error) {
+        log.error('Set session cwd failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('workspace:get', async (event, sessionId?: string) => {
+      try {
+        return sessionManager.getWorkspace(sessionId);
+      } catch (error) {
+        log.error('Get workspace failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:search', async (event, query: string) => {
+      try {
+        return sessionManager.searchSessions(query);
+      } catch (error) {
+        log.error('Search sessions failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('ocr:status', async (event, refresh?: boolean) => {
+      try {
+        return await ocrEngine.getStatus(refresh);
+      } catch (error) {
+        log.error('Get OCR status failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('approval:resolve', async (event, approvalId: string, decision: ApprovalDecision, pattern?: string) => {
+      try {
+        return sessionManager.resolveApproval(approvalId, decision, pattern);
+      } catch (error) {
+        log.error('Resolve approval failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('approval:get-rules', async () => {
+      try {
+        return commandApprovalManager.getRules();
+      } catch (error) {
+        log.error('Get approval rules failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('approval:remove-rule', async (event, pattern: string) => {
+      try {
+        return commandApprovalManager.removeRule(pattern);
+      } catch (error) {
+        log.error('Remove approval rule failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('file-edit:resolve', async (event, editId: string, approved: boolean) => {
+      try {
+        return sessionManager.resolveFileEdit(editId, approved);
+      } catch (error) {
+        log.error('Resolve file edit failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('file-edit:revert', async (event, sessionId: string, messageId: string) => {
+      try {
+        return await sessionManager.revertFileEdit(sessionId, messageId);
+      } catch (error) {
+        log.error('Revert file edit failed:', error);
+        throw error;
+      }
+    });
+
+    // 打开搜索结果中的文件：工作区外的路径、目录和可执行文件只在文件夹中显示，不直接打开
+    ipcMain.handle('file:open', async (event, filePath: string) => {
+      try {
+        const checked = await workspaceSandbox.check(path.resolve(filePath));
+        const stat = await fs.promises.stat(checked.realPath);
+        const executable = EXECUTABLE_EXTENSIONS.has(path.extname(checked.realPath).toLowerCase())
+          || (process.platform !== 'win32' && (stat.mode & 0o111) !== 0);
+        if (!checked.root || !stat.isFile() || executable) {
+          log.info(`📂 Showing file in folder instead of opening: ${checked.realPath}`);
+          shell.showItemInFolder(checked.realPath);
+          return true;
+        }
+
+        const error = await shell.openPath(checked.realPath);
+        if (error) {
+          throw new Error(error);
+        }
+        return true;
+      } catch (error) {
+        log.error('Open file failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:subscribe', async (event, sessionId: string) => {
+      try {
+        return sessionEventBus.subscribe(event.sender, sessionId);
+      } catch (error) {
+        log.error('Subscribe session failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:unsubscribe', async (event, sessionId: string) => {
+      try {
+        sessionEventBus.unsubscribe(event.sender, sessionId);
+        return true;
+      } catch (error) {
+        log.error('Unsubscribe session failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:resync', async (event, sessionId: string, fromSeq: number) => {
+      try {
+        return sessionManager.resyncSession(sessionId, fromSeq);
+      } catch (error) {
+        log.error('Resync session failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:get-active-path', async (event, sessionId: string) => {
+      try {
+        return sessionManager.getActivePath(sessionId);
+      } catch (error) {
+        log.error('Get active path failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:edit-message', async (event, sessionId: string, messageId: string, content: string) => {
+      try {
+        return await sessionManager.editMessage(sessionId, messageId, content);
+      } catch (error) {
+        log.error('Edit message failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:regenerate', async (event, sessionId: string, messageId: string) => {
+      try {
+        return await sessionManager.regenerateMessage(sessionId, messageId);
+      } catch (error) {
+        log.error('Regenerate message failed:', error);
+        throw error;
+      }
+    });
+
+    ipcMain.handle('session:switch-branch', async (event, sessionId: string, messageId: string, offset: number) => {
+      try {
+        return sessionManager.switchBranch(sessionId, messageId, offset);
+      } catch (error) {
+        log.error('Switch branch failed:', error);
+        throw error;
+      }
+    });
+
     ipcMain.handle('session:get', async (event, sessionId: string) => {
       try {
         return sessionManager.getSession(sessionId);
@@ -425,7 +662,7 @@ export class IpcHandlers {
     ipcMain.handle('command:find-file', async (event, query: string, fileType?: string, basePath?: string, maxResults?: number) => {
       try {
         log.info(`🔍 Finding files: query="${query}", type="${fileType || 'all'}"`);
-        const files = await commandExecutor.findFile(query, fileType, basePath, maxResults);
+        const files = await commandExecutor.findFile(query, fileType, basePath ? [basePath] : workspaceSandbox.getRoots(), maxResults);
         log.info(`✅ Found ${files.length} files`);
         return files;
       } catch (error) {
@@ -438,7 +675,7 @@ export class IpcHandlers {
     ipcMain.handle('command:smart-read', async (event, query: string, fileType?: string, basePath?: string) => {
       try {
         log.info(`📖 Smart reading: query="${query}"`);
-        const result = await commandExecutor.smartRead(query, fileType, basePath);
+        const result = await commandExecutor.smartRead(query, fileType, basePath ? [basePath] : workspaceSandbox.getRoots());
         log.info(`✅ Smart read completed: type=${result.type}`);
         return result;
       } catch (error) {
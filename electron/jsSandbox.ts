@@ -0,0 +1,270 @@
+/**
+ * JavaScript 沙箱
+ *
+ * 职责：
+ * 1. 在独立的 Worker 线程中用全新的 VM 上下文执行代码：没有 require、process、文件系统和网络
+ * 2. 限制 CPU 时间（同步代码和 Promise 回调）和内存，超时、超限或取消时终止 Worker
+ * 3. 捕获 console 输出和最后一个表达式的值，格式化为文本返回
+ */
+import { Worker } from 'worker_threads';
+import { logger } from './logger';
+
+/**
+ * console 输出
+ */
+export interface RunJsLog {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+/**
+ * 执行结果
+ */
+export interface RunJsResult {
+  kind: 'run_js';
+  ok: boolean;
+  value?: string;            // 最后一个表达式（或 Promise 结果）的格式化文本
+  error?: string;            // 抛出的错误、超时或超出内存上限
+  logs: RunJsLog[];
+  truncatedLogs?: boolean;   // 输出过多，后续的 console 输出被丢弃
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+export interface RunJsOptions {
+  timeoutMs?: number;
+}
+
+export const DEFAULT_RUN_JS_TIMEOUT_MS = 3000;
+const MAX_RUN_JS_TIMEOUT_MS = 10000;
+const MEMORY_LIMIT_MB = 64;
+// Worker 启动和结果传递的额外时间，超过后强制终止
+const WORKER_GRACE_MS = 2000;
+
+const SANDBOX_LIMITS = {
+  maxLogs: 200,
+  maxLogChars: 20000,
+  maxValueChars: 20000,
+};
+
+// 在沙箱上下文内执行的初始化代码：定义 console、值格式化和执行入口
+// 沙箱内外只传递字符串，不把任何主线程对象暴露给沙箱
+const SANDBOX_PRELUDE = String.raw`(function (limits) {
+  var stringify = JSON.stringify;
+  var keysOf = Object.keys;
+  var isArray = Array.isArray;
+  var indirectEval = eval;
+  var logs = [];
+  var logChars = 0;
+  var truncatedLogs = false;
+  var state = '';
+  var finished = false;
+
+  function format(value, depth, seen) {
+    if (typeof value === 'string') return depth === 0 ? value : stringify(value);
+    if (value === undefined) return 'undefined';
+    if (value === null || typeof value === 'number' || typeof value === 'boolean') return String(value);
+    if (typeof value === 'bigint') return String(value) + 'n';
+    if (typeof value === 'symbol') return value.toString();
+    if (typeof value === 'function') return '[Function ' + (value.name || 'anonymous') + ']';
+    // 只显示错误名称和信息，堆栈中都是沙箱自身的调用
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    if (value instanceof Date) return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    if (value instanceof RegExp) return value.toString();
+    if (value instanceof Promise) return '[Promise]';
+    if (seen.indexOf(value) !== -1) return '[Circular]';
+    if (depth >= 6) return isArray(value) ? '[Array]' : '[Object]';
+    seen = seen.concat([value]);
+
+    var items = [];
+    var open = '{';
+    var close = '}';
+    if (isArray(value)) {
+      open = '[';
+      close = ']';
+      for (var i = 0; i < value.length && i < 100; i++) items.push(format(value[i], depth + 1, seen));
+      if (value.length > 100) items.push('... ' + (value.length - 100) + ' more');
+    } else if (value instanceof Map || value instanceof Set) {
+      open = (value instanceof Map ? 'Map(' : 'Set(') + value.size + ') {';
+      value.forEach(function (entry, key) {
+        if (items.length < 100) {
+          items.push(value instanceof Map ? format(key, depth + 1, seen) + ' => ' + format(entry, depth + 1, seen) : format(entry, depth + 1, seen));
+        }
+      });
+    } else {
+      var keys = keysOf(value);
+      for (var j = 0; j < keys.length && j < 100; j++) {
+        var key = /^[A-Za-z_$][\w$]*$/.test(keys[j]) ? keys[j] : stringify(keys[j]);
+        items.push(key + ': ' + format(value[keys[j]], depth + 1, seen));
+      }
+      if (keys.length > 100) items.push('... ' + (keys.length - 100) + ' more');
+    }
+    if (items.length === 0) return open + close;
+    var inline = items.join(', ');
+    if (inline.length <= 72 && inline.indexOf('\n') === -1) return open + ' ' + inline + ' ' + close;
+    var indent = '  '.repeat(depth + 1);
+    return open + '\n' + indent + items.join(',\n' + indent) + '\n' + '  '.repeat(depth) + close;
+  }
+
+  function record(level) {
+    return function () {
+      var parts = [];
+      for (var i = 0; i < arguments.length; i++) parts.push(format(arguments[i], 0, []));
+      var text = parts.join(' ');
+      if (logs.length >= limits.maxLogs || logChars + text.length > limits.maxLogChars) {
+        truncatedLogs = true;
+        return;
+      }
+      logChars += text.length;
+      logs.push({ level: level, text: text });
+    };
+  }
+
+  function finish(ok, value) {
+    if (finished) return;
+    finished = true;
+    var text;
+    try {
+      text = format(value, 0, []);
+    } catch (e) {
+      text = '[无法显示的值]';
+    }
+    if (typeof text !== 'string') text = '';
+    if (text.length > limits.maxValueChars) text = text.slice(0, limits.maxValueChars) + '…（已截断）';
+    var result = stringify({ ok: ok, value: text, logs: logs, truncatedLogs: truncatedLogs });
+    state = typeof result === 'string' ? result : '';
+  }
+
+  globalThis.console = {
+    log: record('log'),
+    info: record('info'),
+    warn: record('warn'),
+    error: record('error'),
+    debug: record('debug'),
+  };
+
+  Object.defineProperty(globalThis, '__lingxiRun', {
+    value: function (code) {
+      var result;
+      try {
+        result = indirectEval(code);
+      } catch (e) {
+        finish(false, e);
+        return;
+      }
+      if (result !== null && (typeof result === 'object' || typeof result === 'function') && typeof result.then === 'function') {
+        result.then(function (v) { finish(true, v); }, function (e) { finish(false, e); });
+      } else {
+        finish(true, result);
+      }
+    },
+  });
+  Object.defineProperty(globalThis, '__lingxiState', {
+    get: function () { return state; },
+  });
+})`;
+
+// Worker 线程：创建上下文，执行代码后把结果字符串发回主线程
+const WORKER_SOURCE = String.raw`
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const context = vm.createContext(Object.create(null), {
+  name: 'run_js',
+  codeGeneration: { strings: true, wasm: false },
+  microtaskMode: 'afterEvaluate',
+});
+
+let code = workerData.code;
+try {
+  new vm.Script(code);
+} catch (error) {
+  // 顶层 await：包装为 async 函数执行，结果需要用 return 返回
+  if (error instanceof SyntaxError && /\bawait\b/.test(code)) {
+    code = '(async () => {\n' + code + '\n})()';
+  }
+}
+
+try {
+  vm.runInContext(workerData.prelude + '(' + JSON.stringify(workerData.limits) + ')', context);
+  vm.runInContext('__lingxiRun(' + JSON.stringify(code) + ')', context, { timeout: workerData.timeoutMs });
+  const state = vm.runInContext('__lingxiState', context, { timeout: workerData.timeoutMs });
+  parentPort.postMessage({ state: typeof state === 'string' ? state : '' });
+} catch (error) {
+  parentPort.postMessage({ failure: error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT' ? 'timeout' : String(error && error.message) });
+}
+`;
+
+/**
+ * 在沙箱中执行代码
+ */
+export function runJs(code: string, options: RunJsOptions = {}, signal?: AbortSignal): Promise<RunJsResult> {
+  const timeoutMs = Math.min(Math.max(100, Math.floor(options.timeoutMs || DEFAULT_RUN_JS_TIMEOUT_MS)), MAX_RUN_JS_TIMEOUT_MS);
+  const startTime = Date.now();
+
+  return new Promise((resolve) => {
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, timeoutMs, prelude: SANDBOX_PRELUDE, limits: SANDBOX_LIMITS },
+      resourceLimits: {
+        maxOldGenerationSizeMb: MEMORY_LIMIT_MB,
+        maxYoungGenerationSizeMb: 16,
+        codeRangeSizeMb: 16,
+        stackSizeMb: 4,
+      },
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    let settled = false;
+    const finish = (result: Partial<RunJsResult>) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(guard);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate().catch(() => {});
+      const durationMs = Date.now() - startTime;
+      logger.info(`🧮 run_js finished in ${durationMs}ms (${result.ok ? 'ok' : result.error?.split('\n')[0]})`);
+      resolve({ kind: 'run_js', ok: false, logs: [], ...result, durationMs });
+    };
+
+    const timeoutError = { error: `执行超时（超过 ${timeoutMs}ms），已终止`, timedOut: true };
+    const guard = setTimeout(() => finish(timeoutError), timeoutMs + WORKER_GRACE_MS);
+    const onAbort = () => finish({ error: '已取消' });
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.on('message', (message: { state?: string; failure?: string }) => {
+      if (message.failure === 'timeout') {
+        finish(timeoutError);
+        return;
+      }
+      if (message.failure !== undefined) {
+        finish({ error: message.failure });
+        return;
+      }
+      if (!message.state) {
+        finish({ error: 'Promise 没有完成：沙箱中没有定时器和 I/O，无法等待外部事件' });
+        return;
+      }
+      try {
+        const state = JSON.parse(message.state);
+        finish(state.ok
+          ? { ok: true, value: state.value, logs: state.logs, truncatedLogs: state.truncatedLogs }
+          : { ok: false, error: state.value, logs: state.logs, truncatedLogs: state.truncatedLogs });
+      } catch {
+        finish({ error: '无法解析执行结果' });
+      }
+    });
+    worker.on('error', (error: any) => {
+      finish({ error: error.code === 'ERR_WORKER_OUT_OF_MEMORY' ? `超出内存上限（${MEMORY_LIMIT_MB} MB），已终止` : error.message });
+    });
+    worker.on('exit', (exitCode) => {
+      finish({ error: `沙箱异常退出（${exitCode}）` });
+    });
+  });
+}
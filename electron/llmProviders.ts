@@ -0,0 +1,496 @@
+/**
+ * LLM 提供方适配层
+ *
+ * 职责：
+ * 1. 定义统一的流式对话接口（与具体 SDK 解耦）
+ * 2. OpenAI 兼容接口适配（idealab、自建网关、Ollama、llama.cpp 等）
+ * 3. Anthropic Messages 接口适配
+ * 4. 鉴权方式与能力标记（视觉、工具调用）
+ */
+import OpenAI from 'openai';
+import { logger } from './logger';
+import { parseRetryAfter } from './modelFallback';
+
+/**
+ * 提供方接口类型
+ */
+export type ProviderType = 'openai' | 'anthropic';
+
+/**
+ * 鉴权方式
+ * - bearer: Authorization: Bearer <key>
+ * - x-api-key: x-api-key: <key>
+ * - none: 不发送鉴权信息（本地模型服务）
+ */
+export type ProviderAuthScheme = 'bearer' | 'x-api-key' | 'none';
+
+/**
+ * 提供方能力标记
+ */
+export interface ProviderCapabilities {
+  vision: boolean;   // 是否支持图片输入
+  tools: boolean;    // 是否支持工具调用（Function Calling）
+}
+
+/**
+ * 提供方配置（保存在 electron-store 中）
+ */
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  type: ProviderType;
+  baseURL: string;
+  authScheme: ProviderAuthScheme;
+  apiKey?: string;                    // 为空时使用全局 API Key
+  models: string[];                   // 可用模型，按优先级从高到低排列
+  capabilities: ProviderCapabilities;
+  headers?: Record<string, string>;   // 额外请求头
+}
+
+/**
+ * Token 用量
+ */
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * 工具调用增量（流式返回时按 index 累积）
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+/**
+ * 统一的流式响应片段
+ */
+export interface ChatStreamChunk {
+  content?: string;
+  toolCalls?: ToolCallDelta[];
+  usage?: TokenUsage;
+  finishReason?: string | null;
+}
+
+/**
+ * 统一的对话请求（messages 使用 OpenAI 消息格式）
+ */
+export interface ChatRequest {
+  model: string;
+  messages: any[];
+  tools?: any[];
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * 提供方返回的结构化错误
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+    readonly code?: string,
+    readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * 从响应体中的 error 对象构造 ProviderError
+ * 部分网关会以 HTTP 200 + 流内错误对象的形式返回限流等错误
+ */
+function providerErrorFromPayload(payload: any): ProviderError {
+  const rawStatus = payload?.status ?? payload?.http_status ?? payload?.HTTP_STATUS ?? payload?.code;
+  const status = rawStatus != null && Number.isInteger(Number(rawStatus)) ? Number(rawStatus) : undefined;
+  const code = payload?.type || payload?.code;
+  const message = payload?.message || JSON.stringify(payload).substring(0, 300);
+  return new ProviderError(`API returned error: ${message}`, status, code !== undefined ? String(code) : undefined);
+}
+
+/**
+ * 提供方统一接口
+ */
+export interface LLMProvider {
+  readonly config: ProviderConfig;
+  streamChat(request: ChatRequest): Promise<AsyncIterable<ChatStreamChunk>>;
+}
+
+/**
+ * 默认提供方：idealab OpenAI 兼容网关
+ */
+export const DEFAULT_PROVIDER: ProviderConfig = {
+  id: 'idealab',
+  name: 'Idealab（默认）',
+  type: 'openai',
+  baseURL: 'https://idealab.alibaba-inc.com/api/openai/v1',
+  authScheme: 'bearer',
+  models: [
+    'qwen-vl-max-latest',
+    'qwen-vl-max',
+    'Qwen-VL',
+    'qwen3-vl-plus',
+    'qwen-vl-max-inc',
+    'qwen-vl-plus-inc',
+  ],
+  capabilities: {
+    vision: true,
+    tools: true,
+  },
+};
+
+/**
+ * 移除消息中的图片（用于不支持视觉的提供方）
+ */
+function stripImages(messages: any[]): any[] {
+  return messages.map(msg => {
+    if (!Array.isArray(msg.content)) {
+      return msg;
+    }
+
+    const textParts = msg.content
+      .filter((part: any) => part.type === 'text')
+      .map((part: any) => part.text);
+    const imageCount = msg.content.filter((part: any) => part.type === 'image_url').length;
+    if (imageCount > 0) {
+      textParts.push(`[已省略 ${imageCount} 张图片：当前模型不支持图片输入]`);
+    }
+
+    return {
+      ...msg,
+      content: textParts.join('\n'),
+    };
+  });
+}
+
+/**
+ * 根据能力标记调整请求
+ */
+function applyCapabilities(config: ProviderConfig, request: ChatRequest): ChatRequest {
+  return {
+    ...request,
+    messages: config.capabilities.vision ? request.messages : stripImages(request.messages),
+    tools: config.capabilities.tools && request.tools && request.tools.length > 0 ? request.tools : undefined,
+  };
+}
+
+/**
+ * OpenAI 兼容接口提供方
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(readonly config: ProviderConfig, apiKey: string) {
+    const headers: Record<string, string> = { ...config.headers };
+    if (config.authScheme === 'x-api-key' && apiKey) {
+      headers['x-api-key'] = apiKey;
+    }
+
+    this.client = new OpenAI({
+      // SDK 要求 apiKey 非空，无鉴权时使用占位值
+      apiKey: config.authScheme === 'bearer' && apiKey ? apiKey : 'no-key',
+      baseURL: config.baseURL,
+      defaultHeaders: headers,
+      // 重试和降级统一由 modelFallback 决定，SDK 不自动重试
+      maxRetries: 0,
+    });
+  }
+
+  async streamChat(request: ChatRequest): Promise<AsyncIterable<ChatStreamChunk>> {
+    const { model, messages, tools, maxTokens, signal } = applyCapabilities(this.config, request);
+
+    let stream;
+    try {
+      stream = await this.client.chat.completions.create(
+        {
+          model,
+          messages,
+          stream: true,
+          ...(tools && { tools, tool_choice: 'auto' as const }),
+          ...(maxTokens && { max_tokens: maxTokens }),
+        },
+        { signal }
+      );
+    } catch (error) {
+      throw this.toProviderError(error);
+    }
+
+    return (async function* () {
+      for await (const chunk of stream) {
+        // 流内错误对象（结构化字段，而不是文本内容）
+        if ((chunk as any).error) {
+          throw providerErrorFromPayload((chunk as any).error);
+        }
+        // 网关错误体（如 { HTTP_STATUS: 429, code: 'Throttling' }）没有 choices 字段
+        if ((chunk as any).HTTP_STATUS && !chunk.choices) {
+          throw providerErrorFromPayload(chunk);
+        }
+
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta;
+
+        yield {
+          content: delta?.content || undefined,
+          toolCalls: delta?.tool_calls?.map(call => ({
+            index: call.index,
+            id: call.id,
+            name: call.function?.name,
+            arguments: call.function?.arguments,
+          })),
+          usage: chunk.usage
+            ? {
+                prompt_tokens: chunk.usage.prompt_tokens || 0,
+                completion_tokens: chunk.usage.completion_tokens || 0,
+                total_tokens: chunk.usage.total_tokens || 0,
+              }
+            : undefined,
+          finishReason: choice?.finish_reason,
+        };
+      }
+    })();
+  }
+
+  /**
+   * SDK 错误 → ProviderError（用户取消的请求原样抛出）
+   */
+  private toProviderError(error: any): any {
+    if (error instanceof OpenAI.APIUserAbortError || !(error instanceof OpenAI.APIError)) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new ProviderError(error.message, undefined, 'connection_error');
+    }
+
+    const headers = error.headers as Record<string, string> | undefined;
+    const retryAfterMs = headers?.['retry-after-ms']
+      ? Number(headers['retry-after-ms'])
+      : parseRetryAfter(headers?.['retry-after']);
+    const code = error.code || (error.error as any)?.code;
+    return new ProviderError(error.message, error.status, code ? String(code) : undefined, retryAfterMs);
+  }
+}
+
+/**
+ * Anthropic Messages 接口提供方
+ */
+class AnthropicProvider implements LLMProvider {
+  private static readonly API_VERSION = '2023-06-01';
+  private static readonly DEFAULT_MAX_TOKENS = 8192;
+
+  constructor(readonly config: ProviderConfig, private apiKey: string) {}
+
+  async streamChat(request: ChatRequest): Promise<AsyncIterable<ChatStreamChunk>> {
+    const { model, messages, tools, maxTokens, signal } = applyCapabilities(this.config, request);
+    const { system, messages: anthropicMessages } = this.convertMessages(messages);
+
+    const headers: Record<string, string> = {
+      'content-type': 'application/json',
+      'anthropic-version': AnthropicProvider.API_VERSION,
+      ...this.config.headers,
+    };
+    if (this.apiKey && this.config.authScheme === 'x-api-key') {
+      headers['x-api-key'] = this.apiKey;
+    } else if (this.apiKey && this.config.authScheme === 'bearer') {
+      headers['authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.config.baseURL.replace(/\/$/, '')}/messages`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model,
+        system: system || undefined,
+        messages: anthropicMessages,
+        max_tokens: maxTokens || AnthropicProvider.DEFAULT_MAX_TOKENS,
+        stream: true,
+        ...(tools && {
+          tools: tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters,
+          })),
+        }),
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const text = await response.text().catch(() => '');
+      let errorType: string | undefined;
+      try {
+        errorType = JSON.parse(text).error?.type;
+      } catch {
+        errorType = undefined;
+      }
+      throw new ProviderError(
+        `${response.status} ${text || response.statusText}`,
+        response.status,
+        errorType,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return this.parseStream(response.body);
+  }
+
+  /**
+   * OpenAI 消息格式 → Anthropic 消息格式
+   */
+  private convertMessages(messages: any[]): { system: string; messages: any[] } {
+    const systemParts: string[] = [];
+    const result: any[] = [];
+
+    const push = (role: 'user' | 'assistant', blocks: any[]) => {
+      if (blocks.length === 0) return;
+      const last = result[result.length - 1];
+      // Anthropic 要求 user/assistant 交替出现，相邻同角色消息合并
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        result.push({ role, content: blocks });
+      }
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        systemParts.push(typeof msg.content === 'string' ? msg.content : '');
+      } else if (msg.role === 'tool') {
+        push('user', [{
+          type: 'tool_result',
+          tool_use_id: msg.tool_call_id,
+          content: typeof msg.content === 'string' ? msg.content : JSON.stringify(msg.content),
+        }]);
+      } else if (msg.role === 'assistant') {
+        const blocks: any[] = [];
+        if (msg.content) {
+          blocks.push({ type: 'text', text: msg.content });
+        }
+        for (const call of msg.tool_calls || []) {
+          let input: any = {};
+          try {
+            input = JSON.parse(call.function.arguments || '{}');
+          } catch {
+            input = {};
+          }
+          blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input });
+        }
+        push('assistant', blocks);
+      } else {
+        push('user', this.convertUserContent(msg.content));
+      }
+    }
+
+    return { system: systemParts.join('\n\n'), messages: result };
+  }
+
+  private convertUserContent(content: any): any[] {
+    if (!Array.isArray(content)) {
+      return content ? [{ type: 'text', text: String(content) }] : [];
+    }
+
+    return content.map((part: any) => {
+      if (part.type === 'image_url') {
+        const match = /^data:([^;]+);base64,(.*)$/.exec(part.image_url?.url || '');
+        if (match) {
+          return { type: 'image', source: { type: 'base64', media_type: match[1], data: match[2] } };
+        }
+        return { type: 'image', source: { type: 'url', url: part.image_url?.url } };
+      }
+      return { type: 'text', text: part.text || '' };
+    });
+  }
+
+  /**
+   * 解析 Anthropic SSE 流并转换为统一片段
+   */
+  private async *parseStream(body: ReadableStream<Uint8Array>): AsyncIterable<ChatStreamChunk> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let promptTokens = 0;
+    // content block index → 工具调用 index
+    const toolIndexByBlock = new Map<number, number>();
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const dataLine = rawEvent.split('\n').find(line => line.startsWith('data:'));
+        if (!dataLine) continue;
+
+        let event: any;
+        try {
+          event = JSON.parse(dataLine.slice(5).trim());
+        } catch {
+          continue;
+        }
+
+        switch (event.type) {
+          case 'message_start':
+            promptTokens = event.message?.usage?.input_tokens || 0;
+            break;
+          case 'content_block_start':
+            if (event.content_block?.type === 'tool_use') {
+              const toolIndex = toolIndexByBlock.size;
+              toolIndexByBlock.set(event.index, toolIndex);
+              yield {
+                toolCalls: [{ index: toolIndex, id: event.content_block.id, name: event.content_block.name, arguments: '' }],
+              };
+            }
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta') {
+              yield { content: event.delta.text };
+            } else if (event.delta?.type === 'input_json_delta') {
+              const toolIndex = toolIndexByBlock.get(event.index);
+              if (toolIndex !== undefined) {
+                yield { toolCalls: [{ index: toolIndex, arguments: event.delta.partial_json }] };
+              }
+            }
+            break;
+          case 'message_delta': {
+            const completionTokens = event.usage?.output_tokens || 0;
+            yield {
+              finishReason: event.delta?.stop_reason,
+              usage: {
+                prompt_tokens: promptTokens,
+                completion_tokens: completionTokens,
+                total_tokens: promptTokens + completionTokens,
+              },
+            };
+            break;
+          }
+          case 'error':
+            throw providerErrorFromPayload(event.error);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * 工厂函数：根据配置创建提供方
+ */
+export function createProvider(config: ProviderConfig, apiKey: string): LLMProvider {
+  logger.info(`🔌 Creating LLM provider: ${config.name} (${config.type}, ${config.baseURL})`);
+
+  if (config.type === 'openai') {
+    return new OpenAICompatibleProvider(config, apiKey);
+  } else if (config.type === 'anthropic') {
+    return new AnthropicProvider(config, apiKey);
+  }
+
+  throw new Error(`Unknown provider type: ${config.type}`);
+}
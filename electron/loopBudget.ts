@@ -0,0 +1,82 @@
+/**
+ * 工具调用循环预算
+ *
+ * 职责：
+ * 1. 定义每个会话工具调用循环的预算（工具轮数、Token 总量、耗时）
+ * 2. 检查当前用量是否超出预算
+ */
+
+/**
+ * 循环预算
+ */
+export interface LoopBudget {
+  maxToolRounds: number;   // 最大工具调用轮数
+  maxTokens: number;       // 最大 Token 总量
+  maxDurationMs: number;   // 最长耗时（毫秒）
+}
+
+/**
+ * 循环用量
+ */
+export interface LoopUsage {
+  toolRounds: number;
+  tokens: number;
+  startedAt: number;
+}
+
+/**
+ * 预算耗尽信息
+ */
+export interface BudgetExhaustion {
+  reason: 'tool_rounds' | 'tokens' | 'duration';
+  message: string;
+  usage: LoopUsage;
+}
+
+/**
+ * 默认预算
+ */
+export const DEFAULT_LOOP_BUDGET: LoopBudget = {
+  maxToolRounds: 10,
+  maxTokens: 200000,
+  maxDurationMs: 5 * 60 * 1000,
+};
+
+/**
+ * 创建新的用量记录
+ */
+export function createLoopUsage(): LoopUsage {
+  return { toolRounds: 0, tokens: 0, startedAt: Date.now() };
+}
+
+/**
+ * 检查用量是否超出预算，未超出时返回 null
+ */
+export function checkLoopBudget(budget: LoopBudget, usage: LoopUsage): BudgetExhaustion | null {
+  if (usage.toolRounds >= budget.maxToolRounds) {
+    return {
+      reason: 'tool_rounds',
+      message: `已连续执行 ${usage.toolRounds} 轮工具调用，达到上限 ${budget.maxToolRounds} 轮`,
+      usage: { ...usage },
+    };
+  }
+
+  if (usage.tokens >= budget.maxTokens) {
+    return {
+      reason: 'tokens',
+      message: `本轮任务已消耗 ${usage.tokens} tokens，达到上限 ${budget.maxTokens}`,
+      usage: { ...usage },
+    };
+  }
+
+  const elapsed = Date.now() - usage.startedAt;
+  if (elapsed >= budget.maxDurationMs) {
+    return {
+      reason: 'duration',
+      message: `本轮任务已运行 ${Math.round(elapsed / 1000)} 秒，达到上限 ${Math.round(budget.maxDurationMs / 1000)} 秒`,
+      usage: { ...usage },
+    };
+  }
+
+  return null;
+}
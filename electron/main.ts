@@ -2,7 +2,7 @@
  * 主进程入口
  * 应用启动和生命周期管理
  */
-import { app, BrowserWindow, globalShortcut } from 'electron';
+import { app, BrowserWindow, globalShortcut, Notification } from 'electron';
 import log from 'electron-log';
 import { WindowManager } from './windowManager';
 import { ClipboardMonitor } from './clipboardMonitor';
@@ -12,6 +12,14 @@ import { AutoSaveManager } from './autoSaveManager';
 import { sessionManager } from './sessionManager';
 import { loadSessions } from './sessionStorage';
 import { mcpManager } from './mcpManager';
+import { fileIndexManager } from './fileIndex';
+import { workspaceSandbox } from './workspace';
+import { webFetcher } from './webFetch';
+import { ocrEngine } from './ocr';
+import { toolOutputStore } from './toolOutputs';
+import { scriptToolManager } from './scriptTools';
+import { clipboardTools } from './clipboardTools';
+import { formatDueTime, Reminder, reminderScheduler } from './reminders';
 
 // 配置日志
 log.transports.file.level = 'info';
@@ -52,6 +60,56 @@ export function reregisterShortcut(newShortcut: string): boolean {
   }
 }
 
+// 会话管理器初始化函数（按当前配置获取提供方、API KEY、默认模型和降级规则）
+export async function initializeSessionManager(): Promise<void> {
+  const config = configManager.getConfig();
+  const provider = configManager.getActiveProvider();
+  const apiKey = await configManager.getProviderApiKey(provider);
+  await sessionManager.initialize(apiKey, {
+    knowledge: config.knowledge,
+    provider,
+    defaultModel: config.model,
+    fallbackRules: config.fallbackRules,
+    toolConcurrency: config.toolConcurrency,
+    loopBudget: config.loopBudget,
+    personas: config.personas,
+    defaultPersonaId: config.defaultPersonaId,
+    workspace: config.workspace,
+  });
+  fileIndexManager.configure(workspaceSandbox.getRoots(), config.workspace?.indexExclude);
+  webFetcher.configure(config.webFetch);
+  ocrEngine.configure(config.ocr);
+  toolOutputStore.configure(config.toolOutputBudgets);
+  scriptToolManager.configure(config.scriptTools);
+  clipboardTools.configure({ autoCopy: config.autoClipboard });
+  log.info(`✅ SessionManager initialized with provider: ${provider.name}`);
+}
+
+// 显示中的提醒通知（保持引用，避免被回收后点击无响应）
+const reminderNotifications = new Set<Notification>();
+
+// 提醒到期：宠物窗口提示并弹出桌面通知，点击打开设置提醒的会话
+function deliverReminder(reminder: Reminder, late: boolean): void {
+  const sessionId = sessionManager.getSession(reminder.sessionId) ? reminder.sessionId : null;
+  windowManager.showPetReminder({ id: reminder.id, message: reminder.message, sessionId });
+
+  if (!Notification.isSupported()) {
+    log.warn('⚠️ Desktop notifications are not supported');
+    return;
+  }
+  const notification = new Notification({
+    title: late ? `⏰ 提醒（原定 ${formatDueTime(reminder.dueAt)}）` : '⏰ 提醒',
+    body: reminder.message,
+  });
+  notification.on('click', () => {
+    reminderNotifications.delete(notification);
+    windowManager.openSession(sessionId);
+  });
+  notification.on('close', () => reminderNotifications.delete(notification));
+  reminderNotifications.add(notification);
+  notification.show();
+}
+
 // 注册Deep Link协议（用于OAuth回调）
 if (process.defaultApp) {
   if (process.argv.length >= 2) {
@@ -92,14 +150,15 @@ app.whenReady().then(async () => {
     
     // 2. 初始化会话管理器
     try {
-      const apiKey = await configManager.getApiKey();
-      await sessionManager.initialize(apiKey);
-      log.info('✅ SessionManager initialized with API Key');
+      await initializeSessionManager();
       
       // 加载历史会话
       try {
         const historySessions = await loadSessions();
         sessionManager.loadSessions(historySessions);
+        toolOutputStore.prune(historySessions.map(session => session.id)).catch(error => {
+          log.error('❌ Failed to prune tool outputs:', error);
+        });
         log.info(`✅ Loaded ${historySessions.length} sessions from disk`);
       } catch (error) {
         log.error('❌ Failed to load sessions:', error);
@@ -142,7 +201,10 @@ app.whenReady().then(async () => {
     // 7. 创建宠物窗口
     windowManager.createPetWindow();
 
-    // 8. 注册全局快捷键（从配置读取）
+    // 8. 启动提醒调度（宠物窗口创建之后，补发应用关闭期间到期的提醒）
+    await reminderScheduler.start(deliverReminder);
+
+    // 9. 注册全局快捷键（从配置读取）
     const shortcut = configManager.getConfig().shortcut || 'CommandOrControl+Shift+A';
     const ret = globalShortcut.register(shortcut, () => {
       log.info('Global shortcut triggered:', shortcut);
@@ -155,7 +217,7 @@ app.whenReady().then(async () => {
       log.info('✅ Global shortcut registered:', shortcut);
     }
 
-    // 9. macOS 激活事件
+    // 10. macOS 激活事件
     app.on('activate', () => {
       if (BrowserWindow.getAllWindows().length === 0) {
         windowManager.createPetWindow();
@@ -193,6 +255,12 @@ app.on('will-quit', async () => {
     
     // 4. 停止剪贴板监听
     clipboardMonitor.stop();
+
+    // 5. 停止文件索引监听
+    fileIndexManager.dispose();
+
+    // 6. 停止提醒调度
+    reminderScheduler.stop();
     
     log.info('✅ Application shutdown complete');
   } catch (error) {
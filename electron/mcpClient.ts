@@ -65,12 +65,17 @@ export interface MCPServerConfig {
   };
 }
 
+// 工具调用选项
+export interface CallToolOptions {
+  signal?: AbortSignal;  // 取消信号（中止时向服务器发送 notifications/cancelled）
+}
+
 // 统一接口
 export interface IMCPClient {
   connect(): Promise<void>;
   disconnect(): void;
   getTools(): Promise<any[]>;
-  callTool(name: string, args: any): Promise<any>;
+  callTool(name: string, args: any, options?: CallToolOptions): Promise<any>;
 }
 
 /**
@@ -231,7 +236,7 @@ class SDKMCPClient implements IMCPClient {
     }
   }
   
-  async callTool(name: string, args: any): Promise<any> {
+  async callTool(name: string, args: any, options: CallToolOptions = {}): Promise<any> {
     if (!this.client) {
       throw new Error('Not connected to server');
     }
@@ -248,7 +253,8 @@ class SDKMCPClient implements IMCPClient {
             arguments: args
           }
         },
-        CallToolResultSchema
+        CallToolResultSchema,
+        { signal: options.signal }
       );
       
       console.log(`✅ [MCP SDK] Tool call completed: ${name}`);
@@ -256,6 +262,10 @@ class SDKMCPClient implements IMCPClient {
       return result;
       
     } catch (error: any) {
+      if (options.signal?.aborted) {
+        logger.info(`🛑 MCP tool call cancelled: ${this.config.name}/${name}`);
+        throw error;
+      }
       console.error(`❌ [MCP SDK] Tool call failed:`, error);
       logger.error(`❌ MCP tool call failed: ${this.config.name}/${name}`, error);
       throw error;
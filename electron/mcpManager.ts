@@ -1,10 +1,11 @@
-import { createMCPClient, IMCPClient, MCPServerConfig } from './mcpClient';
+import { CallToolOptions, createMCPClient, IMCPClient, MCPServerConfig } from './mcpClient';
 import { logger } from './logger';
 import { oauth21Manager } from './oauthManager';
 
 class MCPManager {
   private clients: Map<string, IMCPClient> = new Map();
   private configs: Map<string, MCPServerConfig> = new Map();
+  private readOnlyTools: Set<string> = new Set(); // 声明了 readOnlyHint 的工具（带 mcp_ 前缀）
   
   // 加载配置的MCP服务器
   async loadServers(configs: MCPServerConfig[]): Promise<void> {
@@ -323,6 +324,7 @@ class MCPManager {
     console.log(`📋 [mcpManager] 当前配置的服务器数量: ${this.configs.size}`);
     
     const allTools: any[] = [];
+    const readOnlyTools = new Set<string>();
     
     // 列出所有服务器
     for (const [serverId, config] of this.configs.entries()) {
@@ -357,6 +359,9 @@ class MCPManager {
         }));
         
         allTools.push(...formattedTools);
+        tools
+          .filter(tool => tool.annotations?.readOnlyHint === true)
+          .forEach(tool => readOnlyTools.add(`mcp_${config.name}__${tool.name}`));
         console.log(`✅ [mcpManager] 已添加 ${formattedTools.length} 个工具从 ${config.name}`);
         logger.info(`📦 Added ${formattedTools.length} tools from ${config.name}`);
       } catch (error: any) {
@@ -367,11 +372,18 @@ class MCPManager {
     
     console.log(`📊 [mcpManager] 总计获取到 ${allTools.length} 个MCP工具`);
     logger.info(`📦 Total MCP tools available: ${allTools.length}`);
+    this.readOnlyTools = readOnlyTools;
     return allTools;
   }
   
+  // 判断MCP工具是否只读（兼容不带 mcp_ 前缀的旧格式）
+  isReadOnlyTool(toolName: string): boolean {
+    const fullName = toolName.startsWith('mcp_') ? toolName : `mcp_${toolName}`;
+    return this.readOnlyTools.has(fullName);
+  }
+  
   // 调用MCP工具
-  async callTool(toolName: string, args: any): Promise<any> {
+  async callTool(toolName: string, args: any, options?: CallToolOptions): Promise<any> {
     // 从工具名解析: "mcp_服务器名__工具名"
     // 先移除 mcp_ 前缀
     let nameWithoutPrefix = toolName;
@@ -391,7 +403,7 @@ class MCPManager {
       const config = this.configs.get(serverId);
       if (config?.name === serverName) {
         logger.info(`🔧 Calling MCP tool: ${serverName}/${actualToolName}`);
-        const result = await client.callTool(actualToolName, args);
+        const result = await client.callTool(actualToolName, args, options);
         logger.info(`✅ MCP tool call completed: ${serverName}/${actualToolName}`);
         return result;
       }
@@ -0,0 +1,103 @@
+/**
+ * 会话消息树
+ *
+ * 职责：
+ * 1. 以 parentId 组织消息，支持编辑 / 重新生成产生的分支
+ * 2. 计算当前激活路径（发送给模型和展示给用户的消息）
+ * 3. 计算分支位置（第几个 / 共几个）
+ * 4. 兼容旧版线性消息列表
+ */
+
+/**
+ * 树节点（只依赖消息的 id、parentId、timestamp）
+ */
+export interface TreeNode {
+  id: string;
+  parentId?: string | null;
+  timestamp: number;
+}
+
+/**
+ * 带分支位置的消息
+ */
+export type BranchedMessage<T> = T & {
+  branchIndex: number;  // 在兄弟分支中的位置（从 0 开始）
+  branchCount: number;  // 兄弟分支数量
+};
+
+/**
+ * 生成消息 ID
+ */
+export function createMessageId(prefix: string = 'msg'): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * 获取子节点（按创建时间排序）
+ */
+export function getChildren<T extends TreeNode>(messages: T[], parentId: string | null): T[] {
+  return messages
+    .filter(msg => (msg.parentId ?? null) === parentId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * 获取从根节点到指定叶子节点的路径
+ */
+export function getPathTo<T extends TreeNode>(messages: T[], leafId: string | null | undefined): T[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: T[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * 从指定节点向下查找最新的叶子节点（每一层都选最新创建的子节点）
+ */
+export function findLatestLeaf<T extends TreeNode>(messages: T[], fromId: string): string {
+  let leafId = fromId;
+  let children = getChildren(messages, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+
+  return leafId;
+}
+
+/**
+ * 为路径上的每条消息附加分支位置
+ */
+export function withBranchInfo<T extends TreeNode>(messages: T[], path: T[]): BranchedMessage<T>[] {
+  return path.map(msg => {
+    const siblings = getChildren(messages, msg.parentId ?? null);
+    return {
+      ...msg,
+      branchIndex: siblings.findIndex(sibling => sibling.id === msg.id),
+      branchCount: siblings.length,
+    };
+  });
+}
+
+/**
+ * 将旧版线性消息列表转换为消息树（依次链接）
+ * 返回激活的叶子节点 ID
+ */
+export function migrateLinearMessages<T extends TreeNode>(messages: T[]): string | undefined {
+  if (messages.length === 0 || messages.some(msg => msg.parentId !== undefined)) {
+    return undefined;
+  }
+
+  messages.forEach((msg, index) => {
+    msg.parentId = index === 0 ? null : messages[index - 1].id;
+  });
+
+  return messages[messages.length - 1].id;
+}
@@ -0,0 +1,128 @@
+/**
+ * 模型降级规则
+ *
+ * 职责：
+ * 1. 将 API 错误归类（限流、请求错误、鉴权、服务端、网络）
+ * 2. 按错误类别决定处理方式（同模型重试 / 切换下一个模型 / 停止）
+ * 3. 解析模型降级链
+ */
+
+/**
+ * 错误类别
+ */
+export type ErrorClass = 'rate_limit' | 'bad_request' | 'auth' | 'server' | 'network' | 'unknown';
+
+/**
+ * 处理方式
+ * - retry: 等待后重试同一模型（重试次数用尽后切换下一个模型）
+ * - next: 立即切换到下一个模型
+ * - stop: 不降级，直接报错
+ */
+export type FallbackAction = 'retry' | 'next' | 'stop';
+
+/**
+ * 降级规则
+ */
+export interface FallbackRule {
+  errorClass: ErrorClass;
+  action: FallbackAction;
+  maxRetries?: number;     // action 为 retry 时的最大重试次数
+  retryDelayMs?: number;   // 服务端未返回 Retry-After 时的等待时间
+}
+
+/**
+ * 错误分类结果
+ */
+export interface ClassifiedError {
+  errorClass: ErrorClass;
+  status?: number;
+  retryAfterMs?: number;
+  message: string;
+}
+
+/**
+ * 默认降级规则
+ */
+export const DEFAULT_FALLBACK_RULES: FallbackRule[] = [
+  { errorClass: 'rate_limit', action: 'retry', maxRetries: 2, retryDelayMs: 2000 },
+  { errorClass: 'bad_request', action: 'stop' },
+  { errorClass: 'auth', action: 'stop' },
+  { errorClass: 'server', action: 'next' },
+  { errorClass: 'network', action: 'next' },
+  { errorClass: 'unknown', action: 'next' },
+];
+
+// 限流 / 配额类错误标识（部分网关以 200 + 错误体返回）
+const RATE_LIMIT_MARKERS = /TOO_MANY_REQUESTS|Throttling|AllocationQuota|rate[\s_-]?limit|insufficient_quota/i;
+
+// 网络层错误码
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'connection_error',
+]);
+
+/**
+ * 对错误进行分类
+ */
+export function classifyError(error: any): ClassifiedError {
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const code = String(error?.code ?? '');
+  const message = String(error?.message ?? error ?? 'Unknown error');
+  const retryAfterMs: number | undefined = error?.retryAfterMs;
+
+  let errorClass: ErrorClass;
+  if (status === 429 || RATE_LIMIT_MARKERS.test(code) || RATE_LIMIT_MARKERS.test(message)) {
+    errorClass = 'rate_limit';
+  } else if (status === 401 || status === 403) {
+    errorClass = 'auth';
+  } else if (status === 400 || status === 422) {
+    errorClass = 'bad_request';
+  } else if (status !== undefined && status >= 500) {
+    errorClass = 'server';
+  } else if (status === undefined && NETWORK_ERROR_CODES.has(code)) {
+    errorClass = 'network';
+  } else {
+    errorClass = 'unknown';
+  }
+
+  return { errorClass, status, retryAfterMs, message };
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * 获取错误类别对应的规则
+ */
+export function findFallbackRule(rules: FallbackRule[], errorClass: ErrorClass): FallbackRule {
+  return rules.find(rule => rule.errorClass === errorClass)
+    || DEFAULT_FALLBACK_RULES.find(rule => rule.errorClass === errorClass)!;
+}
+
+/**
+ * 解析本轮使用的模型降级链
+ * 会话指定的模型排在首位，其余模型保持提供方配置的顺序
+ * @param providerModels 提供方配置的模型列表（即可编辑的降级链）
+ * @param preferredModel 会话选择的模型或全局默认模型
+ */
+export function resolveModelChain(providerModels: string[], preferredModel?: string): string[] {
+  if (!preferredModel) {
+    return [...providerModels];
+  }
+  return [preferredModel, ...providerModels.filter(model => model !== preferredModel)];
+}
@@ -0,0 +1,222 @@
+/**
+ * 本地文字识别（OCR）
+ *
+ * 职责：
+ * 1. 调用本机安装的 Tesseract（纯 CPU、离线）识别截图和粘贴板图片中的文字
+ * 2. 查找可执行文件和已安装的语言包，按配置选择识别语言
+ * 3. 按图片内容缓存识别结果，同一张图片不重复识别
+ */
+import { execFile } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * 自动识别策略
+ * - auto：始终识别并保存（用于搜索），仅在当前模型不支持图片时把文字附加到消息
+ * - always：识别结果总是附加到消息
+ * - off：不自动识别（ocr_image 工具仍可使用）
+ */
+export type OcrMode = 'auto' | 'always' | 'off';
+
+/**
+ * OCR 配置
+ */
+export interface OcrSettings {
+  mode: OcrMode;
+  languages: string[];   // Tesseract 语言包，如 chi_sim、eng
+}
+
+export const DEFAULT_OCR_SETTINGS: OcrSettings = {
+  mode: 'auto',
+  languages: ['chi_sim', 'eng'],
+};
+
+/**
+ * OCR 引擎状态
+ */
+export interface OcrStatus {
+  available: boolean;
+  binary: string | null;
+  languages: string[];   // 已安装的语言包
+  error?: string;
+}
+
+const RECOGNIZE_TIMEOUT_MS = 60000;
+const MAX_CACHE_ENTRIES = 100;
+// 图形界面启动的应用不继承 shell 的 PATH，额外查找常见安装位置
+const EXTRA_BINARY_DIRS = ['/opt/homebrew/bin', '/usr/local/bin', '/usr/bin', 'C:\\Program Files\\Tesseract-OCR'];
+
+class OcrEngine {
+  private settings: OcrSettings = DEFAULT_OCR_SETTINGS;
+  private status: Promise<OcrStatus> | null = null;
+  private cache: Map<string, string> = new Map();
+
+  /**
+   * 更新配置
+   */
+  configure(settings: Partial<OcrSettings> = {}): void {
+    const languages = (settings.languages ?? DEFAULT_OCR_SETTINGS.languages).map(lang => lang.trim()).filter(Boolean);
+    this.settings = {
+      mode: settings.mode || DEFAULT_OCR_SETTINGS.mode,
+      languages: languages.length > 0 ? languages : DEFAULT_OCR_SETTINGS.languages,
+    };
+    this.cache.clear();
+  }
+
+  getSettings(): OcrSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * 检测 Tesseract 是否可用（结果会缓存，refresh 为 true 时重新检测）
+   */
+  getStatus(refresh: boolean = false): Promise<OcrStatus> {
+    if (!this.status || refresh) {
+      this.status = detectTesseract();
+    }
+    return this.status;
+  }
+
+  /**
+   * 识别图片中的文字
+   * @param image data URL（data:image/png;base64,...）或本地图片路径
+   */
+  async recognize(image: string, signal?: AbortSignal): Promise<string> {
+    const status = await this.getStatus();
+    if (!status.available || !status.binary) {
+      throw new Error(status.error || '未找到 Tesseract');
+    }
+
+    const { buffer, extension } = await loadImage(image);
+    const languages = this.pickLanguages(status.languages);
+    const key = crypto.createHash('sha256').update(languages).update(buffer).digest('hex');
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const tempFile = path.join(os.tmpdir(), `lingxi-ocr-${crypto.randomUUID()}.${extension}`);
+    const startTime = Date.now();
+    try {
+      await fs.promises.writeFile(tempFile, buffer);
+      const output = await runTesseract(status.binary, [tempFile, 'stdout', '-l', languages, '--psm', '3'], signal);
+      const text = cleanOcrText(output);
+
+      logger.info(`🔤 OCR finished in ${Date.now() - startTime}ms (${languages}, ${text.length} chars)`);
+      this.cache.set(key, text);
+      if (this.cache.size > MAX_CACHE_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value!);
+      }
+      return text;
+    } finally {
+      await fs.promises.rm(tempFile, { force: true });
+    }
+  }
+
+  // 配置的语言中已安装的部分；都未安装时回退到 eng 或第一个已安装的语言
+  private pickLanguages(installed: string[]): string {
+    const wanted = this.settings.languages.filter(lang => installed.includes(lang));
+    if (wanted.length > 0) {
+      return wanted.join('+');
+    }
+    return installed.includes('eng') ? 'eng' : installed.find(lang => lang !== 'osd') || 'eng';
+  }
+}
+
+async function detectTesseract(): Promise<OcrStatus> {
+  const binary = await findBinary();
+  if (!binary) {
+    return {
+      available: false,
+      binary: null,
+      languages: [],
+      error: '未找到 Tesseract。macOS 可执行 brew install tesseract tesseract-lang 安装，或设置环境变量 TESSERACT_PATH',
+    };
+  }
+
+  try {
+    // 第一行是标题（List of available languages ...），之后每行一个语言
+    const output = await runTesseract(binary, ['--list-langs']);
+    const languages = output.split(/\r?\n/).slice(1).map(line => line.trim()).filter(Boolean);
+    logger.info(`🔤 Tesseract found: ${binary} (${languages.join(', ')})`);
+    return { available: languages.length > 0, binary, languages, error: languages.length > 0 ? undefined : 'Tesseract 没有安装语言包' };
+  } catch (error: any) {
+    return { available: false, binary, languages: [], error: `Tesseract 无法运行：${error.message}` };
+  }
+}
+
+async function findBinary(): Promise<string | null> {
+  const name = process.platform === 'win32' ? 'tesseract.exe' : 'tesseract';
+  const candidates = [
+    process.env.TESSERACT_PATH,
+    ...(process.env.PATH || '').split(path.delimiter).filter(Boolean).map(dir => path.join(dir, name)),
+    ...EXTRA_BINARY_DIRS.map(dir => path.join(dir, name)),
+  ].filter((candidate): candidate is string => Boolean(candidate));
+
+  for (const candidate of candidates) {
+    try {
+      await fs.promises.access(candidate, fs.constants.X_OK);
+      return candidate;
+    } catch {
+      // 继续查找
+    }
+  }
+  return null;
+}
+
+function runTesseract(binary: string, args: string[], signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, {
+      timeout: RECOGNIZE_TIMEOUT_MS,
+      maxBuffer: 10 * 1024 * 1024,
+      signal,
+      // 限制线程数，避免识别时占满 CPU
+      env: { ...process.env, OMP_THREAD_LIMIT: '2' },
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(signal?.aborted ? new Error('Cancelled') : new Error(stderr.trim() || error.message));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+async function loadImage(image: string): Promise<{ buffer: Buffer; extension: string }> {
+  const match = /^data:image\/([\w+.-]+);base64,(.*)$/s.exec(image);
+  if (match) {
+    const extension = match[1] === 'jpeg' ? 'jpg' : match[1].replace(/\W.*$/, '');
+    return { buffer: Buffer.from(match[2], 'base64'), extension };
+  }
+  if (/^[a-z]+:/i.test(image) && !/^[a-z]:[\\/]/i.test(image)) {
+    throw new Error('只支持 data URL 或本地图片路径');
+  }
+  return { buffer: await fs.promises.readFile(image), extension: path.extname(image).slice(1) || 'png' };
+}
+
+// Tesseract 会在中文字符之间插入空格，并输出大量空行
+function cleanOcrText(text: string): string {
+  return text
+    .replace(/\f/g, '')
+    .replace(/([\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]) +(?=[\u3000-\u303f\u4e00-\u9fff\uff00-\uffef])/g, '$1')
+    .split(/\r?\n/)
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * 格式化为附加到消息的上下文块
+ */
+export function formatOcrContext(texts: string[]): string {
+  const parts = texts
+    .map((text, index) => text ? `图片 ${index + 1}：\n${text}` : '')
+    .filter(Boolean);
+  return `[图片文字识别（OCR）结果，可能有识别错误]\n${parts.join('\n\n')}`;
+}
+
+export const ocrEngine = new OcrEngine();
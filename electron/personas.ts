@@ -0,0 +1,145 @@
+/**
+ * 人设与系统提示词模板
+ *
+ * 职责：
+ * 1. 定义人设（名称 + 系统提示词模板）和内置人设
+ * 2. 在请求时渲染模板变量（{date}、{os}、{cwd}、{workspace_roots}、{knowledge}）
+ */
+import * as os from 'os';
+
+/**
+ * 人设
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  template: string;  // 系统提示词模板，可使用 {变量名} 引用模板变量
+}
+
+/**
+ * 模板变量
+ */
+export interface PromptVariables {
+  date: string;
+  os: string;
+  cwd: string;
+  workspace_roots: string;
+  knowledge: string;
+}
+
+/**
+ * 支持的模板变量及说明
+ */
+export const PROMPT_VARIABLES: Record<keyof PromptVariables, string> = {
+  date: '当前日期和星期',
+  os: '操作系统',
+  cwd: '当前工作目录',
+  workspace_roots: '工作区目录列表',
+  knowledge: '背景知识',
+};
+
+export const DEFAULT_PERSONA_ID = 'default';
+
+const DEFAULT_TEMPLATE = `你是一个桌面AI助手，以可爱的小狗形象出现。
+
+当前时间：{date}
+操作系统：{os}
+工作目录：{cwd}
+工作区：{workspace_roots}
+
+你的能力：
+1. 理解用户屏幕上的内容（通过截图）
+2. 理解用户粘贴板中的截图
+3. 回答用户关于屏幕内容的问题
+4. 通过工具访问用户的文件系统、执行命令，以及使用 MCP (Model Context Protocol) 提供的外部服务
+
+你的特点：
+- 友好、专业、高效
+- 回答简洁明了，避免冗长
+- 对于技术问题，提供具体的解决方案
+- 对于文档问题，提供清晰的总结
+
+注意事项：
+- 如果用户没有提供截图，礼貌地提醒
+- 如果截图内容不清晰，说明你看到了什么
+- 回答时使用 Markdown 格式
+- 代码块要指定语言以便高亮
+
+**重要：使用工具**
+- 需要查看文件、列出目录、搜索内容或执行命令时，请直接调用提供给你的工具，不要让用户手动执行
+- 回复中的代码块只用于展示，不会被执行
+- 工具执行结果会返回给你，请基于结果继续回答
+
+**重要：建议回复**
+当你需要建议用户回复某人或给出一段可以直接使用的内容时，请调用 suggest_replies 工具，不要只写在正文里。
+- 有不同语气或方案时可以给出多条，最合适的放在第一条
+- 建议会显示为卡片，用户点击即可复制；用户开启自动复制时第一条会直接复制到粘贴板`;
+
+/**
+ * 内置人设
+ */
+export const DEFAULT_PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: '桌面伙伴',
+    template: DEFAULT_TEMPLATE,
+  },
+  {
+    id: 'coder',
+    name: '编程助手',
+    template: `你是一名资深软件工程师，帮助用户阅读、理解和修改代码。
+
+当前时间：{date}
+操作系统：{os}
+工作目录：{cwd}
+工作区：{workspace_roots}
+
+工作方式：
+- 回答前先通过工具查看相关文件，不要凭空猜测代码内容
+- 修改建议要具体到文件和代码位置
+- 回答使用 Markdown，代码块标注语言
+- 回复中的代码块只用于展示，不会被执行；需要执行命令时请调用工具`,
+  },
+];
+
+/**
+ * 构建模板变量
+ */
+export function buildPromptVariables(options: { knowledge?: string; workspaceRoots?: string[]; cwd?: string } = {}): PromptVariables {
+  const now = new Date();
+  const weekdays = ['日', '一', '二', '三', '四', '五', '六'];
+  const pad = (n: number) => String(n).padStart(2, '0');
+
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} 星期${weekdays[now.getDay()]}`,
+    os: `${os.type()} ${os.release()} (${process.platform}/${process.arch})`,
+    cwd: options.cwd || process.cwd(),
+    workspace_roots: options.workspaceRoots?.length ? options.workspaceRoots.join(', ') : '（未配置）',
+    knowledge: options.knowledge || '',
+  };
+}
+
+/**
+ * 渲染系统提示词模板
+ * 未知变量保持原样；模板未引用 {knowledge} 时，背景知识追加在末尾
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  const rendered = template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof PromptVariables] : match
+  );
+
+  if (variables.knowledge && !template.includes('{knowledge}')) {
+    return `${rendered}\n\n**背景知识**\n${variables.knowledge}`;
+  }
+  return rendered;
+}
+
+/**
+ * 按 ID 查找人设，找不到时回退到默认人设
+ */
+export function findPersona(personas: Persona[], personaId?: string): Persona {
+  return personas.find(p => p.id === personaId)
+    || personas.find(p => p.id === DEFAULT_PERSONA_ID)
+    || personas[0]
+    || DEFAULT_PERSONAS[0];
+}
@@ -1,4 +1,8 @@
-import { contextBridge, ipcRenderer } from 'electron';
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+
+// 会话更新监听器（记录包装函数，保证 offSessionUpdate 能正确移除）
+const sessionUpdateListeners = new Map<(data: any) => void, (event: IpcRendererEvent, data: any) => void>();
+const openSessionListeners = new Map<(sessionId: string) => void, (event: IpcRendererEvent, sessionId: string) => void>();
 
 // 暴露安全的 API 给渲染进程
 contextBridge.exposeInMainWorld('electronAPI', {
@@ -73,10 +77,64 @@ contextBridge.exposeInMainWorld('electronAPI', {
   sessionStartAI: async (sessionId: string, messages: any[], userMessage: string, imageCount: number): Promise<boolean> => {
     return await ipcRenderer.invoke('session:start-ai', sessionId, messages, userMessage, imageCount);
   },
+  // 继续因循环预算耗尽而暂停的会话
+  sessionContinue: async (sessionId: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:continue', sessionId);
+  },
   sessionCancel: async (sessionId: string): Promise<boolean> => {
     return await ipcRenderer.invoke('session:cancel', sessionId);
   },
 
+  // 设置会话使用的模型（空字符串表示使用默认模型）
+  sessionSetModel: async (sessionId: string, model: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:set-model', sessionId, model);
+  },
+
+  // 获取当前提供方的可用模型
+  modelGetAvailable: async (): Promise<{ models: string[]; defaultModel: string }> => {
+    return await ipcRenderer.invoke('model:get-available');
+  },
+
+  // 设置会话使用的人设
+  sessionSetPersona: async (sessionId: string, personaId: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:set-persona', sessionId, personaId);
+  },
+
+  // 获取人设列表
+  personaGetAll: async (): Promise<any> => {
+    return await ipcRenderer.invoke('persona:get-all');
+  },
+
+  // 设置会话工作目录
+  sessionSetCwd: async (sessionId: string, cwd: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:set-cwd', sessionId, cwd);
+  },
+
+  // 获取工作区目录和会话工作目录
+  workspaceGet: async (sessionId?: string): Promise<{ roots: string[]; cwd: string }> => {
+    return await ipcRenderer.invoke('workspace:get', sessionId);
+  },
+
+  // 获取当前激活分支的消息
+  sessionGetActivePath: async (sessionId: string): Promise<any[]> => {
+    return await ipcRenderer.invoke('session:get-active-path', sessionId);
+  },
+
+  // 编辑用户消息（创建新分支并重新生成回复）
+  sessionEditMessage: async (sessionId: string, messageId: string, content: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:edit-message', sessionId, messageId, content);
+  },
+
+  // 重新生成助手回复（创建新分支）
+  sessionRegenerate: async (sessionId: string, messageId: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:regenerate', sessionId, messageId);
+  },
+
+  // 切换分支
+  sessionSwitchBranch: async (sessionId: string, messageId: string, offset: number): Promise<any[]> => {
+    return await ipcRenderer.invoke('session:switch-branch', sessionId, messageId, offset);
+  },
+
   // 获取会话详情
   sessionGet: async (sessionId: string): Promise<any> => {
     return await ipcRenderer.invoke('session:get', sessionId);
@@ -92,14 +150,112 @@ contextBridge.exposeInMainWorld('electronAPI', {
     return await ipcRenderer.invoke('session:delete', sessionId);
   },
 
+  // 搜索会话（消息文本和图片识别文字）
+  sessionSearch: async (query: string): Promise<any[]> => {
+    return await ipcRenderer.invoke('session:search', query);
+  },
+
+  // 获取本地 OCR 引擎状态
+  ocrGetStatus: async (refresh?: boolean): Promise<any> => {
+    return await ipcRenderer.invoke('ocr:status', refresh);
+  },
+
+  // 审批需要确认的命令（approve 仅本次 / deny 拒绝 / always 记住命令前缀）
+  approvalResolve: async (approvalId: string, decision: 'approve' | 'deny' | 'always', pattern?: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('approval:resolve', approvalId, decision, pattern);
+  },
+
+  // 获取已记住的命令允许规则
+  approvalGetRules: async (): Promise<any[]> => {
+    return await ipcRenderer.invoke('approval:get-rules');
+  },
+
+  // 删除命令允许规则
+  approvalRemoveRule: async (pattern: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('approval:remove-rule', pattern);
+  },
+
+  // 确认或拒绝文件修改
+  fileEditResolve: async (editId: string, approved: boolean): Promise<boolean> => {
+    return await ipcRenderer.invoke('file-edit:resolve', editId, approved);
+  },
+
+  // 撤销已应用的文件修改
+  fileEditRevert: async (sessionId: string, messageId: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('file-edit:revert', sessionId, messageId);
+  },
+
+  // 用系统默认程序打开文件
+  openFile: async (filePath: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('file:open', filePath);
+  },
+
+  // 订阅会话事件（返回当前事件序号）
+  sessionSubscribe: async (sessionId: string): Promise<number> => {
+    return await ipcRenderer.invoke('session:subscribe', sessionId);
+  },
+
+  // 取消订阅会话事件
+  sessionUnsubscribe: async (sessionId: string): Promise<boolean> => {
+    return await ipcRenderer.invoke('session:unsubscribe', sessionId);
+  },
+
+  // 补齐 fromSeq 之后的会话事件
+  sessionResync: async (sessionId: string, fromSeq: number): Promise<any> => {
+    return await ipcRenderer.invoke('session:resync', sessionId, fromSeq);
+  },
+
   // 监听会话更新
   onSessionUpdate: (callback: (data: any) => void) => {
-    ipcRenderer.on('session-update', (event, data) => callback(data));
+    const listener = (event: IpcRendererEvent, data: any) => callback(data);
+    sessionUpdateListeners.set(callback, listener);
+    ipcRenderer.on('session-update', listener);
   },
 
   // 移除会话更新监听
   offSessionUpdate: (callback: (data: any) => void) => {
-    ipcRenderer.removeListener('session-update', callback);
+    const listener = sessionUpdateListeners.get(callback);
+    if (listener) {
+      ipcRenderer.removeListener('session-update', listener);
+      sessionUpdateListeners.delete(callback);
+    }
+  },
+
+  // 获取打开对话窗口时要切换到的会话（如点击提醒打开）
+  takePendingSession: async (): Promise<string | null> => {
+    return await ipcRenderer.invoke('chat:take-pending-session');
+  },
+
+  // 监听切换会话请求（对话窗口已打开时点击提醒）
+  onOpenSession: (callback: (sessionId: string) => void) => {
+    const listener = (event: IpcRendererEvent, sessionId: string) => callback(sessionId);
+    openSessionListeners.set(callback, listener);
+    ipcRenderer.on('chat:open-session', listener);
+  },
+
+  offOpenSession: (callback: (sessionId: string) => void) => {
+    const listener = openSessionListeners.get(callback);
+    if (listener) {
+      ipcRenderer.removeListener('chat:open-session', listener);
+      openSessionListeners.delete(callback);
+    }
+  },
+
+  // ============ 提醒 API（宠物窗口） ============
+
+  // 提醒到期
+  onPetReminder: (callback: (reminder: { id: string; message: string; sessionId: string | null }) => void) => {
+    ipcRenderer.on('pet:reminder', (event, reminder) => callback(reminder));
+  },
+
+  // 提醒已查看
+  onPetReminderClear: (callback: () => void) => {
+    ipcRenderer.on('pet:reminder-clear', () => callback());
+  },
+
+  // 打开提醒所在的会话
+  openReminderSession: (sessionId: string | null) => {
+    ipcRenderer.send('pet:open-session', sessionId);
   },
 
   // ============ 命令执行 API ============
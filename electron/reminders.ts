@@ -0,0 +1,252 @@
+/**
+ * 提醒调度
+ *
+ * 职责：
+ * 1. 记录提醒（内容、到期时间、来源会话），持久化到本地，应用重启后继续生效
+ * 2. 到期时交给投递函数（桌面通知、宠物窗口动画）；应用未运行期间到期的提醒在启动后立即投递
+ * 3. 供 schedule_reminder / list_reminders / cancel_reminder 工具查询和取消
+ */
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { createMessageId } from './messageTree';
+
+/**
+ * 提醒
+ */
+export interface Reminder {
+  id: string;
+  sessionId: string;   // 设置提醒的会话，点击提醒时打开
+  message: string;
+  dueAt: number;
+  createdAt: number;
+}
+
+/**
+ * 投递函数
+ * @param late 应用未运行期间到期、启动后补发
+ */
+export type ReminderDelivery = (reminder: Reminder, late: boolean) => void;
+
+// 定时器最长间隔：系统休眠或修改时钟后也能在一分钟内补上
+const MAX_TIMER_DELAY_MS = 60 * 1000;
+const MAX_REMINDER_DAYS = 365;
+const MAX_PENDING_REMINDERS = 100;
+const MAX_MESSAGE_LENGTH = 500;
+
+class ReminderScheduler {
+  private reminders: Reminder[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private deliver: ReminderDelivery | null = null;
+  // 写入文件的任务依次执行，避免并发写入互相覆盖
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath?: string) {}
+
+  /**
+   * 加载已保存的提醒并开始调度
+   */
+  async start(deliver: ReminderDelivery): Promise<void> {
+    this.deliver = deliver;
+    try {
+      const data = await fs.promises.readFile(this.getFilePath(), 'utf-8');
+      const saved = JSON.parse(data);
+      this.reminders = Array.isArray(saved) ? saved.filter(isReminder) : [];
+      logger.info(`⏰ Loaded ${this.reminders.length} pending reminders`);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('❌ Failed to load reminders:', error);
+      }
+      this.reminders = [];
+    }
+    this.fireDue(true);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.deliver = null;
+  }
+
+  /**
+   * 添加提醒（保存成功后才生效）
+   */
+  async schedule(sessionId: string, message: string, dueAt: number): Promise<Reminder> {
+    const text = message.trim();
+    if (!text) {
+      throw new Error('提醒内容不能为空');
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`提醒内容过长（最多 ${MAX_MESSAGE_LENGTH} 个字符）`);
+    }
+    const now = Date.now();
+    if (!Number.isFinite(dueAt) || dueAt <= now) {
+      throw new Error('提醒时间必须晚于当前时间');
+    }
+    if (dueAt - now > MAX_REMINDER_DAYS * 24 * 60 * 60 * 1000) {
+      throw new Error(`提醒时间不能超过 ${MAX_REMINDER_DAYS} 天`);
+    }
+
+    const reminder: Reminder = { id: createMessageId('rem'), sessionId, message: text, dueAt, createdAt: now };
+    await this.update(reminders => {
+      if (reminders.length >= MAX_PENDING_REMINDERS) {
+        throw new Error(`待触发的提醒过多（最多 ${MAX_PENDING_REMINDERS} 个），请先取消一些`);
+      }
+      return [...reminders, reminder];
+    });
+    logger.info(`⏰ Reminder scheduled: ${reminder.id} at ${new Date(dueAt).toISOString()}`);
+    return reminder;
+  }
+
+  /**
+   * 待触发的提醒，按到期时间排序
+   */
+  list(): Reminder[] {
+    return [...this.reminders].sort((a, b) => a.dueAt - b.dueAt);
+  }
+
+  /**
+   * 取消提醒，不存在时返回 null
+   */
+  async cancel(id: string): Promise<Reminder | null> {
+    let reminder: Reminder | undefined;
+    await this.update(reminders => {
+      reminder = reminders.find(item => item.id === id);
+      return reminder ? reminders.filter(item => item.id !== id) : null;
+    });
+    if (!reminder) {
+      return null;
+    }
+    logger.info(`⏰ Reminder cancelled: ${id}`);
+    return reminder;
+  }
+
+  // 投递所有已到期的提醒，然后等待下一个
+  // 在写入队列中移除到期的提醒，只投递确实被本次移除的（排队中的其他写入不会让已投递的提醒复活）
+  private fireDue(late: boolean = false): void {
+    const now = Date.now();
+    let due: Reminder[] = [];
+    this.update(reminders => {
+      due = reminders.filter(reminder => reminder.dueAt <= now);
+      return due.length > 0 ? reminders.filter(reminder => reminder.dueAt > now) : null;
+    }).then(() => {
+      for (const reminder of due) {
+        logger.info(`⏰ Reminder fired: ${reminder.id}${late ? ' (late)' : ''}`);
+        try {
+          this.deliver?.(reminder, late);
+        } catch (error) {
+          logger.error('❌ Failed to deliver reminder:', error);
+        }
+      }
+      this.arm();
+    }, () => {
+      // 保存失败：提醒保留在列表中，稍后重试
+      if (this.timer) {
+        clearTimeout(this.timer);
+      }
+      this.timer = this.deliver ? setTimeout(() => this.fireDue(late), MAX_TIMER_DELAY_MS) : null;
+    });
+  }
+
+  private arm(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.deliver || this.reminders.length === 0) {
+      return;
+    }
+    const next = Math.min(...this.reminders.map(reminder => reminder.dueAt));
+    const delay = Math.min(Math.max(0, next - Date.now()), MAX_TIMER_DELAY_MS);
+    this.timer = setTimeout(() => this.fireDue(), delay);
+  }
+
+  /**
+   * 排队修改并保存提醒列表：change 基于执行时的最新列表计算新列表（返回 null 表示不修改），
+   * 写入文件成功后才替换内存中的列表并重新调度
+   */
+  private update(change: (reminders: Reminder[]) => Reminder[] | null): Promise<void> {
+    const task = this.writing.then(async () => {
+      const next = change(this.reminders);
+      if (!next) {
+        return;
+      }
+      try {
+        await fs.promises.writeFile(this.getFilePath(), JSON.stringify(next, null, 2), 'utf-8');
+      } catch (error) {
+        logger.error('❌ Failed to save reminders:', error);
+        throw error;
+      }
+      this.reminders = next;
+      this.arm();
+    });
+    this.writing = task.catch(() => {});
+    return task;
+  }
+
+  private getFilePath(): string {
+    return this.filePath || path.join(app.getPath('userData'), 'reminders.json');
+  }
+}
+
+function isReminder(value: any): value is Reminder {
+  return typeof value?.id === 'string'
+    && typeof value.sessionId === 'string'
+    && typeof value.message === 'string'
+    && typeof value.dueAt === 'number';
+}
+
+/**
+ * 解析提醒时间
+ * @param delayMinutes 多少分钟后
+ * @param at 具体时间：HH:mm（今天，已过则为明天）或 YYYY-MM-DD HH:mm，按本地时间解释
+ */
+export function resolveDueTime(delayMinutes?: number, at?: string, now: number = Date.now()): number {
+  if (delayMinutes !== undefined && delayMinutes !== null) {
+    if (typeof delayMinutes !== 'number' || !Number.isFinite(delayMinutes) || delayMinutes <= 0) {
+      throw new Error('delay_minutes 必须是正数');
+    }
+    return now + Math.round(delayMinutes * 60 * 1000);
+  }
+  if (!at?.trim()) {
+    throw new Error('需要提供 delay_minutes 或 at');
+  }
+
+  const value = at.trim();
+  const timeOnly = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (timeOnly) {
+    if (Number(timeOnly[1]) > 23 || Number(timeOnly[2]) > 59) {
+      throw new Error(`无效的时间：${value}`);
+    }
+    const date = new Date(now);
+    date.setHours(Number(timeOnly[1]), Number(timeOnly[2]), 0, 0);
+    if (date.getTime() <= now) {
+      date.setDate(date.getDate() + 1);
+    }
+    return date.getTime();
+  }
+
+  // 不带时区的日期时间按本地时间解释
+  const dueAt = new Date(value.replace(/^(\d{4}-\d{2}-\d{2})\s+/, '$1T')).getTime();
+  if (Number.isNaN(dueAt)) {
+    throw new Error(`无法识别的时间：${value}（请使用 HH:mm 或 YYYY-MM-DD HH:mm）`);
+  }
+  return dueAt;
+}
+
+/**
+ * 格式化提醒时间：今天只显示时刻，其他日期带上月日
+ */
+export function formatDueTime(dueAt: number, now: number = Date.now()): string {
+  const date = new Date(dueAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  return new Date(now).toDateString() === date.toDateString()
+    ? time
+    : `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${time}`;
+}
+
+export const reminderScheduler = new ReminderScheduler();
@@ -0,0 +1,299 @@
+/**
+ * 用户自定义脚本工具
+ *
+ * 职责：
+ * 1. 按配置把团队脚本注册为本地工具（名称、说明、参数 schema、命令模板、工作目录、超时）
+ * 2. 校验调用参数并代入命令模板；不经过 shell 执行，参数值始终作为单个参数传递
+ * 3. 配置变化时替换已注册的脚本工具
+ */
+import { execFile } from 'child_process';
+import * as os from 'os';
+import * as path from 'path';
+import { logger } from './logger';
+import { ToolDefinition, ToolParameters, ToolRisk, toolRegistry } from './toolRegistry';
+import { workspaceSandbox } from './workspace';
+
+/**
+ * 脚本工具配置
+ * 命令模板按空白拆分为参数（支持引号），{参数名} 会被替换为调用时的参数值：
+ * - 独占一个位置的占位符（如 {service}）：参数未提供时省略；数组参数展开为多个参数
+ * - 嵌在文本中的占位符（如 --env={env}）：参数未提供时整段省略
+ */
+export interface ScriptToolConfig {
+  name: string;
+  description: string;
+  parameters: ToolParameters;
+  command: string;           // 命令模板，如 "./bin/deploy-status --env {env} {service}"
+  cwd?: string;              // 工作目录（支持 ~），默认为第一个工作区目录
+  timeoutSeconds?: number;   // 超时时间，默认 60 秒
+  risk?: ToolRisk;           // 风险级别，默认 mutating（与其他修改类工具一样逐个执行）
+  enabled?: boolean;         // 默认 true
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+const MAX_BUFFER = 10 * 1024 * 1024;
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,47}$/;
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+class ScriptToolManager {
+  private registered: string[] = [];
+
+  /**
+   * 按配置重新注册脚本工具；配置无效或与内置工具重名的会被跳过
+   */
+  configure(configs: ScriptToolConfig[] = []): void {
+    this.registered.forEach(name => toolRegistry.unregister(name));
+    this.registered = [];
+
+    for (const config of configs) {
+      if (config.enabled === false) {
+        continue;
+      }
+      const error = validateConfig(config);
+      if (error) {
+        logger.warn(`⚠️ Script tool skipped: ${config.name || '(unnamed)'}: ${error}`);
+        continue;
+      }
+      if (toolRegistry.get(config.name)) {
+        logger.warn(`⚠️ Script tool skipped: ${config.name}: 与已有工具重名`);
+        continue;
+      }
+      toolRegistry.register(createScriptTool(config));
+      this.registered.push(config.name);
+    }
+
+    if (this.registered.length > 0) {
+      logger.info(`🧩 Registered ${this.registered.length} script tools: ${this.registered.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * 检查配置，返回错误说明；有效时返回 null
+ */
+function validateConfig(config: ScriptToolConfig): string | null {
+  if (!NAME_PATTERN.test(config.name || '')) {
+    return '名称只能包含小写字母、数字和下划线，且以字母开头';
+  }
+  if (!config.description?.trim()) {
+    return '缺少说明';
+  }
+  if (config.parameters?.type !== 'object' || typeof config.parameters.properties !== 'object') {
+    return '参数 schema 必须是 type 为 object 的 JSON Schema';
+  }
+
+  let tokens: string[];
+  try {
+    tokens = parseTemplate(config.command || '');
+  } catch (error: any) {
+    return error.message;
+  }
+  if (tokens.length === 0) {
+    return '缺少命令';
+  }
+  if (/\{\w+\}/.test(tokens[0])) {
+    return '命令本身不能使用参数占位符';
+  }
+  const undeclared = Array.from(config.command.matchAll(PLACEHOLDER), match => match[1])
+    .filter(name => !(name in config.parameters.properties));
+  if (undeclared.length > 0) {
+    return `占位符未在参数 schema 中声明：${undeclared.join(', ')}`;
+  }
+  return null;
+}
+
+function createScriptTool(config: ScriptToolConfig): ToolDefinition {
+  const tokens = parseTemplate(config.command);
+  const timeoutSeconds = config.timeoutSeconds && config.timeoutSeconds > 0 ? config.timeoutSeconds : DEFAULT_TIMEOUT_SECONDS;
+
+  return {
+    name: config.name,
+    description: config.description,
+    parameters: config.parameters,
+    risk: config.risk || 'mutating',
+    // 比脚本自身的超时稍长，保证先由 execFile 终止子进程
+    timeoutMs: timeoutSeconds * 1000 + 5000,
+    display: (args) => renderArgv(tokens, args || {}).map(quoteForDisplay).join(' '),
+    handler: async (args, { signal }) => {
+      const error = validateArgs(args || {}, config.parameters);
+      if (error) {
+        return { content: `参数错误：${error}`, failed: true };
+      }
+
+      const [program, ...argv] = renderArgv(tokens, args || {});
+      const cwd = expandHome(config.cwd?.trim() || workspaceSandbox.getDefaultCwd());
+      logger.info(`🧩 Running script tool ${config.name}: ${[program, ...argv].map(quoteForDisplay).join(' ')} (cwd: ${cwd})`);
+      return runScript(expandHome(program), argv, cwd, timeoutSeconds, signal);
+    },
+  };
+}
+
+// 按空白拆分命令模板，支持单引号、双引号和反斜杠转义；不做任何变量展开
+function parseTemplate(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let hasToken = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      hasToken = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      current += command[++i];
+      hasToken = true;
+    } else if (/\s/.test(char)) {
+      if (hasToken) {
+        tokens.push(current);
+      }
+      current = '';
+      hasToken = false;
+    } else {
+      current += char;
+      hasToken = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error('命令模板中的引号未闭合');
+  }
+  if (hasToken) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+// 代入参数，生成最终的参数列表
+function renderArgv(tokens: string[], args: Record<string, any>): string[] {
+  const argv: string[] = [];
+  for (const token of tokens) {
+    const whole = /^\{(\w+)\}$/.exec(token);
+    if (whole) {
+      const value = args[whole[1]];
+      if (value === undefined || value === null) {
+        continue;
+      }
+      argv.push(...(Array.isArray(value) ? value : [value]).map(String));
+      continue;
+    }
+
+    let missing = false;
+    const rendered = token.replace(PLACEHOLDER, (_, name: string) => {
+      const value = args[name];
+      if (value === undefined || value === null) {
+        missing = true;
+        return '';
+      }
+      return Array.isArray(value) ? value.join(',') : String(value);
+    });
+    if (!missing) {
+      argv.push(rendered);
+    }
+  }
+  return argv;
+}
+
+// 按参数 schema 检查调用参数（必填、类型、枚举）；字符串参数不能以 - 开头，防止被脚本当作选项
+function validateArgs(args: Record<string, any>, parameters: ToolParameters): string | null {
+  for (const name of parameters.required || []) {
+    if (args[name] === undefined || args[name] === null || args[name] === '') {
+      return `缺少必填参数 ${name}`;
+    }
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const schema = parameters.properties[name];
+    if (!schema) {
+      return `未知参数 ${name}`;
+    }
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const values = schema.type === 'array' ? value : [value];
+    if (!Array.isArray(values)) {
+      return `参数 ${name} 应为数组`;
+    }
+    const itemSchema = schema.type === 'array' ? schema.items || {} : schema;
+    for (const item of values) {
+      const error = checkValue(name, item, itemSchema);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return null;
+}
+
+function checkValue(name: string, value: any, schema: any): string | null {
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        return `参数 ${name} 应为${schema.type === 'integer' ? '整数' : '数字'}`;
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return `参数 ${name} 应为布尔值`;
+      }
+      break;
+    default:
+      if (typeof value !== 'string') {
+        return `参数 ${name} 应为字符串`;
+      }
+      if (value.startsWith('-')) {
+        return `参数 ${name} 的值不能以 - 开头`;
+      }
+      if (value.includes('\0')) {
+        return `参数 ${name} 包含非法字符`;
+      }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return `参数 ${name} 只能是：${schema.enum.join(', ')}`;
+  }
+  return null;
+}
+
+function runScript(program: string, argv: string[], cwd: string, timeoutSeconds: number, signal: AbortSignal): Promise<string> {
+  return new Promise((resolve) => {
+    execFile(program, argv, {
+      cwd,
+      timeout: timeoutSeconds * 1000,
+      maxBuffer: MAX_BUFFER,
+      signal,
+      windowsHide: true,
+    }, (error: any, stdout, stderr) => {
+      if (!error) {
+        resolve(stdout || stderr || 'Script executed successfully (no output)');
+      } else if (signal.aborted) {
+        resolve('Tool call cancelled by user');
+      } else if (error.code === 'ENOENT') {
+        resolve(`Error: 找不到脚本 ${program}（工作目录：${cwd}）`);
+      } else if (error.killed) {
+        resolve(`脚本执行超时（${timeoutSeconds} 秒），已终止${stdout ? `\n${stdout}` : ''}`);
+      } else {
+        resolve(`Script failed (exit code ${typeof error.code === 'number' ? error.code : 1}):\n${stderr || stdout || error.message}`);
+      }
+    });
+  });
+}
+
+function expandHome(value: string): string {
+  return value === '~' || value.startsWith('~/') ? path.join(os.homedir(), value.slice(1)) : value;
+}
+
+function quoteForDisplay(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+export const scriptToolManager = new ScriptToolManager();
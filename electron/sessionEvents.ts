@@ -0,0 +1,130 @@
+/**
+ * 会话事件总线
+ *
+ * 职责：
+ * 1. 为每个会话的事件分配递增序号
+ * 2. 只向订阅了该会话的窗口推送事件
+ * 3. 缓存最近的事件，支持窗口按序号补齐（resync）
+ */
+import { WebContents } from 'electron';
+import { logger } from './logger';
+
+/**
+ * 事件协议版本
+ */
+export const SESSION_EVENT_PROTOCOL_VERSION = 2;
+
+// 每个会话缓存的事件数量（流式回复按增量推送，事件较多）
+const MAX_BUFFERED_EVENTS = 2000;
+
+/**
+ * 会话事件
+ */
+export interface SessionEvent {
+  v: number;          // 协议版本
+  sessionId: string;
+  seq: number;        // 会话内递增序号（从 1 开始）
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * 补齐结果
+ * 缓存仍包含所需事件时返回 events，否则返回会话快照
+ */
+export interface ResyncResult {
+  seq: number;
+  events?: SessionEvent[];
+  snapshot?: any;
+}
+
+class SessionEventBus {
+  private seqs: Map<string, number> = new Map();
+  private buffers: Map<string, SessionEvent[]> = new Map();
+  private subscriptions: Map<number, { contents: WebContents; sessions: Set<string> }> = new Map();
+
+  // 窗口订阅会话事件，返回当前序号
+  subscribe(contents: WebContents, sessionId: string): number {
+    let subscription = this.subscriptions.get(contents.id);
+    if (!subscription) {
+      subscription = { contents, sessions: new Set() };
+      this.subscriptions.set(contents.id, subscription);
+
+      // 窗口销毁时清理订阅
+      const contentsId = contents.id;
+      contents.once('destroyed', () => this.subscriptions.delete(contentsId));
+    }
+
+    subscription.sessions.add(sessionId);
+    logger.info(`📡 Window ${contents.id} subscribed to session ${sessionId}`);
+    return this.getSeq(sessionId);
+  }
+
+  // 取消订阅
+  unsubscribe(contents: WebContents, sessionId: string): void {
+    this.subscriptions.get(contents.id)?.sessions.delete(sessionId);
+  }
+
+  // 发布事件
+  publish(sessionId: string, data: Record<string, any>): SessionEvent {
+    const seq = this.getSeq(sessionId) + 1;
+    this.seqs.set(sessionId, seq);
+
+    const event: SessionEvent = {
+      ...data,
+      v: SESSION_EVENT_PROTOCOL_VERSION,
+      sessionId,
+      seq,
+      type: data.type,
+    };
+
+    const buffer = this.buffers.get(sessionId) || [];
+    buffer.push(event);
+    if (buffer.length > MAX_BUFFERED_EVENTS) {
+      buffer.splice(0, buffer.length - MAX_BUFFERED_EVENTS);
+    }
+    this.buffers.set(sessionId, buffer);
+
+    for (const { contents, sessions } of this.subscriptions.values()) {
+      if (sessions.has(sessionId) && !contents.isDestroyed()) {
+        contents.send('session-update', event);
+      }
+    }
+
+    return event;
+  }
+
+  /**
+   * 补齐 fromSeq 之后的事件
+   * @param fromSeq 窗口已处理的最后一个序号（小于 0 时强制返回快照）
+   * @param snapshot 缓存不足时用于生成会话快照
+   */
+  resync(sessionId: string, fromSeq: number, snapshot: () => any): ResyncResult {
+    const seq = this.getSeq(sessionId);
+    const buffer = this.buffers.get(sessionId) || [];
+    const oldestSeq = buffer.length > 0 ? buffer[0].seq : seq + 1;
+
+    if (fromSeq >= 0 && fromSeq <= seq && fromSeq >= oldestSeq - 1) {
+      return { seq, events: buffer.filter(event => event.seq > fromSeq) };
+    }
+
+    logger.info(`📡 Resync session ${sessionId} from snapshot (fromSeq: ${fromSeq}, seq: ${seq})`);
+    return { seq, snapshot: snapshot() };
+  }
+
+  // 获取会话当前序号
+  getSeq(sessionId: string): number {
+    return this.seqs.get(sessionId) || 0;
+  }
+
+  // 清理会话事件（删除会话时调用）
+  clear(sessionId: string): void {
+    this.seqs.delete(sessionId);
+    this.buffers.delete(sessionId);
+    for (const { sessions } of this.subscriptions.values()) {
+      sessions.delete(sessionId);
+    }
+  }
+}
+
+export const sessionEventBus = new SessionEventBus();
@@ -1,11 +1,27 @@
-import OpenAI from 'openai';
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, dialog } from 'electron';
+import * as fs from 'fs';
 import { logger } from './logger';
 import { reportConversation } from './analytics';
-import { getAllTools } from './aiTools';
+import { getAllTools, isReadOnlyTool } from './aiTools';
 import { commandExecutor } from './commandExecutor';
+import { FileEditRecord, fileEditManager } from './fileEdits';
+import { isWithin, WorkspaceSettings, workspaceSandbox } from './workspace';
 import { CommandSecurity } from './commandSecurity';
+import { formatOcrContext, ocrEngine } from './ocr';
+import { toolOutputStore } from './toolOutputs';
+import { ToolContext, ToolResult, toolRegistry } from './toolRegistry';
+import { registerBuiltinTools } from './builtinTools';
+import { ApprovalDecision, commandApprovalManager } from './commandApproval';
 import { mcpManager } from './mcpManager';
+import { createProvider, ChatStreamChunk, DEFAULT_PROVIDER, LLMProvider, ProviderConfig } from './llmProviders';
+import { DEFAULT_TOOL_CONCURRENCY, scheduleToolCalls } from './toolScheduler';
+import { ResyncResult, sessionEventBus } from './sessionEvents';
+import { BranchedMessage, createMessageId, findLatestLeaf, getChildren, getPathTo, withBranchInfo } from './messageTree';
+import { BudgetExhaustion, checkLoopBudget, createLoopUsage, DEFAULT_LOOP_BUDGET, LoopBudget, LoopUsage } from './loopBudget';
+import { buildPromptVariables, DEFAULT_PERSONA_ID, DEFAULT_PERSONAS, findPersona, Persona, renderPromptTemplate } from './personas';
+import { describeContextPlan, getModelLimits, getTargetTokens, planContext } from './contextPlanner';
+import { buildSummaryRequest, ConversationSummary, DEFAULT_SUMMARY_OPTIONS, selectMessagesToSummarize, SUMMARY_MAX_TOKENS } from './conversationSummary';
+import { classifyError, DEFAULT_FALLBACK_RULES, FallbackRule, findFallbackRule, resolveModelChain } from './modelFallback';
 
 export interface SessionMessage {
   id: string;
@@ -25,13 +41,38 @@ export interface SessionMessage {
     };
   }>;
   tool_call_id?: string;  // 工具调用结果的 ID
+  cancelled?: boolean;    // 用户取消时保存的部分回复
+  parentId?: string | null;  // 父消息 ID（消息树，根消息为 null）
+  fileEdit?: FileEditRecord; // 文件修改工具的修改记录（用于展示 diff 和撤销）
+  ocrText?: string[];        // 附带图片的文字识别结果（与 imageUrls / clipboardImageUrls 顺序对应）
+}
+
+/**
+ * 会话搜索结果
+ */
+export interface SessionSearchHit {
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  source: 'message' | 'ocr';  // 命中消息文本或图片识别文字
+  snippet: string;
+  timestamp: number;
+}
+
+/**
+ * 单个工具调用的执行结果
+ */
+interface ToolCallOutcome {
+  content: string;
+  fileEdit?: FileEditRecord;
 }
 
 export interface Session {
   id: string;
   name: string;
-  messages: SessionMessage[];
-  status: 'idle' | 'running' | 'completed' | 'error';
+  messages: SessionMessage[];  // 消息树中的全部消息（包括未激活的分支）
+  activeLeafId?: string;       // 当前激活分支的最后一条消息
+  status: 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
   currentResponse: string;
   usage?: {
     prompt_tokens: number;
@@ -43,107 +84,97 @@ export interface Session {
   updatedAt: number;
   userMessage?: string; // 用于上报的用户消息
   imageCount?: number; // 用于上报的图片数量
+  model?: string; // 会话指定的模型（为空时使用全局默认模型）
+  personaId?: string; // 会话使用的人设（为空时使用默认人设）
+  cwd?: string; // 会话工作目录（为空时使用第一个工作区根目录）
+  summary?: ConversationSummary; // 较早对话的滚动摘要
+  loopUsage?: LoopUsage; // 当前工具调用循环的用量
+  budgetExhausted?: BudgetExhaustion; // 循环预算耗尽信息（可通过 continueSession 继续）
 }
 
-class SessionManager {
-  private sessions: Map<string, Session> = new Map();
-  private client: OpenAI | null = null;
-  private systemPrompt: string = '';
-  private knowledge: string = '';
-  private cancelFlags: Map<string, boolean> = new Map(); // 取消标志
-  
-  // 模型降级队列：从高级到低级
-  private readonly MODEL_FALLBACK_QUEUE = [
-    'qwen-vl-max-latest',
-    'qwen-vl-max',
-    'Qwen-VL',
-    'qwen3-vl-plus',
-    'qwen-vl-max-inc',
-    'qwen-vl-plus-inc'
-  ];
-
-  async initialize(apiKey: string, knowledge?: string) {
-    this.client = new OpenAI({
-      apiKey,
-      baseURL: 'https://idealab.alibaba-inc.com/api/openai/v1',
-    });
-    this.knowledge = knowledge || '';
-    
-    // 构建系统提示词
-    this.systemPrompt = `你是一个桌面AI助手，以可爱的小狗形象出现。
-
-**重要提示：你现在拥有MCP (Model Context Protocol) 能力！**
-
-你可以通过MCP工具访问外部服务和资源，例如：
-- 文件系统操作（读写文件、列出目录等）
-- 数据库查询
-- API调用
-- 更多扩展功能
-
-当你收到工具列表时，请积极使用这些工具来帮助用户完成任务。
-
-你的能力：
-1. 理解用户屏幕上的内容（通过截图）
-2. 理解用户粘贴板中的截图
-3. 回答用户关于屏幕内容的问题
-4. **访问用户的文件系统**（通过命令行工具）
-
-你的特点：
-- 友好、专业、高效
-- 回答简洁明了，避免冗长
-- 对于技术问题，提供具体的解决方案
-- 对于文档问题，提供清晰的总结
-
-注意事项：
-- 如果用户没有提供截图，礼貌地提醒
-- 如果截图内容不清晰，说明你看到了什么
-- 回答时使用 Markdown 格式
-- 代码块要指定语言以便高亮
-
-**重要：文件系统访问**
-当你需要查看文件内容、列出目录或执行命令时，你可以直接使用以下命令：
-
-1. 查看文件内容：
-   \`\`\`bash
-   cat /path/to/file
-   \`\`\`
-
-2. 列出目录：
-   \`\`\`bash
-   ls -la /path/to/directory
-   \`\`\`
-
-3. 搜索文件：
-   \`\`\`bash
-   find /path -name "*.txt"
-   \`\`\`
-
-4. 搜索内容：
-   \`\`\`bash
-   grep -r "pattern" /path
-   \`\`\`
-
-**重要提示**：
-- 当用户询问文件内容时，你应该主动使用 cat 命令查看
-- 当用户询问项目结构时，你应该主动使用 ls 命令列出
-- 不要让用户手动执行命令，你应该直接在回复中使用命令
-- 命令会自动执行，结果会显示在你的回复中
+export interface SessionManagerOptions {
+  knowledge?: string;
+  provider?: ProviderConfig;
+  defaultModel?: string;
+  fallbackRules?: FallbackRule[];
+  toolConcurrency?: number;
+  loopBudget?: LoopBudget;
+  personas?: Persona[];
+  defaultPersonaId?: string;
+  workspace?: Partial<WorkspaceSettings>;
+}
 
-**重要：建议回复格式**
-当你需要建议用户回复某人或输出某段内容时，请严格按照以下格式输出：
+/**
+ * 用户取消错误
+ */
+class CancelledError extends Error {
+  constructor() {
+    super('Request cancelled by user');
+    this.name = 'CancelledError';
+  }
+}
 
-建议回复："这里是具体的回复内容"
+// 可被取消信号打断的等待
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
 
-例如：
-- 建议回复："好的，我会尽快处理"
-- 建议回复："收到，谢谢提醒"
-- 建议回复："明白了，我会注意的"
+function throwIfCancelled(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new CancelledError();
+  }
+}
 
-只有使用这个格式，系统才能自动将建议内容复制到用户的粘贴板中，方便用户直接粘贴使用。`;
+class SessionManager {
+  private sessions: Map<string, Session> = new Map();
+  private provider: LLMProvider | null = null;
+  private knowledge: string = '';
+  private personas: Persona[] = DEFAULT_PERSONAS;
+  private defaultPersonaId: string = DEFAULT_PERSONA_ID;
+  private defaultModel: string = '';
+  private fallbackRules: FallbackRule[] = DEFAULT_FALLBACK_RULES;
+  private toolConcurrency: number = DEFAULT_TOOL_CONCURRENCY;
+  private loopBudget: LoopBudget = DEFAULT_LOOP_BUDGET;
+  private runningRequests: Map<string, { controller: AbortController; done: Promise<void> }> = new Map(); // 进行中的请求
+  private outsideGrants: Map<string, string[]> = new Map(); // 各会话中用户允许访问的工作区外路径
+  private ocrJobs: Map<string, Promise<void>> = new Map(); // 进行中的图片识别（按消息 id），多轮对话共用同一次识别
+
+  constructor() {
+    // 内置工具中依赖会话状态的操作由 SessionManager 提供
+    registerBuiltinTools({
+      authorizePath: (sessionId, inputPath) => this.authorizePath(sessionId, inputPath),
+      confirm: (title, message, detail) => this.confirmWithUser(title, message, detail),
+      executeCommand: (context, command, cwd) => this.executeCommand(context, command, cwd),
+      executeFileEdit: (context, toolName, args) => this.executeFileEdit(context, toolName, args),
+      executeOcrImage: (context, args) => this.executeOcrImage(context, args),
+    });
+  }
 
-    if (this.knowledge) {
-      this.systemPrompt += `\n\n**背景知识**\n${this.knowledge}`;
-    }
+  async initialize(apiKey: string, options: SessionManagerOptions = {}) {
+    this.provider = createProvider(options.provider || DEFAULT_PROVIDER, apiKey);
+    this.knowledge = options.knowledge || '';
+    this.defaultModel = options.defaultModel || '';
+    this.fallbackRules = options.fallbackRules?.length ? options.fallbackRules : DEFAULT_FALLBACK_RULES;
+    this.toolConcurrency = options.toolConcurrency || DEFAULT_TOOL_CONCURRENCY;
+    this.loopBudget = { ...DEFAULT_LOOP_BUDGET, ...options.loopBudget };
+    
+    this.personas = options.personas?.length ? options.personas : DEFAULT_PERSONAS;
+    this.defaultPersonaId = options.defaultPersonaId || DEFAULT_PERSONA_ID;
+    workspaceSandbox.configure(options.workspace);
 
     logger.info('✅ SessionManager initialized');
   }
@@ -174,18 +205,22 @@ class SessionManager {
     imageCount: number
   ) {
     const session = this.sessions.get(sessionId);
-    if (!session || !this.client) {
-      logger.error(`❌ Session not found or client not initialized: ${sessionId}`);
+    if (!session || !this.provider) {
+      logger.error(`❌ Session not found or provider not initialized: ${sessionId}`);
       return;
     }
 
-    // 更新会话状态
-    session.status = 'running';
-    session.messages = messages;
+    if (this.runningRequests.has(sessionId)) {
+      logger.warn(`⚠️ Session ${sessionId} is already running, cancelling previous request`);
+      await this.cancelSession(sessionId);
+    }
+
+    messages.forEach(msg => this.appendMessage(session, msg));
     session.currentResponse = '';
-    session.updatedAt = Date.now();
     session.userMessage = userMessage;
     session.imageCount = imageCount;
+    session.loopUsage = createLoopUsage();
+    session.budgetExhausted = undefined;
 
     // 自动命名（使用第一条用户消息）
     if (session.name === '新对话' && userMessage) {
@@ -194,14 +229,67 @@ class SessionManager {
         : userMessage;
     }
 
+    await this.runTracked(session);
+  }
+
+  /**
+   * 继续因循环预算耗尽而暂停的会话
+   * 重置预算用量后从中断处继续工具调用循环
+   */
+  async continueSession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session || !this.provider) {
+      logger.error(`❌ Session not found or provider not initialized: ${sessionId}`);
+      return false;
+    }
+
+    if (!session.budgetExhausted || this.runningRequests.has(sessionId)) {
+      logger.warn(`⚠️ Session ${sessionId} cannot be continued`);
+      return false;
+    }
+
+    logger.info(`▶️ Continuing session: ${sessionId}`);
+    session.budgetExhausted = undefined;
+    session.loopUsage = createLoopUsage();
+
+    await this.runTracked(session);
+    return true;
+  }
+
+  // 执行请求并登记取消控制器
+  private async runTracked(session: Session) {
+    const sessionId = session.id;
+    const controller = new AbortController();
+    const done = this.runAIRequest(session, controller.signal);
+    this.runningRequests.set(sessionId, { controller, done });
+
+    try {
+      await done;
+    } finally {
+      if (this.runningRequests.get(sessionId)?.done === done) {
+        this.runningRequests.delete(sessionId);
+      }
+    }
+  }
+
+  private async runAIRequest(session: Session, signal: AbortSignal) {
+    const sessionId = session.id;
+
+    // 更新会话状态
+    session.status = 'running';
+    session.updatedAt = Date.now();
+
     this.notifyWindows(sessionId, {
       type: 'status',
       status: 'running',
     });
 
     try {
+      // 识别附带图片中的文字
+      await this.recognizeAttachedImages(session, signal);
+
       // 开始 AI 请求循环（支持工具调用）
-      await this.processAIRequest(sessionId);
+      await this.processAIRequest(sessionId, signal);
 
       // 完成
       session.status = 'completed';
@@ -210,6 +298,7 @@ class SessionManager {
       logger.info(`✅ AI request completed for session: ${sessionId}`);
 
       // 通知完成
+      this.notifyPathChanged(sessionId);
       this.notifyWindows(sessionId, {
         type: 'completed',
         response: session.currentResponse,
@@ -220,12 +309,27 @@ class SessionManager {
       await this.reportSession(sessionId);
 
     } catch (error: any) {
+      if (signal.aborted) {
+        logger.info(`🛑 AI request cancelled for session: ${sessionId}`);
+
+        session.status = 'cancelled';
+        session.updatedAt = Date.now();
+
+        this.notifyPathChanged(sessionId);
+        this.notifyWindows(sessionId, {
+          type: 'cancelled',
+          response: session.currentResponse,
+        });
+        return;
+      }
+
       logger.error(`❌ AI request failed for session ${sessionId}:`, error);
       
       session.status = 'error';
       session.error = error.message;
       session.updatedAt = Date.now();
 
+      this.notifyPathChanged(sessionId);
       this.notifyWindows(sessionId, {
         type: 'error',
         error: error.message,
@@ -249,200 +353,377 @@ class SessionManager {
     }
   }
 
+  // 按模型限制规划上下文，发生裁剪时通知窗口
+  private planContextForModel(sessionId: string, model: string, chatMessages: any[]): any[] {
+    const plan = planContext(chatMessages, getModelLimits(model));
+    if (plan.trimmed) {
+      const message = describeContextPlan(plan.stats);
+      logger.warn(`✂️ Context trimmed for ${model}: ${plan.stats.originalTokens} → ${plan.stats.plannedTokens} tokens (target ${plan.stats.targetTokens})`);
+      this.notifyWindows(sessionId, {
+        type: 'context-trimmed',
+        model,
+        message,
+        stats: plan.stats,
+      });
+    }
+    return plan.messages;
+  }
+
   /**
    * 带模型降级机制的 API 调用
-   * 当请求模型失败时，自动降级到下一个更低级的模型
+   * 按错误类别决定处理方式：限流时等待后重试同一模型，请求错误直接报错，服务端错误切换到下一个模型
    * @param chatMessages 聊天消息
    * @param sessionId 会话ID
-   * @param startModelIndex 起始模型索引（默认0，即最高级模型）
+   * @param signal 取消信号
    */
   private async callAPIWithFallback(
     chatMessages: any[],
     sessionId: string,
-    startModelIndex: number = 0
-  ): Promise<AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>> {
-    let lastError: Error | null = null;
-    
-    // 遍历模型队列，从startModelIndex开始
-    for (let i = startModelIndex; i < this.MODEL_FALLBACK_QUEUE.length; i++) {
-      const model = this.MODEL_FALLBACK_QUEUE[i];
-      
-      try {
-        logger.info(`🚀 Trying model: ${model} (${i + 1}/${this.MODEL_FALLBACK_QUEUE.length})`);
-        
-        // 动态获取所有工具（本地 + MCP）
-        console.log('🎯 [sessionManager] 准备调用 getAllTools()...');
-        const allTools = await getAllTools();
-        console.log(`📦 [sessionManager] getAllTools() 返回了 ${allTools.length} 个工具`);
-        logger.info(`📦 Using ${allTools.length} tools (local + MCP)`);
-        
-        // 调用 API
-        const stream = await this.client!.chat.completions.create({
-          model: model,
-          messages: chatMessages,
-          stream: true,
-          tools: allTools,
-          tool_choice: 'auto'
-        });
-        
-        // 检查流的第一个chunk是否包含错误
-        // 需要先读取第一个chunk来验证
-        const iterator = stream[Symbol.asyncIterator]();
-        const firstResult = await iterator.next();
-        
-        if (firstResult.done) {
-          throw new Error('Stream ended without any data');
-        }
-        
-        const firstChunk = firstResult.value;
-        
-        // 检查第一个chunk是否包含错误信息
-        const chunkStr = JSON.stringify(firstChunk);
-        if (chunkStr.includes('error') || 
-            chunkStr.includes('HTTP_STATUS') || 
-            chunkStr.includes('TOO_MANY_REQUESTS') ||
-            chunkStr.includes('Throttling') ||
-            chunkStr.includes('AllocationQuota')) {
-          logger.error(`❌ Error detected in stream response: ${chunkStr.substring(0, 300)}`);
-          throw new Error(`API returned error: ${chunkStr.substring(0, 100)}`);
-        }
-        
-        // 创建一个新的异步迭代器，包含第一个chunk和剩余的chunk
-        const streamWrapper = (async function* () {
-          // 先yield第一个chunk
-          yield firstChunk;
-          // 然后yield剩余的chunk
-          for await (const chunk of { [Symbol.asyncIterator]: () => iterator }) {
-            yield chunk;
+    signal: AbortSignal
+  ): Promise<AsyncIterable<ChatStreamChunk>> {
+    const provider = this.provider!;
+    const models = resolveModelChain(provider.config.models, this.getPreferredModel(sessionId));
+
+    if (models.length === 0) {
+      throw new Error('No models available');
+    }
+
+    // 动态获取所有工具（本地 + MCP）
+    console.log('🎯 [sessionManager] 准备调用 getAllTools()...');
+    const allTools = await getAllTools();
+    console.log(`📦 [sessionManager] getAllTools() 返回了 ${allTools.length} 个工具`);
+
+    for (let i = 0; i < models.length; i++) {
+      const model = models[i];
+      let attempt = 0;
+
+      while (true) {
+        try {
+          logger.info(`🚀 Trying model: ${model} (${i + 1}/${models.length}) via ${provider.config.name}`);
+          const plannedMessages = this.planContextForModel(sessionId, model, chatMessages);
+          return await this.openStream(provider, model, plannedMessages, allTools, signal);
+        } catch (error: any) {
+          // 用户取消时不再降级
+          throwIfCancelled(signal);
+
+          const classified = classifyError(error);
+          const rule = findFallbackRule(this.fallbackRules, classified.errorClass);
+          logger.error(`❌ Model ${model} failed [${classified.errorClass}${classified.status ? ` ${classified.status}` : ''}]:`, classified.message);
+
+          if (rule.action === 'stop') {
+            throw error;
           }
-        })();
-        
-        logger.info(`✅ API call successful with model: ${model}`);
-        return streamWrapper;
-        
-      } catch (error: any) {
-        lastError = error;
-        logger.error(`❌ Model ${model} failed:`, error.message);
-        
-        // 如果还有更低级的模型，进行降级
-        if (i < this.MODEL_FALLBACK_QUEUE.length - 1) {
-          const nextModel = this.MODEL_FALLBACK_QUEUE[i + 1];
-          const message = `✅ 模型 ${model} 请求失败，本轮对话自动切换到同级别模型：${nextModel}`;
-          logger.warn(message);
-          
-          // 立即通知前端显示降级信息
-          this.notifyWindows(sessionId, {
-            type: 'model-downgrade',
-            failedModel: model,
-            currentModel: nextModel,
-            modelIndex: i + 1,
-            totalModels: this.MODEL_FALLBACK_QUEUE.length,
-            message: message,
-            error: error.message,
-          });
-          
-          // 短暂延迟后尝试下一个模型
-          logger.warn(`⏬ Will try next model in 2 seconds...`);
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } else {
+
+          if (rule.action === 'retry' && attempt < (rule.maxRetries ?? 0)) {
+            attempt++;
+            const delay = classified.retryAfterMs ?? rule.retryDelayMs ?? 2000;
+            const message = `模型 ${model} 请求受限，${Math.ceil(delay / 1000)} 秒后重试（${attempt}/${rule.maxRetries}）`;
+            logger.warn(message);
+
+            this.notifyWindows(sessionId, {
+              type: 'model-retry',
+              model,
+              attempt,
+              maxRetries: rule.maxRetries,
+              delayMs: delay,
+              message,
+              error: classified.message,
+            });
+
+            await sleep(delay, signal);
+            continue;
+          }
+
+          // 切换到下一个模型
+          if (i < models.length - 1) {
+            const nextModel = models[i + 1];
+            const message = `✅ 模型 ${model} 请求失败，本轮对话自动切换到同级别模型：${nextModel}`;
+            logger.warn(message);
+
+            // 立即通知前端显示降级信息
+            this.notifyWindows(sessionId, {
+              type: 'model-downgrade',
+              failedModel: model,
+              currentModel: nextModel,
+              modelIndex: i + 1,
+              totalModels: models.length,
+              message: message,
+              error: classified.message,
+            });
+            break;
+          }
+
           // 所有模型都失败了
-          logger.error(`❌ All ${this.MODEL_FALLBACK_QUEUE.length} models failed`);
-          
+          logger.error(`❌ All ${models.length} models failed`);
+
           // 通知前端所有模型都失败
           this.notifyWindows(sessionId, {
             type: 'all-models-failed',
-            error: error.message,
+            error: classified.message,
           });
-          
-          throw new Error(`所有${this.MODEL_FALLBACK_QUEUE.length}个模型都调用失败。最后错误: ${error.message}`);
+
+          throw new Error(`所有${models.length}个模型都调用失败。最后错误: ${classified.message}`);
         }
       }
     }
-    
-    throw lastError || new Error('No models available');
+
+    throw new Error('No models available');
+  }
+
+  /**
+   * 发起流式请求并读取第一个 chunk
+   * 部分网关在流建立后才返回错误，这里提前读取以便触发降级
+   */
+  private async openStream(
+    provider: LLMProvider,
+    model: string,
+    chatMessages: any[],
+    tools: any[],
+    signal: AbortSignal
+  ): Promise<AsyncIterable<ChatStreamChunk>> {
+    const stream = await provider.streamChat({
+      model: model,
+      messages: chatMessages,
+      tools,
+      signal,
+    });
+
+    const iterator = stream[Symbol.asyncIterator]();
+    const firstResult = await iterator.next();
+
+    if (firstResult.done) {
+      throw new Error('Stream ended without any data');
+    }
+
+    const firstChunk = firstResult.value;
+
+    // 创建一个新的异步迭代器，包含第一个chunk和剩余的chunk
+    const streamWrapper = (async function* () {
+      yield firstChunk;
+      for await (const chunk of { [Symbol.asyncIterator]: () => iterator }) {
+        yield chunk;
+      }
+    })();
+
+    logger.info(`✅ API call successful with model: ${model}`);
+    return streamWrapper;
+  }
+
+  /**
+   * 获取会话首选模型：会话指定的模型优先，其次为全局默认模型（需在当前提供方的模型列表中）
+   */
+  private getPreferredModel(sessionId: string): string | undefined {
+    const models = this.provider?.config.models || [];
+    const sessionModel = this.sessions.get(sessionId)?.model;
+    if (sessionModel && models.includes(sessionModel)) {
+      return sessionModel;
+    }
+    return models.includes(this.defaultModel) ? this.defaultModel : undefined;
+  }
+
+  // 设置会话使用的模型（空字符串表示使用默认模型）
+  setSessionModel(sessionId: string, model: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    session.model = model || undefined;
+    session.updatedAt = Date.now();
+    logger.info(`🤖 Session ${sessionId} model set to: ${model || '(default)'}`);
+    return true;
+  }
+
+  // 设置会话使用的人设（空字符串表示使用默认人设）
+  setSessionPersona(sessionId: string, personaId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    session.personaId = personaId || undefined;
+    session.updatedAt = Date.now();
+    logger.info(`🎭 Session ${sessionId} persona set to: ${personaId || '(default)'}`);
+    return true;
+  }
+
+  // 设置会话工作目录（必须是工作区内的目录，空字符串表示使用默认目录）
+  async setSessionCwd(sessionId: string, cwd: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    if (cwd) {
+      const checked = await workspaceSandbox.check(cwd);
+      if (!checked.root) {
+        throw new Error(`工作目录必须位于工作区内：${checked.path}`);
+      }
+      const stat = await fs.promises.stat(checked.path).catch(() => null);
+      if (!stat?.isDirectory()) {
+        throw new Error(`目录不存在：${checked.path}`);
+      }
+      session.cwd = checked.path;
+    } else {
+      session.cwd = undefined;
+    }
+
+    session.updatedAt = Date.now();
+    logger.info(`📁 Session ${sessionId} cwd set to: ${session.cwd || '(default)'}`);
+    return true;
+  }
+
+  // 获取工作区目录和会话的实际工作目录
+  getWorkspace(sessionId?: string): { roots: string[]; cwd: string } {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    return {
+      roots: workspaceSandbox.getRoots(),
+      cwd: this.getSessionCwd(session),
+    };
+  }
+
+  private getSessionCwd(session?: Session): string {
+    return session?.cwd || workspaceSandbox.getDefaultCwd();
+  }
+
+  // 获取人设列表
+  getPersonas(): { personas: Persona[]; defaultPersonaId: string } {
+    return {
+      personas: this.personas.map(p => ({ ...p })),
+      defaultPersonaId: findPersona(this.personas, this.defaultPersonaId).id,
+    };
+  }
+
+  // 渲染会话的系统提示词（每次请求时渲染，保证日期等变量是最新的）
+  private renderSystemPrompt(session: Session): string {
+    const persona = findPersona(this.personas, session.personaId || this.defaultPersonaId);
+    return renderPromptTemplate(persona.template, buildPromptVariables({
+      knowledge: this.knowledge,
+      workspaceRoots: workspaceSandbox.getRoots(),
+      cwd: this.getSessionCwd(session),
+    }));
+  }
+
+  // 获取当前提供方的可用模型
+  getAvailableModels(): { models: string[]; defaultModel: string } {
+    const models = this.provider?.config.models || [];
+    return {
+      models: [...models],
+      defaultModel: models.includes(this.defaultModel) ? this.defaultModel : (models[0] || ''),
+    };
   }
 
   // 处理 AI 请求（支持工具调用循环）
-  private async processAIRequest(sessionId: string, maxDepth: number = 5): Promise<void> {
+  private async processAIRequest(sessionId: string, signal: AbortSignal): Promise<void> {
     const session = this.sessions.get(sessionId);
-    if (!session || !this.client) {
-      throw new Error('Session not found or client not initialized');
+    if (!session || !this.provider) {
+      throw new Error('Session not found or provider not initialized');
     }
 
-    if (maxDepth <= 0) {
-      logger.warn(`⚠️ Max tool call depth reached for session: ${sessionId}`);
+    const loopUsage = session.loopUsage || (session.loopUsage = createLoopUsage());
+
+    // 检查循环预算
+    const exhausted = checkLoopBudget(this.loopBudget, loopUsage);
+    if (exhausted) {
+      logger.warn(`⏸️ Loop budget exhausted for session ${sessionId}: ${exhausted.message}`);
+      session.budgetExhausted = exhausted;
+
+      this.notifyWindows(sessionId, {
+        type: 'loop-budget-exhausted',
+        reason: exhausted.reason,
+        message: exhausted.message,
+        usage: exhausted.usage,
+        budget: this.loopBudget,
+      });
       return;
     }
 
+    // 历史过长时先压缩较早的对话
+    await this.updateSummary(session, signal);
+
     // 构建消息
     const chatMessages: any[] = this.buildChatMessages(session);
 
-    logger.info(`🚀 Processing AI request for session: ${sessionId} (depth: ${6 - maxDepth})`);
+    logger.info(`🚀 Processing AI request for session: ${sessionId} (round: ${loopUsage.toolRounds + 1})`);
     logger.info(`   Messages: ${chatMessages.length}`);
 
     // 调用 API（带模型降级机制）
-    const stream = await this.callAPIWithFallback(chatMessages, sessionId);
+    const stream = await this.callAPIWithFallback(chatMessages, sessionId, signal);
 
     // 处理流式响应
     let currentToolCalls: any[] = [];
     let hasContent = false;
+    let roundTokens = 0;
 
-    for await (const chunk of stream) {
-      const delta = chunk.choices[0]?.delta;
-
-      // 处理工具调用
-      if (delta.tool_calls) {
-        for (const toolCallDelta of delta.tool_calls) {
-          const index = toolCallDelta.index;
-
-          if (!currentToolCalls[index]) {
-            currentToolCalls[index] = {
-              id: toolCallDelta.id || '',
-              type: 'function',
-              function: {
-                name: toolCallDelta.function?.name || '',
-                arguments: ''
-              }
-            };
-          }
+    try {
+      for await (const chunk of stream) {
+        // 处理工具调用
+        if (chunk.toolCalls) {
+          for (const toolCallDelta of chunk.toolCalls) {
+            const index = toolCallDelta.index;
+
+            if (!currentToolCalls[index]) {
+              currentToolCalls[index] = {
+                id: toolCallDelta.id || '',
+                type: 'function',
+                function: {
+                  name: toolCallDelta.name || '',
+                  arguments: ''
+                }
+              };
+            }
 
-          // 累积参数
-          if (toolCallDelta.function?.arguments) {
-            currentToolCalls[index].function.arguments += toolCallDelta.function.arguments;
+            // 累积参数
+            if (toolCallDelta.arguments) {
+              currentToolCalls[index].function.arguments += toolCallDelta.arguments;
+            }
           }
         }
-      }
 
-      // 处理文本内容
-      if (delta.content) {
-        hasContent = true;
-        session.currentResponse += delta.content;
-        session.updatedAt = Date.now();
+        // 处理文本内容
+        if (chunk.content) {
+          hasContent = true;
+          const offset = session.currentResponse.length;
+          session.currentResponse += chunk.content;
+          session.updatedAt = Date.now();
 
-        // 通知窗口
-        this.notifyWindows(sessionId, {
-          type: 'chunk',
+          // 通知窗口（只推送增量，offset 为增量在 currentResponse 中的起始位置）
+          this.notifyWindows(sessionId, {
+            type: 'chunk',
+            offset,
+            delta: chunk.content,
+          });
+        }
+
+        // 提取 usage 信息
+        if (chunk.usage) {
+          session.usage = chunk.usage;
+          roundTokens = chunk.usage.total_tokens;
+        }
+      }
+      throwIfCancelled(signal);
+    } catch (error) {
+      loopUsage.tokens += roundTokens;
+      // 取消时保存已生成的部分回复
+      if (signal.aborted && hasContent) {
+        this.appendMessage(session, {
+          id: createMessageId(),
+          role: 'assistant',
           content: session.currentResponse,
+          timestamp: Date.now(),
+          cancelled: true,
         });
       }
-
-      // 提取 usage 信息
-      if (chunk.usage) {
-        session.usage = {
-          prompt_tokens: chunk.usage.prompt_tokens || 0,
-          completion_tokens: chunk.usage.completion_tokens || 0,
-          total_tokens: chunk.usage.total_tokens || 0,
-        };
-      }
+      throw signal.aborted ? new CancelledError() : error;
     }
 
+    loopUsage.tokens += roundTokens;
+
     // 检查是否有工具调用
     if (currentToolCalls.length > 0) {
       logger.info(`🔧 AI requested ${currentToolCalls.length} tool calls`);
 
       // 添加 assistant 消息（包含工具调用）
-      session.messages.push({
-        id: `msg-${Date.now()}`,
+      this.appendMessage(session, {
+        id: createMessageId(),
         role: 'assistant',
         content: session.currentResponse || null,
         tool_calls: currentToolCalls,
@@ -450,14 +731,16 @@ class SessionManager {
       });
 
       // 执行工具调用
-      await this.executeToolCalls(sessionId, currentToolCalls);
+      await this.executeToolCalls(sessionId, currentToolCalls, signal);
+      throwIfCancelled(signal);
+      loopUsage.toolRounds++;
 
       // 递归继续 AI 请求
-      await this.processAIRequest(sessionId, maxDepth - 1);
+      await this.processAIRequest(sessionId, signal);
     } else if (hasContent) {
       // 没有工具调用，只有文本内容
-      session.messages.push({
-        id: `msg-${Date.now()}`,
+      this.appendMessage(session, {
+        id: createMessageId(),
         role: 'assistant',
         content: session.currentResponse,
         timestamp: Date.now(),
@@ -465,16 +748,260 @@ class SessionManager {
     }
   }
 
+  // 追加消息到当前激活分支末尾
+  private appendMessage(session: Session, message: SessionMessage) {
+    message.parentId = session.activeLeafId ?? null;
+    session.messages.push(message);
+    session.activeLeafId = message.id;
+  }
+
+  // 获取当前激活分支上的消息
+  private getActiveMessages(session: Session): SessionMessage[] {
+    return getPathTo(session.messages, session.activeLeafId);
+  }
+
+  // 获取当前激活分支（附带分支位置，用于界面展示）
+  getActivePath(sessionId: string): BranchedMessage<SessionMessage>[] {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return [];
+    }
+    return withBranchInfo(session.messages, this.getActiveMessages(session));
+  }
+
+  // 通知窗口激活分支已变化
+  private notifyPathChanged(sessionId: string) {
+    this.notifyWindows(sessionId, {
+      type: 'path-changed',
+      messages: this.getActivePath(sessionId),
+    });
+  }
+
+  /**
+   * 编辑用户消息：创建一个兄弟分支并重新生成回复
+   * 原消息之后紧跟的附件消息（截图等）会一并复制到新分支
+   */
+  async editMessage(sessionId: string, messageId: string, content: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    const original = session?.messages.find(msg => msg.id === messageId);
+    if (!session || !original || original.role !== 'user' || typeof original.content !== 'string') {
+      logger.warn(`⚠️ Cannot edit message ${messageId} in session ${sessionId}`);
+      return false;
+    }
+
+    if (this.runningRequests.has(sessionId)) {
+      await this.cancelSession(sessionId);
+    }
+
+    // 收集激活分支上紧跟在原消息后的附件消息
+    const activePath = this.getActiveMessages(session);
+    const attachments: SessionMessage[] = [];
+    for (let i = activePath.findIndex(msg => msg.id === messageId) + 1; i < activePath.length; i++) {
+      if (activePath[i].role !== 'user') break;
+      attachments.push(activePath[i]);
+    }
+
+    logger.info(`✏️ Editing message ${messageId} in session ${sessionId}`);
+    session.activeLeafId = original.parentId ?? undefined;
+    this.appendMessage(session, {
+      ...original,
+      id: createMessageId('user'),
+      content,
+      timestamp: Date.now(),
+    });
+    attachments.forEach(attachment => this.appendMessage(session, {
+      ...attachment,
+      id: createMessageId('user'),
+      timestamp: Date.now(),
+    }));
+
+    session.userMessage = content;
+    await this.restartFromActiveLeaf(session);
+    return true;
+  }
+
+  /**
+   * 重新生成助手回复：从回复前最近的用户消息处创建新分支
+   */
+  async regenerateMessage(sessionId: string, messageId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    const path = getPathTo(session.messages, messageId);
+    const anchorIndex = path.map(msg => msg.role).lastIndexOf('user');
+    if (path.length === 0 || anchorIndex === -1) {
+      logger.warn(`⚠️ Cannot regenerate message ${messageId} in session ${sessionId}`);
+      return false;
+    }
+
+    if (this.runningRequests.has(sessionId)) {
+      await this.cancelSession(sessionId);
+    }
+
+    logger.info(`🔄 Regenerating reply from message ${path[anchorIndex].id} in session ${sessionId}`);
+    session.activeLeafId = path[anchorIndex].id;
+    await this.restartFromActiveLeaf(session);
+    return true;
+  }
+
+  /**
+   * 切换到相邻的兄弟分支（沿最新的子消息走到叶子节点）
+   * @param messageId 当前分支上的消息
+   * @param offset 兄弟分支偏移（-1 上一个，1 下一个）
+   */
+  switchBranch(sessionId: string, messageId: string, offset: number): BranchedMessage<SessionMessage>[] {
+    const session = this.sessions.get(sessionId);
+    const message = session?.messages.find(msg => msg.id === messageId);
+    if (!session || !message) {
+      return [];
+    }
+    if (this.runningRequests.has(sessionId)) {
+      logger.warn(`⚠️ Session ${sessionId} is running, cannot switch branch`);
+      return this.getActivePath(sessionId);
+    }
+
+    const siblings = getChildren(session.messages, message.parentId ?? null);
+    const target = siblings[siblings.findIndex(msg => msg.id === messageId) + offset];
+    if (!target) {
+      return this.getActivePath(sessionId);
+    }
+
+    session.activeLeafId = findLatestLeaf(session.messages, target.id);
+    session.updatedAt = Date.now();
+    logger.info(`🌿 Switched session ${sessionId} to branch ${target.id}`);
+
+    this.notifyPathChanged(sessionId);
+    return this.getActivePath(sessionId);
+  }
+
+  // 从当前激活分支末尾重新开始 AI 请求
+  private async restartFromActiveLeaf(session: Session) {
+    session.currentResponse = '';
+    session.loopUsage = createLoopUsage();
+    session.budgetExhausted = undefined;
+    session.updatedAt = Date.now();
+
+    this.notifyPathChanged(session.id);
+    await this.runTracked(session);
+  }
+
+  // 获取激活分支上的有效摘要及其之后未被摘要的消息
+  private getSummaryState(session: Session): { summary?: ConversationSummary; messages: SessionMessage[] } {
+    const path = this.getActiveMessages(session);
+    const summary = session.summary;
+    const index = summary ? path.findIndex(msg => msg.id === summary.upToMessageId) : -1;
+
+    // 摘要不在当前分支上（例如切换到了更早的分支）时视为无效
+    if (!summary || index < 0) {
+      return { messages: path };
+    }
+    return { summary, messages: path.slice(index + 1) };
+  }
+
+  // 未摘要的历史超出预算时，将较早的消息合并进滚动摘要
+  private async updateSummary(session: Session, signal: AbortSignal): Promise<void> {
+    const { summary, messages } = this.getSummaryState(session);
+
+    // 触发阈值不超过当前模型历史预算的一半
+    const model = this.getPreferredModel(session.id) || this.provider?.config.models[0] || '';
+    const toSummarize = selectMessagesToSummarize(messages, {
+      ...DEFAULT_SUMMARY_OPTIONS,
+      triggerTokens: Math.min(DEFAULT_SUMMARY_OPTIONS.triggerTokens, Math.floor(getTargetTokens(getModelLimits(model)) / 2)),
+    });
+    if (toSummarize.length === 0) {
+      return;
+    }
+
+    logger.info(`📝 Summarizing ${toSummarize.length} earlier messages for session ${session.id}`);
+    const content = await this.requestSummary(session, summary?.content, toSummarize, signal);
+    if (!content) {
+      return;
+    }
+
+    const covered = this.getActiveMessages(session);
+    const upToMessageId = toSummarize[toSummarize.length - 1].id;
+    session.summary = {
+      content,
+      upToMessageId,
+      messageCount: covered.findIndex(msg => msg.id === upToMessageId) + 1,
+      updatedAt: Date.now(),
+    };
+
+    this.notifyWindows(session.id, {
+      type: 'summary-updated',
+      summary: session.summary,
+    });
+  }
+
+  // 调用模型生成摘要，所有模型都失败时返回 null（本轮按原始历史发送）
+  private async requestSummary(
+    session: Session,
+    previousSummary: string | undefined,
+    messages: SessionMessage[],
+    signal: AbortSignal
+  ): Promise<string | null> {
+    if (!this.provider) {
+      return null;
+    }
+
+    const request = buildSummaryRequest(previousSummary, messages);
+    const models = resolveModelChain(this.provider.config.models, this.getPreferredModel(session.id));
+
+    for (const model of models) {
+      try {
+        const stream = await this.provider.streamChat({
+          model,
+          messages: request,
+          maxTokens: SUMMARY_MAX_TOKENS,
+          signal,
+        });
+
+        let content = '';
+        for await (const chunk of stream) {
+          if (chunk.content) {
+            content += chunk.content;
+          }
+          if (chunk.usage && session.loopUsage) {
+            session.loopUsage.tokens += chunk.usage.total_tokens;
+          }
+        }
+
+        if (content.trim()) {
+          logger.info(`✅ Summary generated by ${model} (${content.length} chars)`);
+          return content.trim();
+        }
+      } catch (error: any) {
+        throwIfCancelled(signal);
+        logger.warn(`⚠️ Summary with model ${model} failed:`, error.message);
+      }
+    }
+
+    logger.warn('⚠️ Failed to summarize conversation, sending full history');
+    return null;
+  }
+
   // 构建聊天消息
   private buildChatMessages(session: Session): any[] {
     const messages: any[] = [
       {
         role: 'system',
-        content: this.systemPrompt,
+        content: this.renderSystemPrompt(session),
       }
     ];
 
-    for (const msg of session.messages) {
+    // 较早的对话以摘要形式发送
+    const { summary, messages: activeMessages } = this.getSummaryState(session);
+    if (summary) {
+      messages.push({
+        role: 'system',
+        content: `以下是本次会话较早对话的摘要（原始消息已省略）：\n${summary.content}`,
+      });
+    }
+
+    // 只发送当前激活分支
+    for (const msg of activeMessages) {
       if (msg.role === 'tool') {
         // 工具调用结果
         messages.push({
@@ -493,7 +1020,7 @@ class SessionManager {
         // 普通消息
         messages.push({
           role: msg.role,
-          content: msg.content,
+          content: this.withOcrContext(msg),
         });
       }
     }
@@ -501,160 +1028,413 @@ class SessionManager {
     return messages;
   }
 
-  // 执行工具调用
-  private async executeToolCalls(sessionId: string, toolCalls: any[]): Promise<void> {
+  // 执行工具调用：只读工具并发执行，修改类工具串行执行，结果按原始顺序写入消息历史
+  private async executeToolCalls(sessionId: string, toolCalls: any[], signal: AbortSignal): Promise<void> {
     const session = this.sessions.get(sessionId);
     if (!session) return;
 
-    for (const toolCall of toolCalls) {
-      const functionName = toolCall.function.name;
-      const args = JSON.parse(toolCall.function.arguments);
+    const results = await scheduleToolCalls(toolCalls, {
+      concurrency: this.toolConcurrency,
+      isReadOnly: (toolCall) => isReadOnlyTool(toolCall.function.name),
+      run: (toolCall) => this.executeToolCall(sessionId, toolCall, signal),
+    });
 
-      logger.info(`🔧 Executing tool: ${functionName}`, args);
+    toolCalls.forEach((toolCall, index) => {
+      // 将工具调用结果添加到消息历史
+      this.appendMessage(session, {
+        id: createMessageId('tool-result'),
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: results[index].content,
+        fileEdit: results[index].fileEdit,
+        timestamp: Date.now(),
+      });
+    });
+  }
 
-      // 构建命令显示字符串
-      let commandDisplay = '';
-      switch (functionName) {
-        case 'execute_command':
-          commandDisplay = args.command;
-          break;
-        case 'read_file':
-          commandDisplay = `cat "${args.path}"`;
-          break;
-        case 'list_directory':
-          commandDisplay = args.recursive ? `ls -laR "${args.path}"` : `ls -la "${args.path}"`;
-          break;
-        case 'search_files':
-          commandDisplay = `grep -r "${args.pattern}" "${args.path}"`;
-          break;
-        case 'find_file':
-          commandDisplay = `find "${args.base_path || '~'}" -name "*${args.query}*"`;
-          break;
-        case 'smart_read':
-          commandDisplay = `smart_read "${args.query}"`;
-          break;
-        default:
-          commandDisplay = functionName;
-      }
+  // 执行单个工具调用，返回结果文本
+  private async executeToolCall(sessionId: string, toolCall: any, signal: AbortSignal): Promise<ToolCallOutcome> {
+    // 已取消：直接返回取消结果，保持消息历史完整
+    if (signal.aborted) {
+      return { content: 'Tool call cancelled by user' };
+    }
 
-      // 通知前端：开始执行命令
+    const functionName = toolCall.function.name;
+    let args: any;
+    try {
+      args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (error: any) {
+      // 参数不是合法 JSON：只让这一个调用失败，同批其他工具照常执行并返回结果
+      logger.error(`❌ Invalid tool arguments for ${functionName}:`, error);
+      const result = `Error: 工具参数不是合法的 JSON（${error.message}），请检查参数格式后重试`;
       this.notifyWindows(sessionId, {
         type: 'tool-executing',
         toolCallId: toolCall.id,
         toolName: functionName,
-        command: commandDisplay,
-        args: args,
+        command: functionName,
+        args: {},
+      });
+      this.notifyWindows(sessionId, {
+        type: 'tool-completed',
+        toolCallId: toolCall.id,
+        toolName: functionName,
+        command: functionName,
+        result,
+        status: 'failed',
       });
+      return { content: result };
+    }
 
-      // 执行工具
-      let result: string;
-      let status: 'completed' | 'failed' = 'completed';
-      try {
-        // 处理带前缀的工具名
-        let actualFunctionName = functionName;
-        let isMCPTool = false;
-        let isLocalTool = false;
-        
-        // 检查是否是MCP工具（mcp_开头）
-        if (functionName.startsWith('mcp_')) {
-          isMCPTool = true;
-        }
-        // 检查是否是本地工具（local_开头）
-        else if (functionName.startsWith('local_')) {
-          isLocalTool = true;
-          actualFunctionName = functionName.substring(6); // 移除 "local_"
-        }
-        
-        // 如果是MCP工具，直接调用mcpManager
-        if (isMCPTool) {
-          try {
-            logger.info(`🔧 Routing to MCP tool: ${functionName}`);
-            const mcpResult = await mcpManager.callTool(functionName, args);
-            result = typeof mcpResult === 'string' ? mcpResult : JSON.stringify(mcpResult, null, 2);
-          } catch (mcpError: any) {
-            result = `MCP tool error: ${mcpError.message}`;
-            status = 'failed';
-            logger.error(`❌ MCP tool failed: ${functionName}`, mcpError);
-          }
+    logger.info(`🔧 Executing tool: ${functionName}`, args);
+
+    const commandDisplay = toolRegistry.formatDisplay(functionName, args);
+
+    // 通知前端：开始执行命令
+    this.notifyWindows(sessionId, {
+      type: 'tool-executing',
+      toolCallId: toolCall.id,
+      toolName: functionName,
+      command: commandDisplay,
+      args: args,
+    });
+
+    // 执行工具
+    let result: string;
+    let status: 'completed' | 'failed' = 'completed';
+    let fileEdit: FileEditRecord | undefined;
+    try {
+      if (toolRegistry.get(functionName)) {
+        const output = await toolRegistry.execute(functionName, args, { sessionId, toolCallId: toolCall.id, signal });
+        result = output.content;
+        fileEdit = output.fileEdit;
+        if (output.failed) {
+          status = 'failed';
         }
-        // 本地工具处理
-        else {
-          switch (actualFunctionName) {
-            case 'find_file':
-              result = await this.executeFindFile(args.query, args.file_type, args.base_path, args.max_results);
-              break;
-            case 'smart_read':
-              result = await this.executeSmartRead(args.query, args.file_type, args.base_path);
-              break;
-            case 'read_file':
-              result = await this.executeReadFile(args.path);
-              break;
-            case 'list_directory':
-              result = await this.executeListDirectory(args.path, args.recursive);
-              break;
-            case 'execute_command':
-              result = await this.executeCommand(args.command, args.cwd);
-              break;
-            case 'search_files':
-              result = await this.executeSearchFiles(args.pattern, args.path, args.recursive);
-              break;
-            default:
-              // 向后兼容：检查是否是旧格式的MCP工具（包含"__"但没有mcp_前缀）
-              if (functionName.includes('__')) {
-                try {
-                  logger.info(`🔧 Routing to MCP tool (legacy format): ${functionName}`);
-                  const mcpResult = await mcpManager.callTool(functionName, args);
-                  result = typeof mcpResult === 'string' ? mcpResult : JSON.stringify(mcpResult, null, 2);
-                } catch (mcpError: any) {
-                  result = `MCP tool error: ${mcpError.message}`;
-                  status = 'failed';
-                  logger.error(`❌ MCP tool failed: ${functionName}`, mcpError);
-                }
-              } else {
-                result = `Unknown tool: ${functionName}`;
-                status = 'failed';
-              }
-              break;
-          }
+      }
+      // MCP 工具（mcp_ 前缀，或旧格式：包含 "__" 但没有前缀）
+      else if (functionName.startsWith('mcp_') || functionName.includes('__')) {
+        try {
+          logger.info(`🔧 Routing to MCP tool: ${functionName}`);
+          const mcpResult = await mcpManager.callTool(functionName, args, { signal });
+          result = typeof mcpResult === 'string' ? mcpResult : JSON.stringify(mcpResult, null, 2);
+        } catch (mcpError: any) {
+          result = `MCP tool error: ${mcpError.message}`;
+          status = 'failed';
+          logger.error(`❌ MCP tool failed: ${functionName}`, mcpError);
         }
-      } catch (error: any) {
-        result = `Error executing tool: ${error.message}`;
+      } else {
+        result = `Unknown tool: ${functionName}`;
         status = 'failed';
-        logger.error(`❌ Tool execution failed:`, error);
       }
+    } catch (error: any) {
+      result = `Error executing tool: ${error.message}`;
+      status = 'failed';
+      logger.error(`❌ Tool execution failed:`, error);
+    }
+
+    if (signal.aborted) {
+      result = fileEdit?.status === 'applied'
+        ? `${result}\n（修改已应用，随后用户取消了本轮对话）`
+        : 'Tool call cancelled by user';
+      status = 'failed';
+    } else {
+      // 超出输出预算时截断，完整输出可通过 read_tool_output 读取
+      result = await toolOutputStore.apply(sessionId, functionName, result);
+    }
 
-      logger.info(`✅ Tool executed: ${functionName}`);
+    logger.info(`✅ Tool executed: ${functionName}`);
 
-      // 通知前端：命令执行完成
-      this.notifyWindows(sessionId, {
-        type: 'tool-completed',
-        toolCallId: toolCall.id,
-        toolName: functionName,
-        command: commandDisplay,
-        result: result,
-        status: status,
-      });
+    // 通知前端：命令执行完成
+    this.notifyWindows(sessionId, {
+      type: 'tool-completed',
+      toolCallId: toolCall.id,
+      toolName: functionName,
+      command: commandDisplay,
+      result: result,
+      status: status,
+    });
 
-      // 将工具调用结果添加到消息历史
-      session.messages.push({
-        id: `tool-result-${Date.now()}`,
-        role: 'tool',
-        tool_call_id: toolCall.id,
-        content: result,
-        timestamp: Date.now(),
-      });
+    return { content: result, fileEdit };
+  }
+
+  /**
+   * 执行文件修改工具：生成 diff，等待用户确认后应用
+   */
+  private async executeFileEdit({ sessionId, toolCallId, signal }: ToolContext, toolName: string, args: any): Promise<ToolResult> {
+    let record: FileEditRecord;
+    try {
+      switch (toolName) {
+        case 'write_file':
+          record = await fileEditManager.prepareWriteFile(await this.authorizePath(sessionId, args.path), args.content ?? '');
+          break;
+        case 'edit_file':
+          record = await fileEditManager.prepareEditFile(await this.authorizePath(sessionId, args.path), args.old_string, args.new_string ?? '', args.replace_all);
+          break;
+        default:
+          record = await fileEditManager.prepareApplyPatch(args.patch, await this.authorizePath(sessionId, args.base_dir || '.'));
+          break;
+      }
+    } catch (error: any) {
+      return { content: `Error preparing ${toolName}: ${error.message}`, failed: true };
+    }
+
+    // 补丁中的每个文件都必须允许访问
+    try {
+      for (const file of record.files) {
+        await this.authorizePath(sessionId, file.path);
+      }
+    } catch (error: any) {
+      fileEditManager.discard(record.id);
+      return { content: `Error preparing ${toolName}: ${error.message}`, failed: true };
+    }
+
+    // 通知前端展示 diff，等待用户确认
+    this.notifyWindows(sessionId, {
+      type: 'file-edit-proposed',
+      toolCallId,
+      fileEdit: record,
+    });
+
+    let approved: boolean;
+    try {
+      approved = await fileEditManager.waitForDecision(record.id, signal);
+    } catch {
+      return { content: 'Tool call cancelled by user', fileEdit: { ...record, status: 'rejected' }, failed: true };
+    }
+
+    if (!approved) {
+      fileEditManager.discard(record.id);
+      const rejected: FileEditRecord = { ...record, status: 'rejected' };
+      this.notifyWindows(sessionId, { type: 'file-edit-updated', toolCallId, fileEdit: rejected });
+      return { content: '用户拒绝了这次修改，文件未改动。请询问用户希望如何调整。', fileEdit: rejected, failed: true };
+    }
+
+    try {
+      const applied = await fileEditManager.apply(record.id);
+      this.notifyWindows(sessionId, { type: 'file-edit-updated', toolCallId, fileEdit: applied });
+      const files = applied.files.map(file => `${file.action} ${file.path}`).join('\n');
+      return { content: `修改已应用：\n${files}`, fileEdit: applied };
+    } catch (error: any) {
+      const failed: FileEditRecord = { ...record, status: 'rejected' };
+      this.notifyWindows(sessionId, { type: 'file-edit-updated', toolCallId, fileEdit: failed });
+      return { content: `Error applying ${toolName}: ${error.message}`, fileEdit: failed, failed: true };
     }
   }
 
-  // 通知所有窗口
-  private notifyWindows(sessionId: string, data: any) {
-    BrowserWindow.getAllWindows().forEach(window => {
-      if (!window.isDestroyed()) {
-        window.webContents.send('session-update', {
-          sessionId,
-          ...data,
+  /**
+   * 检查工具访问的路径，返回解析后的绝对路径
+   * 工作区外的路径按配置拒绝或询问用户；用户允许后本会话内对该路径及其子路径不再询问
+   */
+  private async authorizePath(sessionId: string, inputPath: string): Promise<string> {
+    if (!inputPath) {
+      throw new Error('路径不能为空');
+    }
+
+    const session = this.sessions.get(sessionId);
+    const checked = await workspaceSandbox.check(inputPath, this.getSessionCwd(session));
+    if (checked.root) {
+      return checked.path;
+    }
+
+    const grants = this.outsideGrants.get(sessionId) || [];
+    if (grants.some(granted => isWithin(granted, checked.realPath))) {
+      return checked.path;
+    }
+
+    const roots = workspaceSandbox.getRoots().join(', ') || '（未配置）';
+    const outside = checked.realPath === checked.path ? checked.path : `${checked.path}（实际指向 ${checked.realPath}）`;
+    if (workspaceSandbox.getOutsidePolicy() === 'deny') {
+      logger.warn(`🚫 Path outside workspace rejected: ${outside}`);
+      throw new Error(`路径不在工作区内：${outside}。工作区：${roots}。如需访问，请让用户在设置中添加工作区目录`);
+    }
+
+    const allowed = await this.confirmWithUser(
+      '访问工作区外的路径',
+      `AI 请求访问工作区外的路径：\n${outside}`,
+      `当前工作区：${roots}\n允许后，本会话内访问该路径及其子路径不再询问。`
+    );
+    if (!allowed) {
+      logger.warn(`🚫 Path outside workspace denied by user: ${outside}`);
+      throw new Error(`用户拒绝访问工作区外的路径：${outside}`);
+    }
+
+    logger.info(`📁 Path outside workspace allowed for session ${sessionId}: ${checked.realPath}`);
+    this.outsideGrants.set(sessionId, [...grants, checked.realPath]);
+    return checked.path;
+  }
+
+  // 弹出确认对话框，用户点击「允许」时返回 true
+  private async confirmWithUser(title: string, message: string, detail: string): Promise<boolean> {
+    const parent = BrowserWindow.getFocusedWindow();
+    const options = {
+      type: 'warning' as const,
+      buttons: ['拒绝', '允许'],
+      defaultId: 0,
+      cancelId: 0,
+      title,
+      message,
+      detail,
+    };
+    const { response } = parent ? await dialog.showMessageBox(parent, options) : await dialog.showMessageBox(options);
+    return response === 1;
+  }
+
+  // 用户审批需要确认的命令
+  resolveApproval(approvalId: string, decision: ApprovalDecision, pattern?: string): boolean {
+    return commandApprovalManager.resolveDecision(approvalId, decision, pattern);
+  }
+
+  // 用户确认或拒绝文件修改
+  resolveFileEdit(editId: string, approved: boolean): boolean {
+    return fileEditManager.resolveDecision(editId, approved);
+  }
+
+  // 撤销工具结果消息上记录的文件修改
+  async revertFileEdit(sessionId: string, messageId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    const message = session?.messages.find(msg => msg.id === messageId);
+    if (!session || !message?.fileEdit || message.fileEdit.status !== 'applied') {
+      return false;
+    }
+
+    await fileEditManager.revert(message.fileEdit.id);
+    message.fileEdit = { ...message.fileEdit, status: 'reverted' };
+    session.updatedAt = Date.now();
+    this.notifyPathChanged(sessionId);
+    return true;
+  }
+
+  /**
+   * 识别激活分支上尚未识别的图片
+   * 需要把文字附加到消息时（当前模型不支持图片，或配置为总是附加）等待识别完成，否则在后台识别，结果只用于搜索
+   */
+  private async recognizeAttachedImages(session: Session, signal: AbortSignal): Promise<void> {
+    if (ocrEngine.getSettings().mode === 'off') {
+      return;
+    }
+    const pending = this.getActiveMessages(session).filter(msg => !msg.ocrText && getMessageImages(msg).length > 0);
+    if (pending.length === 0) {
+      return;
+    }
+
+    const status = await ocrEngine.getStatus();
+    if (!status.available) {
+      logger.warn(`⚠️ OCR unavailable: ${status.error}`);
+      return;
+    }
+
+    const recognizeAll = async () => {
+      for (const msg of pending) {
+        await this.recognizeMessageImages(msg, signal).catch(error => {
+          // 共用的识别随发起它的那一轮对话取消时，本轮未取消则重新识别
+          if (signal.aborted) throw error;
+          return this.recognizeMessageImages(msg, signal);
         });
       }
+    };
+
+    if (this.shouldAttachOcrText()) {
+      await recognizeAll();
+    } else {
+      recognizeAll().catch(error => logger.warn('⚠️ Background OCR stopped:', error.message));
+    }
+  }
+
+  // 识别单条消息中的图片；同一条消息已在识别时返回进行中的识别，不重复识别
+  private recognizeMessageImages(msg: SessionMessage, signal: AbortSignal): Promise<void> {
+    const running = this.ocrJobs.get(msg.id);
+    if (running) {
+      return running;
+    }
+
+    const job = (async () => {
+      const texts: string[] = [];
+      for (const image of getMessageImages(msg)) {
+        texts.push(await ocrEngine.recognize(image, signal).catch(error => {
+          if (signal.aborted) throw error;
+          logger.warn('⚠️ OCR failed:', error.message);
+          return '';
+        }));
+      }
+      msg.ocrText = texts;
+    })().finally(() => this.ocrJobs.delete(msg.id));
+    this.ocrJobs.set(msg.id, job);
+    return job;
+  }
+
+  // 是否把图片识别文字附加到发送给模型的消息
+  private shouldAttachOcrText(): boolean {
+    const mode = ocrEngine.getSettings().mode;
+    return mode === 'always' || (mode === 'auto' && !this.provider?.config.capabilities.vision);
+  }
+
+  // 消息内容附加图片识别文字
+  private withOcrContext(msg: SessionMessage): SessionMessage['content'] {
+    if (!msg.ocrText?.some(Boolean) || !this.shouldAttachOcrText()) {
+      return msg.content;
+    }
+    const context = formatOcrContext(msg.ocrText);
+    return Array.isArray(msg.content)
+      ? [...msg.content, { type: 'text', text: context }]
+      : `${msg.content || ''}\n\n${context}`;
+  }
+
+  /**
+   * 按关键字搜索会话名、消息文本和图片识别文字（最近更新的会话在前）
+   */
+  searchSessions(query: string, limit: number = 50): SessionSearchHit[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+      return [];
+    }
+
+    const hits: SessionSearchHit[] = [];
+    const sessions = Array.from(this.sessions.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    for (const session of sessions) {
+      for (const msg of session.messages) {
+        if (msg.role !== 'user' && msg.role !== 'assistant') continue;
+
+        const sources: Array<[SessionSearchHit['source'], string]> = [
+          ['message', getMessageText(msg)],
+          ...(msg.ocrText || []).map((text): [SessionSearchHit['source'], string] => ['ocr', text]),
+        ];
+        for (const [source, text] of sources) {
+          const index = text.toLowerCase().indexOf(needle);
+          if (index < 0) continue;
+          hits.push({
+            sessionId: session.id,
+            sessionName: session.name,
+            messageId: msg.id,
+            source,
+            snippet: makeSnippet(text, index, needle.length),
+            timestamp: msg.timestamp,
+          });
+          break;
+        }
+        if (hits.length >= limit) {
+          return hits;
+        }
+      }
+    }
+    return hits;
+  }
+
+  // 通知订阅了该会话的窗口
+  private notifyWindows(sessionId: string, data: any) {
+    sessionEventBus.publish(sessionId, data);
+  }
+
+  // 补齐窗口错过的事件（缓存不足时返回会话快照）
+  resyncSession(sessionId: string, fromSeq: number): ResyncResult {
+    return sessionEventBus.resync(sessionId, fromSeq, () => {
+      const session = this.sessions.get(sessionId);
+      return {
+        status: session?.status || 'idle',
+        currentResponse: session?.currentResponse || '',
+        messages: this.getActivePath(sessionId),
+        budgetExhausted: session?.budgetExhausted,
+        summary: session?.summary,
+      };
     });
   }
 
@@ -669,25 +1449,35 @@ class SessionManager {
       .sort((a, b) => b.updatedAt - a.updatedAt);
   }
 
-  // 取消会话
-  cancelSession(sessionId: string): boolean {
+  // 取消会话：中止流式请求、子进程和 MCP 调用，等待请求真正结束后返回
+  async cancelSession(sessionId: string): Promise<boolean> {
+    const running = this.runningRequests.get(sessionId);
+    if (!running) {
+      return false;
+    }
+
     logger.info(`🛑 Cancelling session: ${sessionId}`);
-    this.cancelFlags.set(sessionId, true);
-    
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.status = 'completed';
-      session.updatedAt = Date.now();
+    running.controller.abort();
+
+    try {
+      await running.done;
+    } catch {
+      // 错误已在 runAIRequest 中处理
     }
-    
+
+    logger.info(`✅ Session cancelled: ${sessionId}`);
     return true;
   }
   
   // 删除会话
   deleteSession(sessionId: string): boolean {
+    this.runningRequests.get(sessionId)?.controller.abort();
     const deleted = this.sessions.delete(sessionId);
+    sessionEventBus.clear(sessionId);
+    toolOutputStore.deleteSession(sessionId).catch(error => {
+      logger.error('❌ Failed to delete tool outputs:', error);
+    });
     if (deleted) {
-      this.cancelFlags.delete(sessionId);
       logger.info(`🗑️ Deleted session: ${sessionId}`);
     }
     return deleted;
@@ -767,54 +1557,18 @@ class SessionManager {
   // 清空所有会话
   clearAllSessions() {
     this.sessions.clear();
+    toolOutputStore.prune([]).catch(error => {
+      logger.error('❌ Failed to delete tool outputs:', error);
+    });
     logger.info('🗑️ Cleared all sessions');
   }
 
   // ========== 工具调用相关方法 ==========
 
-  /**
-   * 执行 read_file 工具
-   */
-  private async executeReadFile(path: string): Promise<string> {
-    try {
-      logger.info(`📖 Reading file: ${path}`);
-      const result = await commandExecutor.execute(`cat "${path}"`);
-      
-      if (result.exitCode !== 0) {
-        return `Error reading file: ${result.stderr || 'Unknown error'}`;
-      }
-      
-      return result.stdout || '';
-    } catch (error: any) {
-      logger.error(`❌ Failed to read file ${path}:`, error);
-      return `Error reading file: ${error.message}`;
-    }
-  }
-
-  /**
-   * 执行 list_directory 工具
-   */
-  private async executeListDirectory(path: string, recursive: boolean = false): Promise<string> {
-    try {
-      logger.info(`📂 Listing directory: ${path} (recursive: ${recursive})`);
-      const cmd = recursive ? `ls -laR "${path}"` : `ls -la "${path}"`;
-      const result = await commandExecutor.execute(cmd);
-      
-      if (result.exitCode !== 0) {
-        return `Error listing directory: ${result.stderr || 'Unknown error'}`;
-      }
-      
-      return result.stdout || '';
-    } catch (error: any) {
-      logger.error(`❌ Failed to list directory ${path}:`, error);
-      return `Error listing directory: ${error.message}`;
-    }
-  }
-
   /**
    * 执行 execute_command 工具
    */
-  private async executeCommand(command: string, cwd?: string): Promise<string> {
+  private async executeCommand({ sessionId, toolCallId, signal }: ToolContext, command: string, cwd: string): Promise<string> {
     try {
       logger.info(`⚡ Executing command: ${command}`);
       
@@ -824,8 +1578,31 @@ class SessionManager {
         logger.warn(`🚫 Command rejected: ${command}`);
         return `Command rejected for security reasons: ${security.reason}`;
       }
+
+      // 需要确认的命令：未被已记住的规则允许时，暂停并等待用户审批
+      if (security.needsConfirm && !commandApprovalManager.isAllowed(command)) {
+        const approval = commandApprovalManager.createRequest(command, cwd, security);
+        this.notifyWindows(sessionId, { type: 'approval-required', toolCallId, approval });
+
+        let decision: ApprovalDecision | 'timeout';
+        try {
+          decision = await commandApprovalManager.waitForDecision(approval.id, signal);
+        } finally {
+          this.notifyWindows(sessionId, { type: 'approval-resolved', toolCallId, approvalId: approval.id });
+        }
+
+        if (decision === 'timeout') {
+          logger.warn(`⏰ Command approval timed out: ${command}`);
+          return '等待用户确认超时，命令未执行。请告诉用户需要执行的命令，由用户决定后再继续。';
+        }
+        if (decision === 'deny') {
+          logger.warn(`🚫 Command denied by user: ${command}`);
+          return '用户拒绝执行该命令，命令未执行。请询问用户希望如何处理。';
+        }
+        logger.info(`✅ Command approved by user (${decision}): ${command}`);
+      }
       
-      const result = await commandExecutor.execute(command, { cwd });
+      const result = await commandExecutor.execute(command, { cwd, signal });
       
       if (result.exitCode !== 0) {
         return `Command failed (exit code ${result.exitCode}):\n${result.stderr || result.stdout}`;
@@ -839,55 +1616,66 @@ class SessionManager {
   }
 
   /**
-   * 执行 search_files 工具
+   * 执行 ocr_image 工具：识别本地图片，或会话中附带的图片（按出现顺序编号，负数从最近一张倒数）
    */
-  private async executeSearchFiles(pattern: string, path: string, recursive: boolean = true): Promise<string> {
+  private async executeOcrImage({ sessionId, signal }: ToolContext, args: any): Promise<string> {
     try {
-      logger.info(`🔍 Searching files: pattern="${pattern}" path="${path}"`);
-      const recursiveFlag = recursive ? '-r' : '';
-      const cmd = `grep ${recursiveFlag} -n "${pattern}" "${path}" 2>/dev/null || echo "No matches found"`;
-      const result = await commandExecutor.execute(cmd);
-      
-      return result.stdout || result.stderr || 'No matches found';
-    } catch (error: any) {
-      logger.error(`❌ Failed to search files:`, error);
-      return `Error searching files: ${error.message}`;
-    }
-  }
+      if (args.path) {
+        const filePath = await this.authorizePath(sessionId, args.path);
+        const text = await ocrEngine.recognize(filePath, signal);
+        return text ? `${filePath} 的文字识别结果：\n${text}` : `${filePath} 中没有识别到文字`;
+      }
 
-  /**
-   * 执行 find_file 工具
-   */
-  private async executeFindFile(query: string, fileType?: string, basePath?: string, maxResults?: number): Promise<string> {
-    try {
-      logger.info(`🔍 Finding files: query="${query}", type="${fileType || 'all'}"`);
-      const files = await commandExecutor.findFile(query, fileType, basePath, maxResults);
-      
-      if (files.length === 0) {
-        return `未找到匹配的文件。\n\n搜索条件：\n- 关键词：${query}\n- 文件类型：${fileType || '所有类型'}\n- 搜索路径：${basePath || '~/Code'}`;
+      const session = this.sessions.get(sessionId);
+      const images = session
+        ? this.getActiveMessages(session).flatMap(msg => getMessageImages(msg).map((url, index) => ({ msg, url, index })))
+        : [];
+      if (images.length === 0) {
+        return '当前会话中没有附带图片';
       }
-      
-      const fileList = files.map((f, i) => `${i + 1}. ${f}`).join('\n');
-      return `找到 ${files.length} 个匹配的文件：\n\n${fileList}`;
+
+      const position = Math.trunc(args.image_index ?? -1);
+      const number = position < 0 ? images.length + position + 1 : position;
+      const target = images[number - 1];
+      if (!target) {
+        return `图片序号超出范围：会话中共有 ${images.length} 张图片`;
+      }
+
+      let text = target.msg.ocrText?.[target.index];
+      if (!text) {
+        text = await ocrEngine.recognize(target.url, signal);
+        const texts = target.msg.ocrText || getMessageImages(target.msg).map(() => '');
+        texts[target.index] = text;
+        target.msg.ocrText = texts;
+      }
+      return text
+        ? `图片 #${number}（共 ${images.length} 张）的文字识别结果：\n${text}`
+        : `图片 #${number} 中没有识别到文字`;
     } catch (error: any) {
-      logger.error(`❌ Failed to find files:`, error);
-      return `Error finding files: ${error.message}`;
+      logger.error('❌ Failed to recognize image:', error);
+      return `Error recognizing image: ${error.message}`;
     }
   }
+}
 
-  /**
-   * 执行 smart_read 工具
-   */
-  private async executeSmartRead(query: string, fileType?: string, basePath?: string): Promise<string> {
-    try {
-      logger.info(`📖 Smart reading: query="${query}"`);
-      const result = await commandExecutor.smartRead(query, fileType, basePath);
-      return result.data;
-    } catch (error: any) {
-      logger.error(`❌ Failed to smart read:`, error);
-      return `Error smart reading: ${error.message}`;
-    }
+// 消息附带的全部图片（窗口截图和粘贴板图片）
+function getMessageImages(msg: SessionMessage): string[] {
+  return [...(msg.imageUrls || []), ...(msg.clipboardImageUrls || [])];
+}
+
+// 消息的文本内容（多模态消息只取文本部分）
+function getMessageText(msg: SessionMessage): string {
+  if (Array.isArray(msg.content)) {
+    return msg.content.filter((part: any) => part.type === 'text').map((part: any) => part.text).join('\n');
   }
+  return msg.content || '';
+}
+
+// 截取命中位置附近的文本
+function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 30);
+  const end = Math.min(text.length, index + length + 50);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
 }
 
 export const sessionManager = new SessionManager();
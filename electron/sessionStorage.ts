@@ -6,6 +6,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { Session } from './sessionManager';
 import { logger } from './logger';
+import { migrateLinearMessages } from './messageTree';
 
 const SESSIONS_FILE = path.join(app.getPath('userData'), 'sessions.json');
 
@@ -35,6 +36,15 @@ export async function loadSessions(): Promise<Session[]> {
 
     const data = await fs.promises.readFile(SESSIONS_FILE, 'utf-8');
     const sessions = JSON.parse(data) as Session[];
+
+    // 旧版会话的消息是线性列表，转换为消息树
+    sessions.forEach(session => {
+      const leafId = migrateLinearMessages(session.messages);
+      if (leafId) {
+        session.activeLeafId = leafId;
+      }
+    });
+
     logger.info(`📂 Loaded ${sessions.length} sessions from disk`);
     return sessions;
   } catch (error) {
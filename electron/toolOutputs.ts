@@ -0,0 +1,203 @@
+/**
+ * 工具输出预算
+ *
+ * 职责：
+ * 1. 按工具限制写入对话上下文的输出长度，超出时保留开头和结尾，中间替换为截断标记
+ * 2. 截断前把完整输出按会话保存到本地，生成句柄
+ * 3. 供 read_tool_output 工具按行分页读取完整输出
+ */
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+import { createMessageId } from './messageTree';
+
+/**
+ * 输出预算（字符数，0 表示不限制）
+ */
+export interface ToolOutputBudgets {
+  default: number;                   // 未单独配置的工具（包括 MCP 工具）
+  perTool: Record<string, number>;   // 按工具名（不含 local_ 前缀）单独配置
+}
+
+// 自带分页或大小上限的工具默认不再截断
+export const DEFAULT_TOOL_OUTPUT_BUDGETS: ToolOutputBudgets = {
+  default: 16000,
+  perTool: {
+    execute_command: 12000,
+    list_directory: 24000,
+    read_file: 40000,
+    smart_read: 40000,
+    search_files: 0,
+    fetch_url: 0,
+    git_diff: 0,
+    git_show: 0,
+    read_tool_output: 0,
+    run_js: 0,
+  },
+};
+
+const HEAD_RATIO = 0.6;
+const MAX_LINE_CHARS = 2000;
+const DEFAULT_READ_LIMIT = 200;
+
+class ToolOutputStore {
+  private budgets: ToolOutputBudgets = DEFAULT_TOOL_OUTPUT_BUDGETS;
+
+  constructor(private baseDir?: string) {}
+
+  /**
+   * 更新配置
+   */
+  configure(budgets: Partial<ToolOutputBudgets> = {}): void {
+    this.budgets = {
+      default: budgets.default ?? DEFAULT_TOOL_OUTPUT_BUDGETS.default,
+      perTool: { ...DEFAULT_TOOL_OUTPUT_BUDGETS.perTool, ...budgets.perTool },
+    };
+  }
+
+  getBudget(toolName: string): number {
+    const name = toolName.replace(/^local_/, '');
+    return Math.max(0, this.budgets.perTool[name] ?? this.budgets.default);
+  }
+
+  /**
+   * 按工具预算处理输出：未超出时原样返回，超出时保存完整输出并返回截断后的文本
+   */
+  async apply(sessionId: string, toolName: string, output: string): Promise<string> {
+    const budget = this.getBudget(toolName);
+    if (budget === 0 || output.length <= budget) {
+      return output;
+    }
+
+    const lines = splitOutputLines(output);
+    let handle: string | null = createMessageId('out');
+    try {
+      const dir = this.getSessionDir(sessionId);
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(path.join(dir, `${handle}.txt`), output, 'utf-8');
+    } catch (error) {
+      logger.error('❌ Failed to save tool output:', error);
+      handle = null;
+    }
+
+    logger.info(`✂️ Tool output truncated: ${toolName} (${output.length} chars, ${lines.length} lines, budget ${budget})`);
+    return truncateLines(lines, budget, handle);
+  }
+
+  /**
+   * 按行读取完整输出
+   * @param offset 起始行号（从 1 开始）
+   * @param limit 最多读取的行数
+   */
+  async read(sessionId: string, handle: string, offset: number = 1, limit: number = DEFAULT_READ_LIMIT): Promise<string> {
+    if (!/^[\w-]+$/.test(handle)) {
+      throw new Error(`无效的输出句柄: ${handle}`);
+    }
+
+    let output: string;
+    try {
+      output = await fs.promises.readFile(path.join(this.getSessionDir(sessionId), `${handle}.txt`), 'utf-8');
+    } catch {
+      throw new Error(`输出句柄不存在或已清理: ${handle}`);
+    }
+
+    const lines = splitOutputLines(output);
+    const start = Math.max(1, Math.floor(offset || 1));
+    if (start > lines.length) {
+      return `[${handle}] 共 ${lines.length} 行，起始行 ${start} 超出范围`;
+    }
+
+    // 单次读取同样受默认预算限制，至少返回一行
+    const maxChars = this.budgets.default || Infinity;
+    const end = Math.min(lines.length, start + Math.max(1, Math.floor(limit || DEFAULT_READ_LIMIT)) - 1);
+    const selected: string[] = [];
+    let chars = 0;
+    for (let i = start - 1; i < end; i++) {
+      if (selected.length > 0 && chars + lines[i].length + 1 > maxChars) {
+        break;
+      }
+      selected.push(lines[i]);
+      chars += lines[i].length + 1;
+    }
+
+    const last = start + selected.length - 1;
+    const header = `[${handle}] 第 ${start}-${last} 行，共 ${lines.length} 行`;
+    const footer = last < lines.length ? `\n[还有 ${lines.length - last} 行，使用 offset=${last + 1} 继续读取]` : '';
+    return `${header}\n${selected.join('\n')}${footer}`;
+  }
+
+  /**
+   * 删除会话的全部输出
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    await fs.promises.rm(this.getSessionDir(sessionId), { recursive: true, force: true });
+  }
+
+  /**
+   * 清理已不存在的会话留下的输出
+   */
+  async prune(keepSessionIds: string[]): Promise<void> {
+    const keep = new Set(keepSessionIds.map(toDirName));
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(this.getBaseDir());
+    } catch {
+      return;
+    }
+
+    const stale = entries.filter(entry => !keep.has(entry));
+    await Promise.all(stale.map(entry => fs.promises.rm(path.join(this.getBaseDir(), entry), { recursive: true, force: true })));
+    if (stale.length > 0) {
+      logger.info(`🗑️ Pruned tool outputs of ${stale.length} deleted sessions`);
+    }
+  }
+
+  private getBaseDir(): string {
+    return this.baseDir || path.join(app.getPath('userData'), 'tool-outputs');
+  }
+
+  private getSessionDir(sessionId: string): string {
+    return path.join(this.getBaseDir(), toDirName(sessionId));
+  }
+}
+
+function toDirName(sessionId: string): string {
+  return sessionId.replace(/[^\w-]/g, '_');
+}
+
+// 按行拆分，过长的行（如压缩后的 JSON）折成多行，保证分页读取时每行长度可控
+function splitOutputLines(output: string): string[] {
+  const lines: string[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    for (let i = 0; i < line.length || i === 0; i += MAX_LINE_CHARS) {
+      lines.push(line.slice(i, i + MAX_LINE_CHARS));
+    }
+  }
+  return lines;
+}
+
+// 保留开头约 60%、结尾约 40% 的预算，中间替换为截断标记
+function truncateLines(lines: string[], budget: number, handle: string | null): string {
+  const headBudget = Math.floor(budget * HEAD_RATIO);
+  const tailBudget = budget - headBudget;
+
+  let head = 0;
+  for (let chars = 0; head < lines.length && chars + lines[head].length + 1 <= headBudget; head++) {
+    chars += lines[head].length + 1;
+  }
+  let tail = 0;
+  for (let chars = 0; tail < lines.length - head && chars + lines[lines.length - 1 - tail].length + 1 <= tailBudget; tail++) {
+    chars += lines[lines.length - 1 - tail].length + 1;
+  }
+
+  const omitted = lines.length - head - tail;
+  const location = `第 ${head + 1}-${head + omitted} 行已省略，完整输出共 ${lines.length} 行`;
+  const marker = handle
+    ? `[truncated ${omitted} lines] ${location}，句柄 ${handle}。需要时调用 read_tool_output 分页读取`
+    : `[truncated ${omitted} lines] ${location}（完整输出保存失败）`;
+
+  return [...lines.slice(0, head), '', marker, '', ...lines.slice(lines.length - tail)].join('\n');
+}
+
+export const toolOutputStore = new ToolOutputStore();
@@ -0,0 +1,178 @@
+/**
+ * 工具注册表
+ *
+ * 职责：
+ * 1. 集中登记本地工具：参数 schema、执行函数、显示格式、风险级别和超时时间
+ * 2. 生成发给模型的工具列表（统一加 local_ 前缀）
+ * 3. 按名称分发执行，超时后中止并返回失败结果
+ * 4. 支持运行时注册和移除工具
+ */
+import { logger } from './logger';
+import { FileEditRecord } from './fileEdits';
+
+/**
+ * 风险级别
+ * - read-only：只读取本地内容，可与其他只读工具并发执行
+ * - network：访问网络但不修改本地环境，同样可并发
+ * - mutating：会修改文件、仓库或执行命令，串行执行
+ */
+export type ToolRisk = 'read-only' | 'network' | 'mutating';
+
+/**
+ * 参数 schema（JSON Schema 子集）
+ */
+export interface ToolParameters {
+  type: 'object';
+  properties: Record<string, any>;
+  required?: string[];
+}
+
+/**
+ * 执行上下文
+ */
+export interface ToolContext {
+  sessionId: string;
+  toolCallId: string;
+  signal: AbortSignal;   // 用户取消或超时时触发
+}
+
+/**
+ * 执行结果
+ */
+export interface ToolResult {
+  content: string;
+  fileEdit?: FileEditRecord;
+  failed?: boolean;
+}
+
+/**
+ * 工具定义
+ */
+export interface ToolDefinition {
+  name: string;                  // 工具名（不含 local_ 前缀）
+  description: string;
+  parameters: ToolParameters;
+  risk: ToolRisk;
+  timeoutMs?: number;            // 超时时间，未设置时使用默认值，0 表示不限制（如需要等待用户确认）
+  display?: (args: any) => string;  // 界面上显示的命令
+  handler: (args: any, context: ToolContext) => Promise<string | ToolResult>;
+}
+
+export const LOCAL_TOOL_PREFIX = 'local_';
+export const DEFAULT_TOOL_TIMEOUT_MS = 2 * 60 * 1000;
+
+class ToolRegistry {
+  private tools: Map<string, ToolDefinition> = new Map();
+
+  /**
+   * 注册工具，同名工具会被替换
+   */
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      logger.warn(`⚠️ Tool re-registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(stripPrefix(name));
+  }
+
+  /**
+   * 查找工具，名称可带 local_ 前缀
+   */
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(stripPrefix(name));
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * 发给模型的工具列表
+   */
+  getSchemas(): any[] {
+    return this.list().map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: `${LOCAL_TOOL_PREFIX}${tool.name}`,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+  }
+
+  /**
+   * 是否可以并发执行（只读和网络类工具）
+   */
+  isConcurrent(name: string): boolean {
+    const tool = this.get(name);
+    return Boolean(tool) && tool!.risk !== 'mutating';
+  }
+
+  /**
+   * 界面上显示的命令，未提供格式化函数时显示工具名
+   */
+  formatDisplay(name: string, args: any): string {
+    const tool = this.get(name);
+    if (!tool?.display) {
+      return name;
+    }
+    try {
+      return tool.display(args);
+    } catch {
+      return name;
+    }
+  }
+
+  /**
+   * 执行工具；执行函数抛出的错误会继续抛出，超时返回失败结果
+   */
+  async execute(name: string, args: any, context: ToolContext): Promise<ToolResult> {
+    const tool = this.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const timeoutMs = tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (context.signal.aborted) {
+      controller.abort();
+    }
+    context.signal.addEventListener('abort', onAbort, { once: true });
+
+    let timer: NodeJS.Timeout | undefined;
+    let timedOut = false;
+    const timeout = new Promise<never>((_, reject) => {
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+          reject(new Error('timeout'));
+        }, timeoutMs);
+      }
+    });
+
+    try {
+      const output = await Promise.race([tool.handler(args, { ...context, signal: controller.signal }), timeout]);
+      return typeof output === 'string' ? { content: output } : output;
+    } catch (error) {
+      if (timedOut) {
+        logger.warn(`⏰ Tool timed out: ${tool.name} (${timeoutMs}ms)`);
+        return { content: `工具执行超时（${Math.ceil(timeoutMs / 1000)} 秒），已中止`, failed: true };
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      context.signal.removeEventListener('abort', onAbort);
+    }
+  }
+}
+
+function stripPrefix(name: string): string {
+  return name.startsWith(LOCAL_TOOL_PREFIX) ? name.substring(LOCAL_TOOL_PREFIX.length) : name;
+}
+
+export const toolRegistry = new ToolRegistry();
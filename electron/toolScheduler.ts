@@ -0,0 +1,64 @@
+/**
+ * 工具调用调度器
+ *
+ * 职责：
+ * 1. 并发执行相邻的只读工具调用（受并发上限限制）
+ * 2. 串行执行会修改环境的工具调用（执行前等待之前的调用全部完成）
+ * 3. 按原始顺序返回结果
+ */
+
+/**
+ * 调度选项
+ */
+export interface ScheduleOptions<T, R> {
+  concurrency: number;                          // 只读工具的最大并发数
+  isReadOnly: (call: T) => boolean;             // 是否为只读工具
+  run: (call: T, index: number) => Promise<R>;  // 执行单个工具调用
+}
+
+/**
+ * 默认并发上限
+ */
+export const DEFAULT_TOOL_CONCURRENCY = 4;
+
+/**
+ * 调度执行工具调用
+ * 连续的只读调用组成一批并发执行；遇到修改类调用时等待前一批完成后单独执行
+ */
+export async function scheduleToolCalls<T, R>(calls: T[], options: ScheduleOptions<T, R>): Promise<R[]> {
+  const results: R[] = new Array(calls.length);
+  const concurrency = Math.max(1, options.concurrency);
+  let batch: number[] = [];
+
+  const flushBatch = async () => {
+    await runConcurrently(batch, concurrency, async (index) => {
+      results[index] = await options.run(calls[index], index);
+    });
+    batch = [];
+  };
+
+  for (let i = 0; i < calls.length; i++) {
+    if (options.isReadOnly(calls[i])) {
+      batch.push(i);
+      continue;
+    }
+
+    await flushBatch();
+    results[i] = await options.run(calls[i], i);
+  }
+
+  await flushBatch();
+  return results;
+}
+
+// 以固定并发数执行任务
+async function runConcurrently<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const item = items[next++];
+      await worker(item);
+    }
+  });
+  await Promise.all(workers);
+}
@@ -0,0 +1,293 @@
+/**
+ * 统一 diff 工具
+ *
+ * 职责：
+ * 1. 生成两段文本之间的统一 diff（unified diff）
+ * 2. 解析多文件统一 diff 补丁
+ * 3. 将补丁中的 hunk 应用到文件内容（允许行号偏移，保留原文件的换行符）
+ */
+
+/**
+ * 补丁中的单个 hunk
+ */
+export interface DiffHunk {
+  oldStart: number;   // 原文件起始行（从 1 开始）
+  lines: string[];    // 以 ' '、'-'、'+' 开头的行
+}
+
+/**
+ * 补丁中的单个文件
+ */
+export interface FilePatch {
+  oldPath: string | null;  // null 表示新建文件
+  newPath: string | null;  // null 表示删除文件
+  hunks: DiffHunk[];
+}
+
+// 上下文行数
+const CONTEXT_LINES = 3;
+// LCS 计算的最大规模（超过时按整段替换输出）
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * 生成统一 diff
+ */
+export function createUnifiedDiff(filePath: string, before: string | null, after: string | null): string {
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+
+  if (!ops.some(op => op.type !== ' ')) {
+    return '';
+  }
+
+  const header = [
+    `--- ${before === null ? '/dev/null' : `a/${filePath}`}`,
+    `+++ ${after === null ? '/dev/null' : `b/${filePath}`}`,
+  ];
+  return [...header, ...buildHunks(ops)].join('\n');
+}
+
+/**
+ * 解析统一 diff 补丁（支持多个文件）
+ * hunk 头声明的行数范围内的行都属于该 hunk，其中的 '--- x' / '+++ y' 是删除和新增的行，不是文件头
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const files: FilePatch[] = [];
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  let current: FilePatch | null = null;
+  let hunk: DiffHunk | null = null;
+  // 当前 hunk 还未读取的原文件行数和新文件行数
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      if (line.startsWith('\\')) {
+        continue;  // \ No newline at end of file
+      }
+      // 部分工具会去掉空上下文行前的空格
+      const type = line === '' ? ' ' : line[0];
+      if (type === ' ' && oldRemaining > 0 && newRemaining > 0) {
+        hunk.lines.push(line === '' ? ' ' : line);
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+      if (type === '-' && oldRemaining > 0) {
+        hunk.lines.push(line);
+        oldRemaining--;
+        continue;
+      }
+      if (type === '+' && newRemaining > 0) {
+        hunk.lines.push(line);
+        newRemaining--;
+        continue;
+      }
+      // 行数与 hunk 头不符：结束当前 hunk，按普通行继续解析
+      oldRemaining = 0;
+      newRemaining = 0;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        oldPath: parsePatchPath(line.slice(4)),
+        newPath: parsePatchPath(lines[i + 1].slice(4)),
+        hunks: [],
+      };
+      files.push(current);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const hunkHeader = /^@@ -(\d+)(?:,(\d+))? \+\d+(?:,(\d+))? @@/.exec(line);
+    if (hunkHeader) {
+      if (!current) {
+        throw new Error('补丁格式错误：hunk 之前缺少 ---/+++ 文件头');
+      }
+      hunk = { oldStart: Number(hunkHeader[1]), lines: [] };
+      current.hunks.push(hunk);
+      oldRemaining = hunkHeader[2] === undefined ? 1 : Number(hunkHeader[2]);
+      newRemaining = hunkHeader[3] === undefined ? 1 : Number(hunkHeader[3]);
+      continue;
+    }
+
+    // hunk 头少算了行数时，紧跟其后的修改行仍归入该 hunk
+    if (hunk && (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+'))) {
+      hunk.lines.push(line);
+    }
+    // 其他行（diff --git、index、\ No newline at end of file、文件之间的空行等）忽略
+  }
+
+  if (files.length === 0) {
+    throw new Error('补丁格式错误：未找到任何文件（需要 --- 和 +++ 文件头）');
+  }
+  return files;
+}
+
+/**
+ * 将 hunk 应用到文件内容
+ * 优先在声明的行号处匹配，否则在全文中查找最近的匹配位置
+ */
+export function applyHunks(content: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(content);
+  const trailingNewline = content.endsWith('\n') || content === '';
+  const eol = detectLineEnding(content);
+  let offset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldBlock = hunk.lines.filter(l => !l.startsWith('+')).map(l => l.slice(1));
+    const newBlock = hunk.lines.filter(l => !l.startsWith('-')).map(l => l.slice(1));
+
+    // 纯插入的 hunk 中 oldStart 表示插入位置之前的行
+    const expected = Math.max(0, (oldBlock.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset);
+    const position = findBlock(lines, oldBlock, expected);
+    if (position < 0) {
+      throw new Error(`第 ${index + 1} 个 hunk（原文件第 ${hunk.oldStart} 行附近）与文件内容不匹配`);
+    }
+
+    lines.splice(position, oldBlock.length, ...newBlock);
+    offset += newBlock.length - oldBlock.length + (position - expected);
+  });
+
+  const result = lines.join(eol);
+  return trailingNewline && lines.length > 0 ? `${result}${eol}` : result;
+}
+
+// 原文件的换行符：按第一个换行判断
+function detectLineEnding(content: string): string {
+  const index = content.indexOf('\n');
+  return index > 0 && content[index - 1] === '\r' ? '\r\n' : '\n';
+}
+
+// 在 expected 附近查找连续匹配的行块
+function findBlock(lines: string[], block: string[], expected: number): number {
+  const matchesAt = (start: number) =>
+    start >= 0 && start + block.length <= lines.length && block.every((line, i) => lines[start + i] === line);
+
+  if (block.length === 0) {
+    return Math.min(expected, lines.length);
+  }
+  for (let distance = 0; distance <= lines.length; distance++) {
+    if (matchesAt(expected - distance)) return expected - distance;
+    if (matchesAt(expected + distance)) return expected + distance;
+  }
+  return -1;
+}
+
+// 解析补丁中的文件路径（去掉 a/、b/ 前缀和时间戳）
+function parsePatchPath(raw: string): string | null {
+  const filePath = raw.split('\t')[0].trim();
+  if (filePath === '/dev/null') {
+    return null;
+  }
+  return filePath.replace(/^[ab]\//, '');
+}
+
+// 按行拆分（不包含末尾换行产生的空行）
+function splitLines(text: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+// 计算行级 diff（先去掉公共前后缀，再对中间部分求 LCS）
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+  const middle: DiffOp[] = [];
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    a.forEach(line => middle.push({ type: '-', line }));
+    b.forEach(line => middle.push({ type: '+', line }));
+  } else {
+    // lcs[i][j] = a[i..] 与 b[j..] 的最长公共子序列长度
+    const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: ' ', line: a[i] });
+        i++;
+        j++;
+      } else if (j < b.length && (i === a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+        middle.push({ type: '+', line: b[j++] });
+      } else {
+        middle.push({ type: '-', line: a[i++] });
+      }
+    }
+  }
+
+  return [
+    ...oldLines.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: ' ' as const, line })),
+  ];
+}
+
+// 将 diff 操作分组为带上下文的 hunk
+function buildHunks(ops: DiffOp[]): string[] {
+  const output: string[] = [];
+  const changeIndexes = ops.map((op, index) => (op.type !== ' ' ? index : -1)).filter(index => index >= 0);
+
+  let groupStart = 0;
+  while (groupStart < changeIndexes.length) {
+    // 相邻修改之间的上下文不超过 2 * CONTEXT_LINES 时合并为一个 hunk
+    let groupEnd = groupStart;
+    while (
+      groupEnd + 1 < changeIndexes.length &&
+      changeIndexes[groupEnd + 1] - changeIndexes[groupEnd] <= CONTEXT_LINES * 2 + 1
+    ) {
+      groupEnd++;
+    }
+
+    const from = Math.max(0, changeIndexes[groupStart] - CONTEXT_LINES);
+    const to = Math.min(ops.length, changeIndexes[groupEnd] + CONTEXT_LINES + 1);
+
+    // 计算 hunk 在新旧文件中的起始行
+    let oldLine = 1;
+    let newLine = 1;
+    for (let k = 0; k < from; k++) {
+      if (ops[k].type !== '+') oldLine++;
+      if (ops[k].type !== '-') newLine++;
+    }
+    const slice = ops.slice(from, to);
+    const oldCount = slice.filter(op => op.type !== '+').length;
+    const newCount = slice.filter(op => op.type !== '-').length;
+
+    output.push(`@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`);
+    slice.forEach(op => output.push(`${op.type}${op.line}`));
+
+    groupStart = groupEnd + 1;
+  }
+
+  return output;
+}
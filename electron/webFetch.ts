@@ -0,0 +1,642 @@
+/**
+ * 网页抓取
+ *
+ * 职责：
+ * 1. 下载网页（走独立的 Electron session，遵循系统代理或配置的代理）
+ * 2. 按域名允许 / 拒绝列表检查地址（包括重定向后的地址）
+ * 3. 将 HTML 提取为 Markdown（优先 <main> / <article>，去掉脚本、样式和导航）
+ * 4. 结果缓存到本地磁盘，按 TTL 过期；按 offset 分页返回，避免重复下载
+ */
+import { app, session, Session } from 'electron';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from './logger';
+
+/**
+ * 网页抓取配置
+ */
+export interface WebFetchSettings {
+  proxy: string;             // 空为系统代理，'direct' 为直连，其他为代理规则（如 'http://127.0.0.1:7890'）
+  allowDomains: string[];    // 非空时只允许这些域名（包含子域名，支持 *.example.com）
+  denyDomains: string[];     // 拒绝的域名，优先于允许列表
+  cacheTtlMinutes: number;   // 缓存有效期，0 表示不缓存
+}
+
+export const DEFAULT_WEB_FETCH_SETTINGS: WebFetchSettings = {
+  proxy: '',
+  allowDomains: [],
+  denyDomains: [],
+  cacheTtlMinutes: 60,
+};
+
+/**
+ * 抓取选项
+ */
+export interface WebFetchOptions {
+  offset?: number;      // 从第几个字符开始返回（默认 0）
+  maxLength?: number;   // 本次最多返回的字符数
+  refresh?: boolean;    // 忽略缓存重新下载
+}
+
+/**
+ * 抓取结果
+ */
+export interface WebFetchResult {
+  url: string;
+  finalUrl: string;       // 重定向后的地址
+  title: string;
+  contentType: string;
+  content: string;        // 本页内容
+  offset: number;
+  totalLength: number;
+  nextOffset: number | null;  // 还有后续内容时为下一页的 offset
+  cached: boolean;
+  fetchedAt: number;
+}
+
+// 缓存条目（保存完整内容，分页时直接切片）
+interface CacheEntry {
+  url: string;
+  finalUrl: string;
+  title: string;
+  contentType: string;
+  markdown: string;
+  fetchedAt: number;
+}
+
+/**
+ * 发起请求的函数，默认使用 Electron session 的 fetch；测试时可替换为全局 fetch 访问本地服务器
+ */
+export type WebRequestFn = (url: string, init: RequestInit) => Promise<Response>;
+
+const DEFAULT_MAX_LENGTH = 20000;
+const MAX_LENGTH_LIMIT = 100000;
+// 下载体积上限
+const MAX_DOWNLOAD_BYTES = 5 * 1024 * 1024;
+const REQUEST_TIMEOUT_MS = 30000;
+// 最多跟随的重定向次数
+const MAX_REDIRECTS = 5;
+const TEXT_CONTENT_TYPES = /^(text\/|application\/(json|xml|xhtml\+xml|javascript|x-javascript|ld\+json)|[^;]*\+(json|xml))/i;
+
+/**
+ * 域名是否匹配规则：'example.com' 匹配自身及子域名，'*.example.com' 只匹配子域名
+ */
+export function matchDomain(hostname: string, pattern: string): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  const rule = pattern.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, '');
+  if (!rule) {
+    return false;
+  }
+  if (rule.startsWith('*.')) {
+    return host.endsWith(rule.slice(1));
+  }
+  return host === rule || host.endsWith(`.${rule}`);
+}
+
+/**
+ * 检查地址是否允许访问，不允许时抛出错误
+ */
+export function assertUrlAllowed(url: string, settings: WebFetchSettings): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`无效的 URL：${url}`);
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error(`只支持 http / https 地址：${url}`);
+  }
+  if (settings.denyDomains.some(rule => matchDomain(parsed.hostname, rule))) {
+    throw new Error(`域名在拒绝列表中：${parsed.hostname}`);
+  }
+  if (settings.allowDomains.length > 0 && !settings.allowDomains.some(rule => matchDomain(parsed.hostname, rule))) {
+    throw new Error(`域名不在允许列表中：${parsed.hostname}。如需访问，请让用户在设置中添加`);
+  }
+  return parsed;
+}
+
+export class WebFetcher {
+  private settings: WebFetchSettings = DEFAULT_WEB_FETCH_SETTINGS;
+  private session: Session | null = null;
+  private proxyReady: Promise<void> = Promise.resolve();
+
+  constructor(private request?: WebRequestFn, private cacheDir?: string) {}
+
+  /**
+   * 更新配置并应用代理
+   */
+  configure(settings: Partial<WebFetchSettings> = {}): void {
+    const clean = (list?: string[]) => (list || []).map(item => item.trim()).filter(Boolean);
+    this.settings = {
+      proxy: (settings.proxy ?? DEFAULT_WEB_FETCH_SETTINGS.proxy).trim(),
+      allowDomains: clean(settings.allowDomains),
+      denyDomains: clean(settings.denyDomains),
+      cacheTtlMinutes: Math.max(0, settings.cacheTtlMinutes ?? DEFAULT_WEB_FETCH_SETTINGS.cacheTtlMinutes),
+    };
+
+    if (!this.request) {
+      const proxy = this.settings.proxy;
+      this.proxyReady = this.getSession()
+        .setProxy(!proxy ? { mode: 'system' } : proxy === 'direct' ? { mode: 'direct' } : { proxyRules: proxy })
+        .catch(error => logger.error('❌ Failed to apply web fetch proxy:', error));
+    }
+  }
+
+  /**
+   * 获取网页内容（Markdown），命中缓存时不重新下载
+   */
+  async fetch(url: string, options: WebFetchOptions = {}, signal?: AbortSignal): Promise<WebFetchResult> {
+    assertUrlAllowed(url, this.settings);
+
+    let entry = options.refresh ? null : await this.readCache(url);
+    const cached = entry !== null;
+    if (!entry) {
+      entry = await this.download(url, signal);
+      await this.writeCache(entry);
+    }
+
+    const offset = Math.max(0, Math.floor(options.offset ?? 0));
+    const maxLength = Math.min(Math.max(1, options.maxLength ?? DEFAULT_MAX_LENGTH), MAX_LENGTH_LIMIT);
+    const end = Math.min(entry.markdown.length, offset + maxLength);
+
+    return {
+      url: entry.url,
+      finalUrl: entry.finalUrl,
+      title: entry.title,
+      contentType: entry.contentType,
+      content: entry.markdown.slice(offset, end),
+      offset,
+      totalLength: entry.markdown.length,
+      nextOffset: end < entry.markdown.length ? end : null,
+      cached,
+      fetchedAt: entry.fetchedAt,
+    };
+  }
+
+  private async download(url: string, signal?: AbortSignal): Promise<CacheEntry> {
+    logger.info(`🌐 Fetching ${url}`);
+    await this.proxyReady;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const request = this.request || ((input, init) => this.getSession().fetch(input, init));
+      // 手动跟随重定向：每一跳发出请求前都检查地址，不会访问被禁止的主机
+      let finalUrl = url;
+      let response: Response;
+      for (let redirects = 0; ; redirects++) {
+        assertUrlAllowed(finalUrl, this.settings);
+        response = await request(finalUrl, {
+          signal: controller.signal,
+          redirect: 'manual',
+          headers: { Accept: 'text/html,application/xhtml+xml,text/plain,application/json;q=0.9,*/*;q=0.5' },
+        });
+        const location = response.status >= 300 && response.status < 400 ? response.headers.get('location') : null;
+        if (!location) {
+          break;
+        }
+        if (redirects >= MAX_REDIRECTS) {
+          throw new Error(`重定向次数过多（超过 ${MAX_REDIRECTS} 次）`);
+        }
+        await response.body?.cancel().catch(() => {});
+        finalUrl = new URL(location, finalUrl).toString();
+      }
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const contentType = response.headers.get('content-type') || 'text/html';
+      if (!TEXT_CONTENT_TYPES.test(contentType)) {
+        throw new Error(`不支持的内容类型：${contentType}`);
+      }
+
+      const buffer = await readLimited(response, MAX_DOWNLOAD_BYTES);
+      const text = decodeBody(buffer, contentType);
+      const isHtml = /html/i.test(contentType) || /^\s*<(!doctype html|html)/i.test(text);
+      const { title, markdown } = isHtml ? htmlToMarkdown(text, finalUrl) : { title: '', markdown: text };
+
+      logger.info(`✅ Fetched ${finalUrl} (${buffer.length} bytes → ${markdown.length} chars)`);
+      return { url, finalUrl, title, contentType, markdown, fetchedAt: Date.now() };
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw new Error('Cancelled');
+      }
+      if (controller.signal.aborted) {
+        throw new Error(`请求超时（${REQUEST_TIMEOUT_MS / 1000} 秒）`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  // 独立 session：不与聊天窗口共享 Cookie，代理单独配置
+  private getSession(): Session {
+    if (!this.session) {
+      this.session = session.fromPartition('web-fetch');
+    }
+    return this.session;
+  }
+
+  private getCacheFile(url: string): string {
+    const dir = this.cacheDir || path.join(app.getPath('userData'), 'web-cache');
+    return path.join(dir, `${crypto.createHash('sha256').update(url).digest('hex')}.json`);
+  }
+
+  private async readCache(url: string): Promise<CacheEntry | null> {
+    if (this.settings.cacheTtlMinutes <= 0) {
+      return null;
+    }
+    try {
+      const entry = JSON.parse(await fs.promises.readFile(this.getCacheFile(url), 'utf-8')) as CacheEntry;
+      if (entry.url !== url || Date.now() - entry.fetchedAt > this.settings.cacheTtlMinutes * 60 * 1000) {
+        return null;
+      }
+      // 缓存期间配置可能变化，重定向后的地址也要重新检查
+      assertUrlAllowed(entry.finalUrl, this.settings);
+      return entry;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCache(entry: CacheEntry): Promise<void> {
+    if (this.settings.cacheTtlMinutes <= 0) {
+      return;
+    }
+    try {
+      const file = this.getCacheFile(entry.url);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, JSON.stringify(entry), 'utf-8');
+    } catch (error) {
+      logger.warn('⚠️ Failed to write web cache:', error);
+    }
+  }
+}
+
+// 读取响应体，超过上限时停止并截断
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.from(await response.arrayBuffer()).subarray(0, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+    total += value.length;
+    if (total >= maxBytes) {
+      await reader.cancel().catch(() => {});
+      break;
+    }
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
+
+// 按 Content-Type 或 <meta charset> 声明的编码解码，不支持的编码回退到 UTF-8
+function decodeBody(buffer: Buffer, contentType: string): string {
+  const head = buffer.subarray(0, 2048).toString('latin1');
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1]
+    || /<meta[^>]+charset=["']?([\w-]+)/i.exec(head)?.[1]
+    || 'utf-8';
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+// ========== HTML 转 Markdown ==========
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+interface RenderContext {
+  baseUrl: string;
+  pre: boolean;
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// 整体丢弃的元素
+const DROPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'head', 'button', 'select']);
+// 正文提取时丢弃的页面框架元素
+const CHROME_TAGS = new Set(['nav', 'footer', 'aside']);
+// 同名元素再次出现时自动闭合（如连续的 <li>、<p>）
+const AUTO_CLOSE_TAGS = new Set(['p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'option']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'header', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'li', 'main', 'nav', 'ol', 'p',
+  'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  laquo: '«', raquo: '»', middot: '·', bull: '•', times: '×', divide: '÷', deg: '°', yen: '¥', euro: '€',
+};
+
+/**
+ * 将 HTML 转换为 Markdown，返回页面标题和正文
+ */
+export function htmlToMarkdown(html: string, baseUrl: string): { title: string; markdown: string } {
+  const root = parseHtml(html);
+  const title = normalizeSpace(textContent(findElement(root, 'title') || { tag: '', attrs: {}, children: [] }));
+
+  // 优先使用 <main> / <article> 作为正文，否则使用 <body> 并去掉导航、页脚等
+  const body = findElement(root, 'main') || findElement(root, 'article') || findElement(root, 'body') || root;
+  const markdown = renderChildren(body.children, { baseUrl, pre: false });
+
+  return {
+    title: title || normalizeSpace(textContent(findElement(body, 'h1') || { tag: '', attrs: {}, children: [] })),
+    markdown: cleanMarkdown(markdown),
+  };
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*\/?>/g;
+  const lowerHtml = html.toLowerCase();
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const current = () => stack[stack.length - 1];
+  const closeTag = (tag: string) => {
+    for (let i = stack.length - 1; i > 0; i--) {
+      if (stack[i].tag === tag) {
+        stack.length = i;
+        return;
+      }
+    }
+  };
+
+  while ((match = tokenPattern.exec(html))) {
+    if (match.index > lastIndex) {
+      current().children.push(html.slice(lastIndex, match.index));
+    }
+    lastIndex = tokenPattern.lastIndex;
+
+    if (match[1]) {
+      closeTag(match[1].toLowerCase());
+      continue;
+    }
+    if (!match[2]) {
+      continue;   // 注释、doctype
+    }
+
+    const tag = match[2].toLowerCase();
+    const element: HtmlElement = { tag, attrs: parseAttributes(match[3] || ''), children: [] };
+
+    // 原始文本元素：直接跳到结束标签
+    if (tag === 'script' || tag === 'style' || tag === 'textarea' || tag === 'title') {
+      const end = lowerHtml.indexOf(`</${tag}`, lastIndex);
+      const stop = end < 0 ? html.length : end;
+      element.children.push(html.slice(lastIndex, stop));
+      current().children.push(element);
+      const close = html.indexOf('>', stop);
+      lastIndex = tokenPattern.lastIndex = close < 0 ? html.length : close + 1;
+      continue;
+    }
+
+    if (AUTO_CLOSE_TAGS.has(tag) && current().tag === tag) {
+      stack.pop();
+    } else if (BLOCK_TAGS.has(tag) && current().tag === 'p') {
+      stack.pop();
+    }
+
+    current().children.push(element);
+    if (!VOID_TAGS.has(tag) && !match[0].endsWith('/>')) {
+      stack.push(element);
+    }
+  }
+
+  if (lastIndex < html.length) {
+    current().children.push(html.slice(lastIndex));
+  }
+  return root;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+function findElement(node: HtmlElement, tag: string): HtmlElement | null {
+  for (const child of node.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === tag) return child;
+    if (DROPPED_TAGS.has(child.tag) && tag !== 'title') continue;
+    const found = findElement(child, tag);
+    if (found) return found;
+  }
+  return null;
+}
+
+function textContent(node: HtmlNode): string {
+  return typeof node === 'string' ? decodeEntities(node) : node.children.map(textContent).join('');
+}
+
+function renderChildren(nodes: HtmlNode[], ctx: RenderContext): string {
+  return nodes.map(node => typeof node === 'string' ? renderText(node, ctx) : renderElement(node, ctx)).join('');
+}
+
+function renderText(text: string, ctx: RenderContext): string {
+  const decoded = decodeEntities(text);
+  return ctx.pre ? decoded : decoded.replace(/\s+/g, ' ');
+}
+
+function renderElement(element: HtmlElement, ctx: RenderContext): string {
+  const { tag } = element;
+  if (DROPPED_TAGS.has(tag) || CHROME_TAGS.has(tag) || tag === 'title' || element.attrs.hidden !== undefined
+    || element.attrs['aria-hidden'] === 'true') {
+    return '';
+  }
+
+  const inner = () => renderChildren(element.children, ctx);
+
+  switch (tag) {
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return block(`${'#'.repeat(Number(tag[1]))} ${normalizeSpace(inner())}`);
+    case 'br':
+      return ctx.pre ? '\n' : '  \n';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'strong': case 'b':
+      return wrapInline(inner(), '**');
+    case 'em': case 'i':
+      return wrapInline(inner(), '*');
+    case 'del': case 's':
+      return wrapInline(inner(), '~~');
+    case 'code': {
+      if (ctx.pre) return inner();
+      const code = normalizeSpace(textContent(element));
+      return code ? `\`${code}\`` : '';
+    }
+    case 'pre': {
+      const code = renderChildren(element.children, { ...ctx, pre: true }).replace(/^\n/, '').replace(/\s+$/, '');
+      const codeChild = element.children.find((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'code');
+      const language = /(?:language|lang)-([\w+-]+)/.exec(`${codeChild?.attrs.class || ''} ${element.attrs.class || ''}`)?.[1] || '';
+      return `\n\n\`\`\`${language}\n${code}\n\`\`\`\n\n`;
+    }
+    case 'a': {
+      const text = normalizeSpace(inner());
+      const href = resolveUrl(element.attrs.href, ctx.baseUrl);
+      if (!text) return '';
+      return href && !href.startsWith('javascript:') && !element.attrs.href.startsWith('#') ? `[${text}](${href})` : text;
+    }
+    case 'img': {
+      const src = resolveUrl(element.attrs.src, ctx.baseUrl);
+      const alt = normalizeSpace(element.attrs.alt || '');
+      return src && /^https?:/.test(src) ? `![${alt}](${src})` : alt;
+    }
+    case 'ul': case 'ol':
+      return block(renderList(element, ctx));
+    case 'li':
+      return block(`- ${inner().trim()}`);
+    case 'blockquote':
+      return block(cleanMarkdown(inner()).split('\n').map(line => `> ${line}`).join('\n'));
+    case 'table':
+      return block(renderTable(element, ctx));
+    case 'dt':
+      return block(`**${normalizeSpace(inner())}**`);
+    default:
+      return BLOCK_TAGS.has(tag) ? block(inner()) : inner();
+  }
+}
+
+function renderList(list: HtmlElement, ctx: RenderContext): string {
+  const ordered = list.tag === 'ol';
+  let index = Number(list.attrs.start) || 1;
+  const lines: string[] = [];
+
+  for (const child of list.children) {
+    if (typeof child === 'string' || child.tag !== 'li') {
+      // 列表中直接出现的嵌套列表
+      if (typeof child !== 'string' && (child.tag === 'ul' || child.tag === 'ol')) {
+        lines.push(indent(renderList(child, ctx), '  '));
+      }
+      continue;
+    }
+    const marker = ordered ? `${index++}. ` : '- ';
+    const content = cleanMarkdown(renderChildren(child.children, ctx)).replace(/\n{2,}/g, '\n');
+    if (!content) continue;
+    lines.push(marker + indent(content, ' '.repeat(marker.length)).trimStart());
+  }
+  return lines.join('\n');
+}
+
+function renderTable(table: HtmlElement, ctx: RenderContext): string {
+  const rows: string[][] = [];
+  const collectRows = (node: HtmlElement) => {
+    for (const child of node.children) {
+      if (typeof child === 'string') continue;
+      if (child.tag === 'tr') {
+        rows.push(child.children
+          .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map(cell => normalizeSpace(renderChildren(cell.children, ctx)).replace(/\|/g, '\\|')));
+      } else if (child.tag === 'thead' || child.tag === 'tbody' || child.tag === 'tfoot') {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (rows.length === 0 || columns === 0) {
+    return '';
+  }
+
+  const format = (row: string[]) => `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`;
+  return [format(rows[0]), `| ${Array(columns).fill('---').join(' | ')} |`, ...rows.slice(1).map(format)].join('\n');
+}
+
+function block(content: string): string {
+  const trimmed = content.trim();
+  return trimmed ? `\n\n${trimmed}\n\n` : '';
+}
+
+// 强调标记放在空白之内，避免生成 "** text **"
+function wrapInline(content: string, marker: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)!;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map(line => line ? prefix + line : line).join('\n');
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// 清理空白：代码块外去掉行首尾多余空格、合并多余空行
+function cleanMarkdown(markdown: string): string {
+  return markdown
+    .split(/(\n```[\s\S]*?\n```)/)
+    .map((part, index) => index % 2 === 1 ? part : part
+      .replace(/[ \t]+\n/g, (spaces) => spaces.startsWith('  ') ? '  \n' : '\n')
+      .replace(/\n[ \t]+(?=[^-\d\s>|*])/g, '\n')
+      .replace(/\n{3,}/g, '\n\n'))
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function resolveUrl(href: string | undefined, baseUrl: string): string {
+  if (!href) return '';
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return '';
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * 格式化为工具结果文本
+ */
+export function formatWebFetchResult(result: WebFetchResult): string {
+  const end = result.offset + result.content.length;
+  const source = result.cached ? `缓存于 ${new Date(result.fetchedAt).toLocaleString()}` : '实时获取';
+  const lines = [
+    `# ${result.title || result.finalUrl}`,
+    `来源：${result.finalUrl}（${source}）`,
+    `内容：第 ${result.offset}–${end} 字符，共 ${result.totalLength} 字符`,
+    '',
+    result.content || '（没有可提取的文本内容）',
+  ];
+  if (result.nextOffset !== null) {
+    lines.push('', `[内容未完，使用 offset=${result.nextOffset} 继续读取]`);
+  }
+  return lines.join('\n');
+}
+
+export const webFetcher = new WebFetcher();
@@ -11,6 +11,7 @@ const isDev = !app.isPackaged;
 export class WindowManager {
   private petWindow: BrowserWindow | null = null;
   private chatWindow: BrowserWindow | null = null;
+  private pendingSessionId: string | null = null; // 对话窗口打开后要切换到的会话
 
   /**
    * 创建宠物窗口
@@ -138,6 +139,63 @@ export class WindowManager {
     return this.chatWindow;
   }
 
+  /**
+   * 打开对话窗口并切换到指定会话（会话为 null 时只打开窗口）
+   * 窗口尚未打开时，由新窗口加载完成后通过 takePendingSession 获取
+   */
+  openSession(sessionId: string | null): void {
+    this.clearPetReminders();
+    if (this.chatWindow) {
+      if (sessionId) {
+        this.chatWindow.webContents.send('chat:open-session', sessionId);
+      }
+      if (this.chatWindow.isMinimized()) {
+        this.chatWindow.restore();
+      }
+      this.chatWindow.show();
+      this.chatWindow.focus();
+      return;
+    }
+    this.pendingSessionId = sessionId;
+    this.createChatWindow();
+  }
+
+  /**
+   * 取出待切换的会话（只返回一次）
+   */
+  takePendingSession(): string | null {
+    const sessionId = this.pendingSessionId;
+    this.pendingSessionId = null;
+    return sessionId;
+  }
+
+  /**
+   * 在宠物窗口上提示提醒（晃动并显示角标），点击宠物打开对应会话
+   */
+  showPetReminder(reminder: { id: string; message: string; sessionId: string | null }): void {
+    this.sendToPet('pet:reminder', reminder);
+  }
+
+  /**
+   * 清除宠物窗口上的提醒提示
+   */
+  clearPetReminders(): void {
+    this.sendToPet('pet:reminder-clear');
+  }
+
+  // 宠物窗口还在加载时等加载完成再发送
+  private sendToPet(channel: string, ...args: any[]): void {
+    const contents = this.petWindow?.webContents;
+    if (!contents || contents.isDestroyed()) {
+      return;
+    }
+    if (contents.isLoading()) {
+      contents.once('did-finish-load', () => contents.send(channel, ...args));
+    } else {
+      contents.send(channel, ...args);
+    }
+  }
+
   /**
    * 关闭对话窗口
    */
@@ -0,0 +1,135 @@
+/**
+ * 工作区沙箱
+ *
+ * 职责：
+ * 1. 维护工作区根目录列表和越界访问策略
+ * 2. 将工具参数中的路径解析为绝对路径（相对路径基于会话工作目录）
+ * 3. 解析符号链接后检查路径是否位于工作区内，防止通过符号链接逃逸
+ */
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolvePath } from './fileTools';
+
+/**
+ * 工作区外路径的处理策略
+ * - deny：直接拒绝
+ * - confirm：询问用户，允许后本会话内不再询问
+ */
+export type OutsideWorkspacePolicy = 'deny' | 'confirm';
+
+/**
+ * 工作区配置
+ */
+export interface WorkspaceSettings {
+  roots: string[];                       // 工作区根目录（支持 ~）
+  outsidePolicy: OutsideWorkspacePolicy;
+  indexExclude?: string[];               // 文件名索引额外排除的 glob（.gitignore 之外）
+}
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  roots: ['~/Code'],
+  outsidePolicy: 'confirm',
+  indexExclude: [],
+};
+
+/**
+ * 路径检查结果
+ */
+export interface WorkspacePath {
+  path: string;          // 解析后的绝对路径（未展开符号链接）
+  realPath: string;      // 展开符号链接后的真实路径
+  root: string | null;   // 所在的工作区根目录，不在工作区内时为 null
+}
+
+// macOS 和 Windows 的文件系统默认不区分大小写
+const CASE_INSENSITIVE = process.platform === 'darwin' || process.platform === 'win32';
+
+/**
+ * 判断 target 是否等于 base 或位于 base 之下
+ */
+export function isWithin(base: string, target: string): boolean {
+  const relative = CASE_INSENSITIVE
+    ? path.relative(base.toLowerCase(), target.toLowerCase())
+    : path.relative(base, target);
+  return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * 获取真实路径；文件尚不存在时（如新建文件），展开最近一级已存在的父目录
+ */
+export async function realPathOf(absolutePath: string): Promise<string> {
+  const missing: string[] = [];
+  let current = absolutePath;
+
+  for (;;) {
+    try {
+      const real = await fs.promises.realpath(current);
+      return missing.length > 0 ? path.join(real, ...missing.reverse()) : real;
+    } catch (error: any) {
+      const parent = path.dirname(current);
+      if (error.code !== 'ENOENT' || parent === current) {
+        return absolutePath;
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+class WorkspaceSandbox {
+  private roots: string[] = DEFAULT_WORKSPACE_SETTINGS.roots.map(resolvePath);
+  private outsidePolicy: OutsideWorkspacePolicy = DEFAULT_WORKSPACE_SETTINGS.outsidePolicy;
+
+  /**
+   * 更新配置
+   */
+  configure(settings: Partial<WorkspaceSettings> = {}): void {
+    const roots = (settings.roots ?? DEFAULT_WORKSPACE_SETTINGS.roots)
+      .map(root => root.trim())
+      .filter(Boolean)
+      .map(resolvePath);
+    this.roots = Array.from(new Set(roots));
+    this.outsidePolicy = settings.outsidePolicy || DEFAULT_WORKSPACE_SETTINGS.outsidePolicy;
+  }
+
+  getRoots(): string[] {
+    return [...this.roots];
+  }
+
+  getOutsidePolicy(): OutsideWorkspacePolicy {
+    return this.outsidePolicy;
+  }
+
+  /**
+   * 默认工作目录：第一个存在的工作区根目录，都不存在时使用用户主目录
+   */
+  getDefaultCwd(): string {
+    return this.roots.find(root => fs.existsSync(root)) || os.homedir();
+  }
+
+  /**
+   * 解析路径：展开 ~，相对路径基于 cwd（未指定时使用默认工作目录）
+   */
+  resolve(inputPath: string, cwd?: string): string {
+    const expanded = inputPath === '~' || inputPath.startsWith('~/') ? resolvePath(inputPath) : inputPath;
+    return path.resolve(cwd || this.getDefaultCwd(), expanded);
+  }
+
+  /**
+   * 检查路径是否在工作区内（按真实路径判断，符号链接指向工作区外时视为越界）
+   */
+  async check(inputPath: string, cwd?: string): Promise<WorkspacePath> {
+    const absolutePath = this.resolve(inputPath, cwd);
+    const realPath = await realPathOf(absolutePath);
+
+    for (const root of this.roots) {
+      if (isWithin(await realPathOf(root), realPath)) {
+        return { path: absolutePath, realPath, root };
+      }
+    }
+    return { path: absolutePath, realPath, root: null };
+  }
+}
+
+export const workspaceSandbox = new WorkspaceSandbox();
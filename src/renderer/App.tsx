@@ -1,11 +1,18 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { MessageList } from './components/MessageList';
 import { InputArea } from './components/InputArea';
 import { SessionHistory } from './components/SessionHistory';
+import { ModelSelector } from './components/ModelSelector';
+import { PersonaSelector } from './components/PersonaSelector';
+import { WorkspaceSelector } from './components/WorkspaceSelector';
 import { CommandTest } from './components/CommandTest';
 import { McpConfig } from './components/McpConfig';
+import { ProviderSettings } from './components/ProviderSettings';
+import { PersonaSettings } from './components/PersonaSettings';
+import { ScriptToolSettings } from './components/ScriptToolSettings';
 import { CheckForUpdates } from './components/CheckForUpdates';
 import { useChatStore } from './store/chatStore';
+import { toDisplayMessages } from './utils/helpers';
 
 interface UserInfo {
   workid: string;
@@ -26,15 +33,38 @@ function App() {
   const [tempShortcut, setTempShortcut] = useState('CommandOrControl+Shift+0');
   const [clipboardImageExpiry, setClipboardImageExpiry] = useState(60);
   const [tempClipboardImageExpiry, setTempClipboardImageExpiry] = useState(60);
+  const [toolConcurrency, setToolConcurrency] = useState(4);
+  const [tempToolConcurrency, setTempToolConcurrency] = useState(4);
+  const [loopBudget, setLoopBudget] = useState<LoopBudget>({ maxToolRounds: 10, maxTokens: 200000, maxDurationMs: 300000 });
+  const [tempLoopBudget, setTempLoopBudget] = useState<LoopBudget>(loopBudget);
+  const [workspace, setWorkspace] = useState<WorkspaceSettings>({ roots: ['~/Code'], outsidePolicy: 'confirm' });
+  const [tempWorkspace, setTempWorkspace] = useState<WorkspaceSettings>(workspace);
+  const [webFetch, setWebFetch] = useState<WebFetchSettings>({ proxy: '', allowDomains: [], denyDomains: [], cacheTtlMinutes: 60 });
+  const [tempWebFetch, setTempWebFetch] = useState<WebFetchSettings>(webFetch);
+  const [ocr, setOcr] = useState<OcrSettings>({ mode: 'auto', languages: ['chi_sim', 'eng'] });
+  const [tempOcr, setTempOcr] = useState<OcrSettings>(ocr);
+  const [ocrStatus, setOcrStatus] = useState<OcrStatus | null>(null);
+  const [toolOutputBudgets, setToolOutputBudgets] = useState<ToolOutputBudgets>({ default: 16000, perTool: {} });
+  const [tempToolOutputBudgets, setTempToolOutputBudgets] = useState<ToolOutputBudgets>(toolOutputBudgets);
+  const [approvalRules, setApprovalRules] = useState<CommandApprovalRule[]>([]); // 已记住的命令允许规则
+  const [budgetNotice, setBudgetNotice] = useState<string | null>(null); // 循环预算耗尽提示
   const [autoUnselectImages, setAutoUnselectImages] = useState(true);
   const [tempAutoUnselectImages, setTempAutoUnselectImages] = useState(true);
+  const [tempAutoClipboard, setTempAutoClipboard] = useState(true);
   const [userInfo, setUserInfo] = useState<UserInfo | null>(null);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [showCommandTest, setShowCommandTest] = useState(false);
   const [showMcpConfig, setShowMcpConfig] = useState(false);
+  const [showProviderSettings, setShowProviderSettings] = useState(false);
+  const [showPersonaSettings, setShowPersonaSettings] = useState(false);
+  const [showScriptToolSettings, setShowScriptToolSettings] = useState(false);
+  const [activeProviderName, setActiveProviderName] = useState('');
+  // 会话事件状态：已处理的最后序号、本轮流式回复内容、正在补齐的会话
+  const lastSeqRef = useRef<Record<string, number>>({});
+  const streamRef = useRef<Record<string, string>>({});
+  const resyncingRef = useRef<Set<string>>(new Set());
   // 优化：使用 useCallback 包装函数，避免每次都创建新函数
   const setCurrentSession = useChatStore((state) => state.setCurrentSession);
-  const loadMessages = useChatStore((state) => state.loadMessages);
   const autoClipboard = useChatStore((state) => state.autoClipboard);
   const setAutoClipboard = useChatStore((state) => state.setAutoClipboard);
   const initSession = useChatStore((state) => state.initSession);
@@ -53,9 +83,11 @@ function App() {
     loadConfig();
     // 加载用户信息
     loadUserInfo();
-    // 只在首次加载时创建新会话
+    // 只在首次加载时创建新会话；从提醒打开时切换到提醒所在的会话
     if (!currentSessionId) {
-      createNewSession();
+      window.electronAPI.takePendingSession()
+        .then(sessionId => (sessionId ? handleSessionSelect({ id: sessionId }) : createNewSession()))
+        .catch(() => createNewSession());
     }
     
     // 监听MCP日志
@@ -69,15 +101,209 @@ function App() {
       }
     };
     
+    // 窗口已打开时点击提醒，切换到提醒所在的会话
+    const handleOpenSession = (sessionId: string) => {
+      handleSessionSelect({ id: sessionId });
+    };
+    
     // 注册监听器
     window.electronAPI?.onMcpLog?.(handleMcpLog);
+    window.electronAPI?.onOpenSession?.(handleOpenSession);
     
     return () => {
       // 清理监听器（如果有提供off方法）
       window.electronAPI?.offMcpLog?.(handleMcpLog);
+      window.electronAPI?.offOpenSession?.(handleOpenSession);
     };
   }, []); // 只在组件挂载时执行一次
 
+  // 应用单个会话事件
+  const applySessionEvent = (sessionId: string, data: any) => {
+    if (data.type === 'path-changed') {
+      // 激活分支变化（编辑、重新生成、切换分支或一轮对话结束），以主进程为准刷新消息
+      useChatStore.getState().loadMessages(sessionId, toDisplayMessages(data.messages));
+    } else if (data.type === 'summary-updated') {
+      // 较早的对话已压缩为摘要
+      console.log('📝 Conversation summarized:', data.summary.messageCount, 'messages');
+      useChatStore.getState().setSummary(sessionId, data.summary);
+    } else if (data.type === 'context-trimmed') {
+      // 上下文超出模型限制，主进程已裁剪
+      console.warn(`✂️ ${data.message}`);
+      useChatStore.getState().setContextTrimNotice(data.message);
+    } else if (data.type === 'status' && data.status === 'running') {
+      setBudgetNotice(null);
+      useChatStore.getState().setContextTrimNotice(null);
+    } else if (data.type === 'loop-budget-exhausted') {
+      // 循环预算耗尽，等待用户决定是否继续
+      console.warn(`⏸️ ${data.message}`);
+      setBudgetNotice(data.message);
+    } else if (data.type === 'model-downgrade' || data.type === 'model-retry') {
+      // 模型降级 / 限流重试通知
+      console.warn(`⚠️ ${data.message}`);
+      // 在界面显示降级通知（添加一条系统消息）
+      useChatStore.getState().addMessage(sessionId, {
+        id: `system-${Date.now()}`,
+        role: 'assistant',
+        content: `⚠️ ${data.message}`,
+        timestamp: Date.now(),
+      });
+    } else if (data.type === 'tool-executing') {
+      // 工具开始执行
+      console.log('🔧 Tool executing:', data.toolName, data.command, data.args);
+      useChatStore.getState().addToolExecution(sessionId, {
+        id: data.toolCallId,
+        command: data.command,
+        args: data.args,
+        status: 'executing',
+        result: null,
+      });
+    } else if (data.type === 'tool-completed') {
+      // 工具执行完成
+      console.log('✅ Tool completed:', data.toolName, data.status);
+      useChatStore.getState().updateToolExecution(sessionId, data.toolCallId, {
+        status: data.status,
+        result: data.result,
+      });
+    } else if (data.type === 'file-edit-proposed' || data.type === 'file-edit-updated') {
+      // 文件修改等待确认 / 确认结果
+      console.log('📝 File edit:', data.fileEdit.id, data.fileEdit.status);
+      useChatStore.getState().updateToolExecution(sessionId, data.toolCallId, {
+        fileEdit: data.fileEdit,
+      });
+    } else if (data.type === 'approval-required') {
+      // 命令等待用户审批
+      console.log('⚠️ Approval required:', data.approval.command);
+      useChatStore.getState().updateToolExecution(sessionId, data.toolCallId, {
+        approval: data.approval,
+      });
+    } else if (data.type === 'approval-resolved') {
+      // 审批结束（用户决定、超时或取消）
+      useChatStore.getState().updateToolExecution(sessionId, data.toolCallId, {
+        approval: undefined,
+      });
+    } else if (data.type === 'chunk') {
+      // 按增量拼接 AI 回复（offset 为增量在本轮回复中的起始位置）
+      const content = (streamRef.current[sessionId] || '').slice(0, data.offset) + data.delta;
+      streamRef.current[sessionId] = content;
+      useChatStore.getState().updateAssistantMessage(sessionId, content);
+    } else if (data.type === 'completed') {
+      // 完成
+      console.log('🎉 Received completed event, updating UI states...');
+      useChatStore.getState().setLoading(sessionId, false);
+      
+      // AI回复完成后，自动取消勾选截图和粘贴板选项
+      // 这样可以保持按钮状态（发送/取消）和复选框状态的一致性
+      console.log('📋 Unchecking screenshot and clipboard options...');
+      useChatStore.getState().setIncludeScreenshot(false);
+      useChatStore.getState().setIncludeClipboard(false);
+      console.log('✅ UI states updated');
+      
+      // 显示数据上报日志
+      if (data.usage) {
+        console.log('✅ 消息已发送到主进程，会话ID:', sessionId);
+        console.log('💰 使用 API 返回的实际 token:', data.usage.total_tokens);
+        console.log('📊 详细信息:', {
+          prompt_tokens: data.usage.prompt_tokens,
+          completion_tokens: data.usage.completion_tokens,
+          total_tokens: data.usage.total_tokens
+        });
+        console.log('📊 主进程正在上报数据到后台...');
+      } else {
+        console.log('⚠️ API 未返回 token 信息，主进程将使用估算值');
+      }
+    } else if (data.type === 'cancelled') {
+      // 用户取消
+      console.log('🛑 Received cancelled event');
+      useChatStore.getState().markCancelled(sessionId);
+      useChatStore.getState().setIncludeScreenshot(false);
+      useChatStore.getState().setIncludeClipboard(false);
+    } else if (data.type === 'reported') {
+      // 数据上报完成
+      console.log('✅ 数据上报成功！');
+      if (data.reportResult) {
+        console.log('   上报结果:', data.reportResult);
+      }
+    } else if (data.type === 'report-failed') {
+      // 数据上报失败
+      console.error('❌ 数据上报失败:', data.error);
+    } else if (data.type === 'error') {
+      // 错误
+      useChatStore.getState().setError(sessionId, data.error);
+      useChatStore.getState().setLoading(sessionId, false);
+    }
+  };
+
+  // 应用会话快照（事件缓存不足以补齐时使用）
+  const applySessionSnapshot = (sessionId: string, snapshot: NonNullable<SessionResyncResult['snapshot']>) => {
+    const store = useChatStore.getState();
+    store.loadMessages(sessionId, toDisplayMessages(snapshot.messages));
+    store.setSummary(sessionId, snapshot.summary);
+    store.setLoading(sessionId, snapshot.status === 'running');
+    streamRef.current[sessionId] = snapshot.currentResponse;
+    if (snapshot.status === 'running' && snapshot.currentResponse) {
+      store.updateAssistantMessage(sessionId, snapshot.currentResponse);
+    }
+    setBudgetNotice(snapshot.budgetExhausted?.message || null);
+  };
+
+  // 从主进程补齐会话事件（fromSeq 小于 0 时直接获取快照）
+  const resyncSession = async (sessionId: string, fromSeq: number) => {
+    if (resyncingRef.current.has(sessionId)) return;
+    resyncingRef.current.add(sessionId);
+    try {
+      const result = await window.electronAPI.sessionResync(sessionId, fromSeq);
+      if (result.snapshot) {
+        applySessionSnapshot(sessionId, result.snapshot);
+      } else {
+        result.events?.forEach(event => applySessionEvent(sessionId, event));
+      }
+      lastSeqRef.current[sessionId] = result.seq;
+    } catch (error) {
+      console.error('Failed to resync session:', error);
+    } finally {
+      resyncingRef.current.delete(sessionId);
+    }
+  };
+
+  // 打开设置时加载已记住的命令允许规则
+  useEffect(() => {
+    if (!showConfig) return;
+    window.electronAPI.approvalGetRules()
+      .then(setApprovalRules)
+      .catch(error => console.error('Failed to load approval rules:', error));
+    window.electronAPI.ocrGetStatus(true)
+      .then(setOcrStatus)
+      .catch(error => console.error('Failed to get OCR status:', error));
+  }, [showConfig]);
+
+  const handleRemoveApprovalRule = async (pattern: string) => {
+    try {
+      await window.electronAPI.approvalRemoveRule(pattern);
+      setApprovalRules(rules => rules.filter(rule => rule.pattern !== pattern));
+    } catch (error) {
+      console.error('Failed to remove approval rule:', error);
+    }
+  };
+
+  // 订阅当前会话的事件
+  useEffect(() => {
+    if (!currentSessionId) return;
+
+    const sessionId = currentSessionId;
+    window.electronAPI.sessionSubscribe(sessionId)
+      .then(seq => {
+        if (lastSeqRef.current[sessionId] === undefined) {
+          lastSeqRef.current[sessionId] = seq;
+        }
+      })
+      .catch(error => console.error('Failed to subscribe session:', error));
+
+    return () => {
+      window.electronAPI.sessionUnsubscribe(sessionId).catch(() => {});
+      delete lastSeqRef.current[sessionId];
+    };
+  }, [currentSessionId]);
+
   // 单独监听会话更新
   useEffect(() => {
     if (!currentSessionId) return;
@@ -85,83 +311,35 @@ function App() {
     const handleSessionUpdate = (data: any) => {
       // 只对重要事件打印日志，chunk事件太频繁不打印
       if (data.type !== 'chunk') {
-        console.log('Session update:', data.type, 'sessionId:', data.sessionId);
+        console.log('Session update:', data.type, 'sessionId:', data.sessionId, 'seq:', data.seq);
       }
       
       // 严格检查：只处理当前会话的更新
       if (data.sessionId !== currentSessionId) {
         return;
       }
-      
-      if (data.type === 'model-downgrade') {
-        // 模型降级通知
-        console.warn(`⚠️ ${data.message}`);
-        // 在界面显示降级通知（添加一条系统消息）
-        useChatStore.getState().addMessage(currentSessionId, {
-          id: `system-${Date.now()}`,
-          role: 'assistant',
-          content: `⚠️ ${data.message}`,
-          timestamp: Date.now(),
-        });
-      } else if (data.type === 'tool-executing') {
-        // 工具开始执行
-        console.log('🔧 Tool executing:', data.toolName, data.command, data.args);
-        useChatStore.getState().addToolExecution(currentSessionId, {
-          id: data.toolCallId,
-          command: data.command,
-          args: data.args,
-          status: 'executing',
-          result: null,
-        });
-      } else if (data.type === 'tool-completed') {
-        // 工具执行完成
-        console.log('✅ Tool completed:', data.toolName, data.status);
-        useChatStore.getState().updateToolExecution(currentSessionId, data.toolCallId, {
-          status: data.status,
-          result: data.result,
-        });
-      } else if (data.type === 'chunk') {
-        // 更新 AI 回复
-        useChatStore.getState().updateAssistantMessage(currentSessionId, data.content, data.tool_calls);
-      } else if (data.type === 'completed') {
-        // 完成
-        console.log('🎉 Received completed event, updating UI states...');
-        useChatStore.getState().setLoading(currentSessionId, false);
-        
-        // AI回复完成后，自动取消勾选截图和粘贴板选项
-        // 这样可以保持按钮状态（发送/取消）和复选框状态的一致性
-        console.log('📋 Unchecking screenshot and clipboard options...');
-        useChatStore.getState().setIncludeScreenshot(false);
-        useChatStore.getState().setIncludeClipboard(false);
-        console.log('✅ UI states updated');
-        
-        // 显示数据上报日志
-        if (data.usage) {
-          console.log('✅ 消息已发送到主进程，会话ID:', currentSessionId);
-          console.log('💰 使用 API 返回的实际 token:', data.usage.total_tokens);
-          console.log('📊 详细信息:', {
-            prompt_tokens: data.usage.prompt_tokens,
-            completion_tokens: data.usage.completion_tokens,
-            total_tokens: data.usage.total_tokens
-          });
-          console.log('📊 主进程正在上报数据到后台...');
-        } else {
-          console.log('⚠️ API 未返回 token 信息，主进程将使用估算值');
+
+      // 补齐进行中，补齐结果会包含这段时间的事件
+      if (resyncingRef.current.has(currentSessionId)) {
+        return;
+      }
+
+      const lastSeq = lastSeqRef.current[currentSessionId];
+      if (lastSeq !== undefined) {
+        if (data.seq <= lastSeq) {
+          // 重复事件
+          return;
         }
-      } else if (data.type === 'reported') {
-        // 数据上报完成
-        console.log('✅ 数据上报成功！');
-        if (data.reportResult) {
-          console.log('   上报结果:', data.reportResult);
+        if (data.seq > lastSeq + 1) {
+          // 序号不连续，说明丢失了事件，向主进程补齐
+          console.warn(`⚠️ Session event gap: expected ${lastSeq + 1}, got ${data.seq}, resyncing...`);
+          resyncSession(currentSessionId, lastSeq);
+          return;
         }
-      } else if (data.type === 'report-failed') {
-        // 数据上报失败
-        console.error('❌ 数据上报失败:', data.error);
-      } else if (data.type === 'error') {
-        // 错误
-        useChatStore.getState().setError(currentSessionId, data.error);
-        useChatStore.getState().setLoading(currentSessionId, false);
       }
+
+      lastSeqRef.current[currentSessionId] = data.seq;
+      applySessionEvent(currentSessionId, data);
     };
     
     window.electronAPI.onSessionUpdate(handleSessionUpdate);
@@ -194,17 +372,60 @@ function App() {
         setClipboardImageExpiry(config.clipboardImageExpiry);
         setTempClipboardImageExpiry(config.clipboardImageExpiry);
       }
+      // 加载工具并发数
+      if (config?.toolConcurrency !== undefined) {
+        setToolConcurrency(config.toolConcurrency);
+        setTempToolConcurrency(config.toolConcurrency);
+      }
+      // 加载循环预算
+      if (config?.loopBudget) {
+        setLoopBudget(config.loopBudget);
+        setTempLoopBudget(config.loopBudget);
+      }
+      // 加载工作区配置
+      if (config?.workspace) {
+        setWorkspace(config.workspace);
+        setTempWorkspace(config.workspace);
+      }
+      // 加载网页抓取配置
+      if (config?.webFetch) {
+        setWebFetch(config.webFetch);
+        setTempWebFetch(config.webFetch);
+      }
+      // 加载 OCR 配置
+      if (config?.ocr) {
+        setOcr(config.ocr);
+        setTempOcr(config.ocr);
+      }
+      // 加载工具输出上限
+      if (config?.toolOutputBudgets) {
+        setToolOutputBudgets(config.toolOutputBudgets);
+        setTempToolOutputBudgets(config.toolOutputBudgets);
+      }
       // 加载自动取消图片选项
       if (config?.autoUnselectImages !== undefined) {
         setAutoUnselectImages(config.autoUnselectImages);
         setTempAutoUnselectImages(config.autoUnselectImages);
       }
+      // 加载自动复制选项
+      if (config?.autoClipboard !== undefined) {
+        setAutoClipboard(config.autoClipboard);
+        setTempAutoClipboard(config.autoClipboard);
+      }
+      // 加载当前模型提供方
+      loadActiveProvider(config);
     } catch (error) {
       console.error('Load config failed:', error);
       setShowConfig(true);
     }
   };
 
+  const loadActiveProvider = async (config?: { providers?: ProviderConfig[]; activeProviderId?: string }) => {
+    const current = config || await window.electronAPI.getConfig();
+    const activeProvider = current.providers?.find(p => p.id === current.activeProviderId);
+    setActiveProviderName(activeProvider?.name || '');
+  };
+
   const loadUserInfo = async () => {
     try {
       const config = await window.electronAPI.getConfig();
@@ -226,13 +447,39 @@ function App() {
         shortcut: tempShortcut,
         clipboardImageExpiry: tempClipboardImageExpiry,
         autoUnselectImages: tempAutoUnselectImages,
+        autoClipboard: tempAutoClipboard,
+        toolConcurrency: tempToolConcurrency,
+        loopBudget: tempLoopBudget,
+        workspace: {
+          ...tempWorkspace,
+          roots: tempWorkspace.roots.map(root => root.trim()).filter(Boolean),
+          indexExclude: (tempWorkspace.indexExclude || []).map(glob => glob.trim()).filter(Boolean),
+        },
+        webFetch: {
+          ...tempWebFetch,
+          proxy: tempWebFetch.proxy.trim(),
+          allowDomains: tempWebFetch.allowDomains.map(domain => domain.trim()).filter(Boolean),
+          denyDomains: tempWebFetch.denyDomains.map(domain => domain.trim()).filter(Boolean),
+        },
+        ocr: {
+          ...tempOcr,
+          languages: tempOcr.languages.map(lang => lang.trim()).filter(Boolean),
+        },
+        toolOutputBudgets: tempToolOutputBudgets,
       });
       // 只保存用户输入的 API Key 到状态（不保存默认 API Key）
       setApiKey(finalApiKey);
       setKnowledge(tempKnowledge);
       setShortcut(tempShortcut);
       setClipboardImageExpiry(tempClipboardImageExpiry);
+      setToolConcurrency(tempToolConcurrency);
+      setLoopBudget(tempLoopBudget);
+      setWorkspace(tempWorkspace);
+      setWebFetch(tempWebFetch);
+      setOcr(tempOcr);
+      setToolOutputBudgets(tempToolOutputBudgets);
       setAutoUnselectImages(tempAutoUnselectImages);
+      setAutoClipboard(tempAutoClipboard);
       useChatStore.getState().setKnowledge(tempKnowledge);
       setShowConfig(false);
       // 创建新会话（会自动清空）
@@ -250,38 +497,34 @@ function App() {
       // 切换到新会话（会自动创建空状态）
       setCurrentSessionId(session.id);
       setCurrentSession(session.id);
+      setBudgetNotice(null);
       console.log('New session created:', session.id);
     } catch (error) {
       console.error('Failed to create session:', error);
     }
   };
 
+  // 继续因循环预算耗尽而暂停的任务
+  const handleContinue = async () => {
+    if (!currentSessionId) return;
+    setBudgetNotice(null);
+    useChatStore.getState().setLoading(currentSessionId, true);
+    try {
+      await window.electronAPI.sessionContinue(currentSessionId);
+    } catch (error) {
+      console.error('Failed to continue session:', error);
+      useChatStore.getState().setLoading(currentSessionId, false);
+    }
+  };
+
   // 选择会话
   const handleSessionSelect = async (session: any) => {
     try {
       setCurrentSessionId(session.id);
       
-      // 加载会话消息到 UI
-      const messages = session.messages.map((msg: any) => {
-        // 处理 content：如果是数组（多模态），提取文本部分
-        let content = msg.content;
-        if (Array.isArray(content)) {
-          // 多模态内容，提取文本
-          const textPart = content.find((part: any) => part.type === 'text');
-          content = textPart ? textPart.text : '';
-        }
-        
-        return {
-          id: msg.id,
-          role: msg.role,
-          content: content, // 确保是字符串
-          imageUrls: msg.imageUrls,
-          clipboardImageUrls: msg.clipboardImageUrls,
-          timestamp: msg.timestamp,
-        };
-      });
-      
-      loadMessages(session.id, messages);
+      // 先订阅再获取快照，保证快照之后的事件不会丢失
+      await window.electronAPI.sessionSubscribe(session.id);
+      await resyncSession(session.id, -1);
       setCurrentSession(session.id);
       console.log('Session loaded:', session.id);
     } catch (error) {
@@ -342,6 +585,66 @@ function App() {
             </div>
           </div>
 
+          {/* 模型提供方配置 */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <label className="text-sm font-medium text-gray-700">
+                🤖 模型提供方
+              </label>
+              <button
+                onClick={() => setShowProviderSettings(true)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                管理提供方 →
+              </button>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-xs text-gray-600">
+                当前使用：{activeProviderName || '默认'}（支持 OpenAI 兼容接口与 Anthropic Messages 接口）
+              </p>
+            </div>
+          </div>
+
+          {/* 人设配置 */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <label className="text-sm font-medium text-gray-700">
+                🎭 人设与系统提示词
+              </label>
+              <button
+                onClick={() => setShowPersonaSettings(true)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                管理人设 →
+              </button>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-xs text-gray-600">
+                系统提示词模板支持 {'{date}'}、{'{os}'}、{'{cwd}'}、{'{workspace_roots}'}、{'{knowledge}'} 等变量，可在聊天界面为每个会话选择人设
+              </p>
+            </div>
+          </div>
+
+          {/* 自定义脚本工具 */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <label className="text-sm font-medium text-gray-700">
+                🧩 自定义脚本工具
+              </label>
+              <button
+                onClick={() => setShowScriptToolSettings(true)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                管理工具 →
+              </button>
+            </div>
+            <div className="bg-gray-50 border border-gray-200 rounded p-3">
+              <p className="text-xs text-gray-600">
+                把常用脚本（部署状态、日志查询、工单查询等）声明为 AI 可直接调用的工具，参数按模板代入，不经过 shell
+              </p>
+            </div>
+          </div>
+
           {/* API Key 配置 */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -381,8 +684,8 @@ function App() {
             <label className="flex items-center gap-2 cursor-pointer">
               <input
                 type="checkbox"
-                checked={autoClipboard}
-                onChange={(e) => setAutoClipboard(e.target.checked)}
+                checked={tempAutoClipboard}
+                onChange={(e) => setTempAutoClipboard(e.target.checked)}
                 className="w-4 h-4"
               />
               <span className="text-sm font-medium text-gray-700">
@@ -390,7 +693,7 @@ function App() {
               </span>
             </label>
             <p className="text-xs text-gray-500 mt-2 ml-6">
-              开启后，AI回复中的建议内容会自动复制到粘贴板
+              开启后，AI 给出的第一条建议回复会自动复制，AI 写入粘贴板时也不再逐次确认；关闭后需要点击建议卡片复制
             </p>
           </div>
 
@@ -412,6 +715,259 @@ function App() {
             </p>
           </div>
 
+          {/* 工具并发数配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              🔧 只读工具最大并发数
+            </label>
+            <input
+              type="number"
+              value={tempToolConcurrency}
+              onChange={(e) => setTempToolConcurrency(Math.max(1, parseInt(e.target.value) || 4))}
+              min="1"
+              max="16"
+              className="input-field"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              AI 一次请求多个读取类工具时并发执行的数量，执行命令等修改类工具始终逐个执行，默认4
+            </p>
+          </div>
+
+          {/* 循环预算配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              ⏱️ 单次任务预算
+            </label>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <span className="text-xs text-gray-500">工具调用轮数</span>
+                <input
+                  type="number"
+                  value={tempLoopBudget.maxToolRounds}
+                  onChange={(e) => setTempLoopBudget({ ...tempLoopBudget, maxToolRounds: Math.max(1, parseInt(e.target.value) || 10) })}
+                  min="1"
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">Token 总量</span>
+                <input
+                  type="number"
+                  value={tempLoopBudget.maxTokens}
+                  onChange={(e) => setTempLoopBudget({ ...tempLoopBudget, maxTokens: Math.max(1000, parseInt(e.target.value) || 200000) })}
+                  min="1000"
+                  step="10000"
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">耗时（秒）</span>
+                <input
+                  type="number"
+                  value={Math.round(tempLoopBudget.maxDurationMs / 1000)}
+                  onChange={(e) => setTempLoopBudget({ ...tempLoopBudget, maxDurationMs: Math.max(10, parseInt(e.target.value) || 300) * 1000 })}
+                  min="10"
+                  className="input-field"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              任一项达到上限时任务暂停，可点击「继续」恢复执行
+            </p>
+          </div>
+
+          {/* 工具输出上限配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              ✂️ 工具输出上限（字符）
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <span className="text-xs text-gray-500">默认</span>
+                <input
+                  type="number"
+                  value={tempToolOutputBudgets.default}
+                  onChange={(e) => setTempToolOutputBudgets({ ...tempToolOutputBudgets, default: Math.max(0, parseInt(e.target.value) || 0) })}
+                  min="0"
+                  step="1000"
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <span className="text-xs text-gray-500">执行命令</span>
+                <input
+                  type="number"
+                  value={tempToolOutputBudgets.perTool.execute_command ?? tempToolOutputBudgets.default}
+                  onChange={(e) => setTempToolOutputBudgets({
+                    ...tempToolOutputBudgets,
+                    perTool: { ...tempToolOutputBudgets.perTool, execute_command: Math.max(0, parseInt(e.target.value) || 0) },
+                  })}
+                  min="0"
+                  step="1000"
+                  className="input-field"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              超出上限的输出只保留开头和结尾发送给 AI，完整内容可由 AI 按需分页读取；0 表示不限制
+            </p>
+          </div>
+
+          {/* 工作区配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              📁 工作区目录
+            </label>
+            <textarea
+              value={tempWorkspace.roots.join('\n')}
+              onChange={(e) => setTempWorkspace({ ...tempWorkspace, roots: e.target.value.split('\n') })}
+              rows={3}
+              placeholder="~/Code"
+              className="input-field font-mono text-sm"
+            />
+            <div className="flex gap-4 mt-2">
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={tempWorkspace.outsidePolicy === 'confirm'}
+                  onChange={() => setTempWorkspace({ ...tempWorkspace, outsidePolicy: 'confirm' })}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm text-gray-700">工作区外询问我</span>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  checked={tempWorkspace.outsidePolicy === 'deny'}
+                  onChange={() => setTempWorkspace({ ...tempWorkspace, outsidePolicy: 'deny' })}
+                  className="w-4 h-4"
+                />
+                <span className="text-sm text-gray-700">工作区外一律拒绝</span>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              每行一个目录。AI 的文件和命令工具只能访问这些目录（符号链接按实际位置判断），第一个目录为默认工作目录
+            </p>
+            <input
+              type="text"
+              value={(tempWorkspace.indexExclude || []).join(', ')}
+              onChange={(e) => setTempWorkspace({ ...tempWorkspace, indexExclude: e.target.value.split(',') })}
+              placeholder="文件索引排除规则，如 *.min.js, logs/**"
+              className="input-field text-sm mt-2"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              查找文件时使用后台索引，自动忽略 .gitignore 中的文件和 node_modules 等目录，可用逗号分隔补充排除规则
+            </p>
+          </div>
+
+          {/* 网页抓取配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              🌐 网页抓取
+            </label>
+            <input
+              type="text"
+              value={tempWebFetch.proxy}
+              onChange={(e) => setTempWebFetch({ ...tempWebFetch, proxy: e.target.value })}
+              placeholder="代理，留空使用系统代理，如 http://127.0.0.1:7890 或 direct"
+              className="input-field text-sm"
+            />
+            <input
+              type="text"
+              value={tempWebFetch.allowDomains.join(', ')}
+              onChange={(e) => setTempWebFetch({ ...tempWebFetch, allowDomains: e.target.value.split(',') })}
+              placeholder="只允许的域名（留空不限制），如 github.com, *.example.com"
+              className="input-field text-sm mt-2"
+            />
+            <input
+              type="text"
+              value={tempWebFetch.denyDomains.join(', ')}
+              onChange={(e) => setTempWebFetch({ ...tempWebFetch, denyDomains: e.target.value.split(',') })}
+              placeholder="拒绝的域名，如 internal.example.com"
+              className="input-field text-sm mt-2"
+            />
+            <div className="flex items-center gap-2 mt-2">
+              <span className="text-sm text-gray-700">缓存</span>
+              <input
+                type="number"
+                min={0}
+                value={tempWebFetch.cacheTtlMinutes}
+                onChange={(e) => setTempWebFetch({ ...tempWebFetch, cacheTtlMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="input-field text-sm w-24"
+              />
+              <span className="text-sm text-gray-700">分钟</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              AI 可以打开网页并提取正文。域名包含其子域名，拒绝列表优先；缓存为 0 表示每次重新下载
+            </p>
+          </div>
+
+          {/* OCR 配置 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              🔤 截图文字识别（OCR）
+            </label>
+            <div className="flex gap-4">
+              {([
+                ['auto', '模型不支持图片时附加'],
+                ['always', '总是附加'],
+                ['off', '关闭'],
+              ] as const).map(([mode, label]) => (
+                <label key={mode} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    checked={tempOcr.mode === mode}
+                    onChange={() => setTempOcr({ ...tempOcr, mode })}
+                    className="w-4 h-4"
+                  />
+                  <span className="text-sm text-gray-700">{label}</span>
+                </label>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={tempOcr.languages.join(', ')}
+              onChange={(e) => setTempOcr({ ...tempOcr, languages: e.target.value.split(',') })}
+              placeholder="识别语言，如 chi_sim, eng"
+              className="input-field text-sm mt-2"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              使用本机 Tesseract 离线识别截图和粘贴板图片中的文字，识别结果保存在会话中，可在历史记录中搜索
+            </p>
+            {ocrStatus && (
+              <p className={`text-xs mt-1 ${ocrStatus.available ? 'text-green-600' : 'text-orange-600'}`}>
+                {ocrStatus.available
+                  ? `✅ 已找到 ${ocrStatus.binary}（语言包：${ocrStatus.languages.join(', ')}）`
+                  : `⚠️ ${ocrStatus.error}`}
+              </p>
+            )}
+          </div>
+
+          {/* 已允许的命令 */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              ✅ 始终允许的命令
+            </label>
+            {approvalRules.length === 0 ? (
+              <p className="text-xs text-gray-500">暂无。执行需要确认的命令时，可选择「始终允许」记住命令前缀</p>
+            ) : (
+              <div className="border border-gray-200 rounded divide-y divide-gray-200">
+                {approvalRules.map(rule => (
+                  <div key={rule.pattern} className="px-3 py-1.5 flex items-center gap-2">
+                    <code className="text-sm font-mono text-gray-800 flex-1 truncate">{rule.pattern} …</code>
+                    <span className="text-xs text-gray-400">{new Date(rule.createdAt).toLocaleDateString()}</span>
+                    <button
+                      onClick={() => handleRemoveApprovalRule(rule.pattern)}
+                      className="text-xs text-red-600 hover:text-red-800"
+                    >
+                      删除
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
           {/* 自动取消图片选项配置 */}
           <div className="mb-6">
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -490,6 +1046,22 @@ function App() {
       
       {/* MCP配置弹窗 */}
       {showMcpConfig && <McpConfig onClose={() => setShowMcpConfig(false)} />}
+
+      {/* 模型提供方配置弹窗 */}
+      {showProviderSettings && (
+        <ProviderSettings
+          onClose={() => {
+            setShowProviderSettings(false);
+            loadActiveProvider();
+          }}
+        />
+      )}
+
+      {/* 人设配置弹窗 */}
+      {showPersonaSettings && <PersonaSettings onClose={() => setShowPersonaSettings(false)} />}
+
+      {/* 自定义脚本工具弹窗 */}
+      {showScriptToolSettings && <ScriptToolSettings onClose={() => setShowScriptToolSettings(false)} />}
       </>
     );
   }
@@ -504,6 +1076,15 @@ function App() {
           <h1 className="text-lg font-semibold text-gray-800">桌面伙伴</h1>
         </div>
         <div className="flex items-center gap-3">
+          {/* 会话模型 */}
+          <ModelSelector sessionId={currentSessionId} />
+
+          {/* 会话人设 */}
+          <PersonaSelector sessionId={currentSessionId} />
+
+          {/* 会话工作目录 */}
+          <WorkspaceSelector sessionId={currentSessionId} />
+
           {/* 历史会话 */}
           <SessionHistory
             currentSessionId={currentSessionId}
@@ -517,7 +1098,14 @@ function App() {
               setTempKnowledge(knowledge);
               setTempShortcut(shortcut);
               setTempClipboardImageExpiry(clipboardImageExpiry);
+              setTempToolConcurrency(toolConcurrency);
+              setTempLoopBudget(loopBudget);
+              setTempWorkspace(workspace);
+              setTempWebFetch(webFetch);
+              setTempOcr(ocr);
+              setTempToolOutputBudgets(toolOutputBudgets);
               setTempAutoUnselectImages(autoUnselectImages);
+              setTempAutoClipboard(autoClipboard);
               setShowConfig(true);
             }}
             className="text-sm text-gray-600 hover:text-gray-800 px-3 py-1 rounded hover:bg-gray-100"
@@ -593,6 +1181,20 @@ function App() {
           {/* 消息列表 */}
           <MessageList sessionId={currentSessionId} />
 
+          {/* 循环预算耗尽提示 */}
+          {budgetNotice && (
+            <div className="mx-4 mb-2 px-3 py-2 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 flex items-center gap-2">
+              <span>⏸️</span>
+              <span className="flex-1">{budgetNotice}，任务已暂停</span>
+              <button
+                onClick={handleContinue}
+                className="px-3 py-1 bg-yellow-500 text-white rounded hover:bg-yellow-600"
+              >
+                继续
+              </button>
+            </div>
+          )}
+
           {/* 输入区域 */}
           <InputArea currentSessionId={currentSessionId} />
         </>
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+
+interface ApprovalPromptProps {
+  approval: CommandApprovalRequest;
+}
+
+/**
+ * 命令审批提示
+ * 显示命令和风险说明，提供允许 / 拒绝 / 始终允许（可编辑命令前缀）三种选择，超时后主进程按拒绝处理
+ * 主进程判断不能记住的命令（删除类、包含命令替换或重定向等）只提供允许和拒绝
+ */
+export function ApprovalPrompt({ approval }: ApprovalPromptProps) {
+  const [pattern, setPattern] = useState(approval.suggestedPattern);
+  const [busy, setBusy] = useState(false);
+  const [remaining, setRemaining] = useState(() => Math.max(0, approval.expiresAt - Date.now()));
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      setRemaining(Math.max(0, approval.expiresAt - Date.now()));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [approval.expiresAt]);
+
+  const resolve = async (decision: 'approve' | 'deny' | 'always') => {
+    setBusy(true);
+    try {
+      await window.electronAPI.approvalResolve(approval.id, decision, decision === 'always' ? pattern : undefined);
+    } catch (error) {
+      console.error('Resolve approval failed:', error);
+      setBusy(false);
+    }
+  };
+
+  const seconds = Math.ceil(remaining / 1000);
+
+  return (
+    <div className="border border-yellow-300 rounded-lg bg-yellow-50 text-sm">
+      <div className="px-3 py-2 flex items-center gap-2 border-b border-yellow-200">
+        <span className="font-medium text-yellow-800 flex-1">⚠️ 该命令需要你的确认</span>
+        <span className="text-xs text-yellow-700">
+          {Math.floor(seconds / 60)}:{(seconds % 60).toString().padStart(2, '0')} 后自动拒绝
+        </span>
+      </div>
+      <div className="px-3 py-2 space-y-1">
+        {approval.reason && <div className="text-xs text-yellow-800">{approval.reason}</div>}
+        <pre className="text-xs font-mono bg-white border border-yellow-200 rounded px-2 py-1 whitespace-pre-wrap break-all">
+          {approval.command}
+        </pre>
+        {approval.cwd && <div className="text-xs text-gray-500 truncate" title={approval.cwd}>📁 {approval.cwd}</div>}
+      </div>
+      <div className="px-3 py-2 border-t border-yellow-200 flex flex-wrap items-center gap-2">
+        {approval.allowAlways ? (
+          <>
+            <span className="text-xs text-gray-600">始终允许以</span>
+            <input
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              disabled={busy}
+              className="text-xs font-mono px-2 py-1 border border-gray-300 rounded w-36"
+            />
+            <span className="text-xs text-gray-600">开头的命令</span>
+          </>
+        ) : (
+          <span className="text-xs text-gray-500">该命令每次执行都需要确认</span>
+        )}
+        <div className="flex-1" />
+        <button
+          onClick={() => resolve('deny')}
+          disabled={busy}
+          className="px-3 py-1 text-xs border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-50"
+        >
+          拒绝
+        </button>
+        {approval.allowAlways && (
+          <button
+            onClick={() => resolve('always')}
+            disabled={busy || !pattern.trim()}
+            className="px-3 py-1 text-xs border border-blue-300 text-blue-700 rounded hover:bg-blue-50 disabled:opacity-50"
+          >
+            始终允许
+          </button>
+        )}
+        <button
+          onClick={() => resolve('approve')}
+          disabled={busy}
+          className="px-3 py-1 text-xs bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+        >
+          允许本次
+        </button>
+      </div>
+    </div>
+  );
+}
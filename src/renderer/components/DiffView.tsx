@@ -0,0 +1,31 @@
+interface DiffViewProps {
+  diff: string;
+}
+
+/**
+ * 统一 diff 文本渲染（新增行绿色、删除行红色、hunk 头蓝色）
+ */
+export function DiffView({ diff }: DiffViewProps) {
+  return (
+    <pre className="text-xs font-mono overflow-x-auto max-h-96 overflow-y-auto py-2">
+      {diff.split('\n').map((line, index) => (
+        <div
+          key={index}
+          className={`px-3 whitespace-pre ${
+            line.startsWith('+++') || line.startsWith('---') || line.startsWith('diff --git')
+              ? 'text-gray-500 font-semibold'
+              : line.startsWith('@@')
+                ? 'text-blue-600 bg-blue-50'
+                : line.startsWith('+')
+                  ? 'text-green-800 bg-green-50'
+                  : line.startsWith('-')
+                    ? 'text-red-800 bg-red-50'
+                    : 'text-gray-700'
+          }`}
+        >
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { DiffView } from './DiffView';
+
+interface FileEditViewProps {
+  edit: FileEditRecord;
+  onApply?: () => Promise<void>;
+  onReject?: () => Promise<void>;
+  onRevert?: () => Promise<void>;
+}
+
+const ACTION_LABELS: Record<FileEditRecord['files'][number]['action'], string> = {
+  create: '新建',
+  modify: '修改',
+  delete: '删除',
+};
+
+const STATUS_LABELS: Record<FileEditRecord['status'], { text: string; className: string }> = {
+  pending: { text: '⏳ 等待确认', className: 'text-orange-600' },
+  applied: { text: '✅ 已应用', className: 'text-green-600' },
+  rejected: { text: '🚫 未应用', className: 'text-gray-500' },
+  reverted: { text: '↩️ 已撤销', className: 'text-gray-500' },
+};
+
+/**
+ * 文件修改预览
+ * 渲染统一 diff，待确认时显示应用 / 拒绝按钮，已应用时可撤销
+ */
+export function FileEditView({ edit, onApply, onReject, onRevert }: FileEditViewProps) {
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action?: () => Promise<void>) => {
+    if (!action) return;
+    setBusy(true);
+    try {
+      await action();
+    } catch (error) {
+      alert('操作失败：' + (error instanceof Error ? error.message : error));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const status = STATUS_LABELS[edit.status];
+
+  return (
+    <div className="border border-gray-300 rounded-lg overflow-hidden bg-white">
+      <div className="px-3 py-2 bg-gray-100 border-b border-gray-300 flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-700 flex-1 min-w-0 truncate">
+          📝 {edit.files.map(file => `${ACTION_LABELS[file.action]} ${file.path}`).join('，')}
+        </span>
+        <span className={`text-xs flex-shrink-0 ${status.className}`}>{status.text}</span>
+      </div>
+
+      <DiffView diff={edit.diff} />
+
+      {edit.status === 'pending' && (onApply || onReject) && (
+        <div className="px-3 py-2 border-t border-gray-300 bg-gray-50 flex justify-end gap-2">
+          <button
+            onClick={() => run(onReject)}
+            disabled={busy}
+            className="text-sm px-3 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+          >
+            拒绝
+          </button>
+          <button
+            onClick={() => run(onApply)}
+            disabled={busy}
+            className="text-sm px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            应用
+          </button>
+        </div>
+      )}
+
+      {edit.status === 'applied' && onRevert && (
+        <div className="px-3 py-2 border-t border-gray-300 bg-gray-50 flex justify-end">
+          <button
+            onClick={() => run(onRevert)}
+            disabled={busy}
+            className="text-sm px-3 py-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+          >
+            ↩️ 撤销修改
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
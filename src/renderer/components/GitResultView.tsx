@@ -0,0 +1,196 @@
+import { DiffView } from './DiffView';
+
+interface GitResultViewProps {
+  result: GitToolResult;
+}
+
+const STATUS_BADGES: Record<string, { text: string; className: string }> = {
+  M: { text: 'M', className: 'bg-yellow-100 text-yellow-800' },
+  A: { text: 'A', className: 'bg-green-100 text-green-800' },
+  D: { text: 'D', className: 'bg-red-100 text-red-800' },
+  R: { text: 'R', className: 'bg-blue-100 text-blue-800' },
+  C: { text: 'C', className: 'bg-blue-100 text-blue-800' },
+  U: { text: 'U', className: 'bg-orange-100 text-orange-800' },
+  '?': { text: '?', className: 'bg-gray-200 text-gray-700' },
+};
+
+// 结果标题
+export function gitResultTitle(result: GitToolResult): string {
+  switch (result.kind) {
+    case 'git_status':
+      return `🌿 Git 状态：${result.branch || '分离 HEAD'}`;
+    case 'git_diff':
+      return `🌿 Git 差异：${result.range}`;
+    case 'git_log':
+      return `🌿 Git 提交历史（${result.commits.length} 条）`;
+    case 'git_show':
+      return `🌿 Git 提交：${result.commit.shortHash} ${result.commit.subject}`;
+    case 'git_blame':
+      return `🌿 Git Blame：${result.path}`;
+  }
+}
+
+/**
+ * git 工具结果
+ * status 按暂存 / 未暂存 / 未跟踪分组，log 为提交列表，diff / show 为着色 diff，blame 为逐行表格
+ */
+export function GitResultView({ result }: GitResultViewProps) {
+  switch (result.kind) {
+    case 'git_status':
+      return <GitStatusView result={result} />;
+    case 'git_log':
+      return <GitCommitList commits={result.commits} />;
+    case 'git_diff':
+      return (
+        <div className="text-xs">
+          <DiffFileList files={result.files} truncated={result.truncated} />
+          {result.diff && <DiffView diff={result.diff} />}
+        </div>
+      );
+    case 'git_show':
+      return (
+        <div className="text-xs">
+          <div className="px-3 py-2 border-b border-gray-200">
+            <div className="font-medium text-gray-800">{result.commit.subject}</div>
+            <div className="text-gray-500 mt-0.5">
+              <span className="font-mono">{result.commit.shortHash}</span> · {result.commit.author} · {formatDate(result.commit.date)}
+            </div>
+            {result.commit.body && (
+              <pre className="mt-1 text-gray-700 whitespace-pre-wrap font-sans">{result.commit.body}</pre>
+            )}
+          </div>
+          <DiffFileList files={result.files} truncated={result.truncated} />
+          {result.diff && <DiffView diff={result.diff} />}
+        </div>
+      );
+    case 'git_blame':
+      return <GitBlameView result={result} />;
+  }
+}
+
+function GitStatusView({ result }: { result: Extract<GitToolResult, { kind: 'git_status' }> }) {
+  const clean = result.staged.length + result.unstaged.length + result.untracked.length + result.conflicted.length === 0;
+
+  return (
+    <div className="text-xs">
+      <div className="px-3 py-1 text-gray-500">
+        {result.branch || '分离 HEAD'}
+        {result.upstream && <span> → {result.upstream}</span>}
+        {result.ahead > 0 && <span className="text-green-700 ml-1">↑{result.ahead}</span>}
+        {result.behind > 0 && <span className="text-orange-600 ml-1">↓{result.behind}</span>}
+        {clean && <span className="ml-1">· 工作区干净</span>}
+      </div>
+      <StatusGroup title="冲突" files={result.conflicted.map(path => ({ path, status: 'U' }))} />
+      <StatusGroup title="已暂存" files={result.staged} />
+      <StatusGroup title="未暂存" files={result.unstaged} />
+      <StatusGroup title="未跟踪" files={result.untracked.map(path => ({ path, status: '?' }))} />
+    </div>
+  );
+}
+
+function StatusGroup({ title, files }: { title: string; files: Array<{ path: string; oldPath?: string; status: string }> }) {
+  if (files.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="border-t border-gray-200">
+      <div className="px-3 py-1 bg-gray-50 font-medium text-gray-700">{title}（{files.length}）</div>
+      <div className="max-h-60 overflow-y-auto">
+        {files.map((file) => {
+          const badge = STATUS_BADGES[file.status] || STATUS_BADGES.M;
+          return (
+            <div key={`${file.status}:${file.path}`} className="px-3 py-0.5 font-mono flex items-center gap-2">
+              <span className={`w-4 text-center rounded flex-shrink-0 ${badge.className}`}>{badge.text}</span>
+              <span className="text-gray-800 truncate" title={file.path}>
+                {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function GitCommitList({ commits }: { commits: GitCommitInfo[] }) {
+  if (commits.length === 0) {
+    return <div className="px-3 py-2 text-xs text-gray-500">没有提交记录</div>;
+  }
+
+  return (
+    <div className="text-xs max-h-96 overflow-y-auto">
+      {commits.map((commit) => (
+        <div key={commit.hash} className="px-3 py-1 border-t border-gray-200 first:border-t-0 flex gap-2">
+          <span className="font-mono text-blue-600 flex-shrink-0" title={commit.hash}>{commit.shortHash}</span>
+          <span className="text-gray-800 flex-1 min-w-0 truncate" title={commit.body || commit.subject}>{commit.subject}</span>
+          <span className="text-gray-400 flex-shrink-0">{commit.author} · {formatDate(commit.date)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function DiffFileList({ files, truncated }: { files: GitDiffFileInfo[]; truncated: boolean }) {
+  if (files.length === 0) {
+    return <div className="px-3 py-2 text-gray-500">没有差异</div>;
+  }
+
+  const additions = files.reduce((sum, file) => sum + file.additions, 0);
+  const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+
+  return (
+    <div className="border-b border-gray-200">
+      <div className="px-3 py-1 text-gray-500">
+        {files.length} 个文件，<span className="text-green-700">+{additions}</span> <span className="text-red-700">-{deletions}</span>
+        {truncated && <span className="text-orange-600 ml-1">· diff 已截断</span>}
+      </div>
+      {files.map((file) => (
+        <div key={file.path} className="px-3 py-0.5 font-mono flex gap-2">
+          <span className="text-gray-800 flex-1 min-w-0 truncate" title={file.path}>
+            {file.oldPath ? `${file.oldPath} → ${file.path}` : file.path}
+          </span>
+          {file.binary ? (
+            <span className="text-gray-400 flex-shrink-0">二进制</span>
+          ) : (
+            <span className="flex-shrink-0">
+              <span className="text-green-700">+{file.additions}</span> <span className="text-red-700">-{file.deletions}</span>
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function GitBlameView({ result }: { result: Extract<GitToolResult, { kind: 'git_blame' }> }) {
+  return (
+    <div className="text-xs font-mono max-h-96 overflow-auto">
+      <table className="min-w-full">
+        <tbody>
+          {result.lines.map((line, index) => {
+            // 同一提交的连续行只在第一行显示提交信息
+            const first = index === 0 || result.lines[index - 1].hash !== line.hash;
+            return (
+              <tr key={line.line} className={first && index > 0 ? 'border-t border-gray-200' : ''}>
+                <td className="px-2 text-blue-600 whitespace-nowrap align-top" title={line.summary}>
+                  {first ? line.hash.slice(0, 8) : ''}
+                </td>
+                <td className="px-2 text-gray-500 whitespace-nowrap align-top">
+                  {first ? `${line.author} · ${formatDate(line.date)}` : ''}
+                </td>
+                <td className="px-2 text-gray-400 text-right align-top">{line.line}</td>
+                <td className="px-2 text-gray-800 whitespace-pre">{line.content || ' '}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? iso : date.toLocaleDateString();
+}
@@ -12,6 +12,7 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
   const [includeScreenshot, setIncludeScreenshot] = useState(true); // 使用本地状态
   const [includeClipboard, setIncludeClipboard] = useState(true); // 使用本地状态
   const [autoUnselectImages, setAutoUnselectImages] = useState(true); // 配置：是否自动取消图片选项
+  const [stopping, setStopping] = useState(false); // 正在停止生成
   const textareaRef = React.useRef<HTMLTextAreaElement>(null);
   const noticeTimerRef = React.useRef<NodeJS.Timeout | null>(null);
   
@@ -20,11 +21,9 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
   const setLoading = useChatStore((state) => state.setLoading);
   const setError = useChatStore((state) => state.setError);
   const contextTrimNotice = useChatStore((state) => state.contextTrimNotice);
-  const setAutoClipboard = useChatStore((state) => state.setAutoClipboard);
   
   // 获取当前会话状态
   const sessionState = currentSessionId ? getSessionState(currentSessionId) : null;
-  const messages = sessionState?.messages || [];
   const isLoading = sessionState?.isLoading || false;
 
   // 自动聚焦输入框
@@ -37,7 +36,6 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
     console.log('🔧 InputArea mounted, loading config and setting checkboxes to true');
     setIncludeScreenshot(true);
     setIncludeClipboard(true);
-    setAutoClipboard(true);
     
     // 加载配置
     const loadConfig = async () => {
@@ -177,27 +175,8 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
         });
       }
 
-      // 准备发送给主进程的消息列表（过滤掉 tool 消息和仅用于显示的图片消息）
-      const sessionMessages = messages
-        .filter(msg => {
-          // 过滤掉 tool 消息
-          if (msg.role === 'tool') return false;
-          
-          // 过滤掉仅用于显示图片的 assistant 消息（这些消息会被重新构建）
-          if (msg.role === 'assistant' && (msg.imageUrls || msg.clipboardImageUrls)) {
-            return false;
-          }
-          
-          return true;
-        })
-        .map(msg => ({
-          id: msg.id,
-          role: msg.role as 'user' | 'assistant' | 'system',
-          content: msg.content || '',
-          imageUrls: msg.imageUrls,
-          clipboardImageUrls: msg.clipboardImageUrls,
-          timestamp: msg.timestamp,
-        }));
+      // 准备发送给主进程的新消息（历史消息由主进程的消息树维护）
+      const sessionMessages: SessionMessage[] = [];
 
       // 添加当前用户消息（只包含文本）
       sessionMessages.push({
@@ -265,6 +244,19 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
     }
   };
 
+  // 停止生成（等待主进程真正结束后再恢复）
+  const handleStop = async () => {
+    if (!currentSessionId) return;
+    setStopping(true);
+    try {
+      await window.electronAPI.sessionCancel(currentSessionId);
+    } catch (error: any) {
+      console.error('Cancel session error:', error);
+    } finally {
+      setStopping(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -319,13 +311,23 @@ export function InputArea({ currentSessionId }: InputAreaProps) {
           className="flex-1 input-field resize-none"
           rows={2}
         />
-        <button
-          onClick={handleSend}
-          disabled={!input.trim() || isLoading}
-          className="btn-primary self-end disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          发送
-        </button>
+        {isLoading ? (
+          <button
+            onClick={handleStop}
+            disabled={stopping}
+            className="self-end px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {stopping ? '停止中...' : '停止'}
+          </button>
+        ) : (
+          <button
+            onClick={handleSend}
+            disabled={!input.trim()}
+            className="btn-primary self-end disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            发送
+          </button>
+        )}
       </div>
     </div>
   );
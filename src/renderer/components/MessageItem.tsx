@@ -4,15 +4,26 @@ import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { Message } from '../../types';
-import { formatTimestamp, copyToClipboard } from '../utils/helpers';
+import { formatTimestamp, copyToClipboard, parseGitResult, parseRunJsResult, parseSearchResult, parseSuggestRepliesResult } from '../utils/helpers';
+import { useChatStore } from '../store/chatStore';
+import { ApprovalPrompt } from './ApprovalPrompt';
+import { FileEditView } from './FileEditView';
+import { GitResultView, gitResultTitle } from './GitResultView';
+import { RunJsResultView, runJsResultTitle } from './RunJsResultView';
+import { SuggestRepliesView } from './SuggestRepliesView';
+import { SearchResultsView } from './SearchResultsView';
 
 interface MessageItemProps {
   message: Message;
+  sessionId: string | null;
+  actionsDisabled?: boolean; // 请求进行中时禁用编辑、重新生成和分支切换
 }
 
 // 使用 memo 避免不必要的重渲染
-export const MessageItem = memo(function MessageItem({ message }: MessageItemProps) {
+export const MessageItem = memo(function MessageItem({ message, sessionId, actionsDisabled }: MessageItemProps) {
   const [copied, setCopied] = React.useState(false);
+  const [editing, setEditing] = React.useState(false);
+  const [editContent, setEditContent] = React.useState('');
 
   const handleCopy = async () => {
     const success = await copyToClipboard(message.content || '');
@@ -23,6 +34,55 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
   };
 
   const isUser = message.role === 'user';
+  const hasImages = Boolean(message.imageUrls?.length || message.clipboardImageUrls?.length);
+  const canEdit = isUser && !hasImages && !actionsDisabled && Boolean(sessionId);
+  const canRegenerate = message.role === 'assistant' && !hasImages && !actionsDisabled && Boolean(sessionId);
+  const branchCount = message.branchCount || 1;
+  const branchIndex = message.branchIndex || 0;
+
+  // 编辑用户消息：主进程创建新分支并重新生成回复
+  const handleEditSubmit = async () => {
+    const content = editContent.trim();
+    if (!sessionId || !content) return;
+    setEditing(false);
+    useChatStore.getState().setLoading(sessionId, true);
+    try {
+      await window.electronAPI.sessionEditMessage(sessionId, message.id, content);
+    } catch (error) {
+      console.error('Edit message failed:', error);
+      useChatStore.getState().setLoading(sessionId, false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!sessionId) return;
+    useChatStore.getState().setLoading(sessionId, true);
+    try {
+      await window.electronAPI.sessionRegenerate(sessionId, message.id);
+    } catch (error) {
+      console.error('Regenerate failed:', error);
+      useChatStore.getState().setLoading(sessionId, false);
+    }
+  };
+
+  const searchResult = message.role === 'tool' ? parseSearchResult(message.content) : null;
+  const gitResult = message.role === 'tool' ? parseGitResult(message.content) : null;
+  const runJsResult = message.role === 'tool' ? parseRunJsResult(message.content) : null;
+  const suggestReplies = message.role === 'tool' ? parseSuggestRepliesResult(message.content) : null;
+
+  const handleRevertEdit = async () => {
+    if (!sessionId) return;
+    await window.electronAPI.fileEditRevert(sessionId, message.id);
+  };
+
+  const handleSwitchBranch = async (offset: number) => {
+    if (!sessionId) return;
+    try {
+      await window.electronAPI.sessionSwitchBranch(sessionId, message.id, offset);
+    } catch (error) {
+      console.error('Switch branch failed:', error);
+    }
+  };
 
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'} mb-4`}>
@@ -38,7 +98,34 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
           {/* 用户消息 - 展示文字和图片 */}
           {isUser ? (
             <div className="w-full min-w-0">
-              <p className="whitespace-pre-wrap break-words">{message.content}</p>
+              {editing ? (
+                <div className="flex flex-col gap-2">
+                  <textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    rows={3}
+                    className="w-full min-w-[240px] px-2 py-1 rounded text-gray-800 resize-none"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditing(false)}
+                      className="text-xs px-2 py-1 rounded bg-white/20 hover:bg-white/30"
+                    >
+                      取消
+                    </button>
+                    <button
+                      onClick={handleEditSubmit}
+                      disabled={!editContent.trim()}
+                      className="text-xs px-2 py-1 rounded bg-white text-primary-600 hover:bg-gray-100 disabled:opacity-50"
+                    >
+                      保存并重新生成
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <p className="whitespace-pre-wrap break-words">{message.content}</p>
+              )}
               
               {/* 用户消息也显示图片 */}
               {(() => {
@@ -81,6 +168,60 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
                 }
                 return null;
               })()}
+
+              {/* 图片文字识别结果 */}
+              {message.ocrText?.some(Boolean) && (
+                <details className="mt-2 text-xs">
+                  <summary className="cursor-pointer text-gray-500 hover:text-gray-700 select-none">🔤 识别的文字</summary>
+                  <pre className="mt-1 p-2 bg-white text-gray-700 border border-gray-200 rounded whitespace-pre-wrap font-sans max-h-60 overflow-y-auto">
+                    {message.ocrText.filter(Boolean).join('\n\n')}
+                  </pre>
+                </details>
+              )}
+            </div>
+          ) : message.role === 'tool' && message.fileEdit ? (
+            /* 文件修改结果 */
+            <FileEditView
+              edit={message.fileEdit}
+              onRevert={actionsDisabled ? undefined : handleRevertEdit}
+            />
+          ) : searchResult ? (
+            /* 搜索结果 */
+            <div className="bg-gray-50 border border-gray-200 rounded overflow-hidden">
+              <div className="px-3 py-2 bg-gray-100 border-b border-gray-300">
+                <div className="text-xs text-gray-600 font-medium">🔍 搜索结果：{searchResult.pattern}</div>
+              </div>
+              <div className="bg-white">
+                <SearchResultsView result={searchResult} />
+              </div>
+            </div>
+          ) : gitResult ? (
+            /* git 工具结果 */
+            <div className="bg-gray-50 border border-gray-200 rounded overflow-hidden">
+              <div className="px-3 py-2 bg-gray-100 border-b border-gray-300">
+                <div className="text-xs text-gray-600 font-medium truncate">{gitResultTitle(gitResult)}</div>
+              </div>
+              <div className="bg-white">
+                <GitResultView result={gitResult} />
+              </div>
+            </div>
+          ) : runJsResult ? (
+            /* run_js 执行结果 */
+            <div className="bg-gray-50 border border-gray-200 rounded overflow-hidden">
+              <div className="px-3 py-2 bg-gray-100 border-b border-gray-300">
+                <div className="text-xs text-gray-600 font-medium">{runJsResultTitle(runJsResult)}</div>
+              </div>
+              <div className="bg-white">
+                <RunJsResultView result={runJsResult} />
+              </div>
+            </div>
+          ) : suggestReplies ? (
+            /* 建议回复 */
+            <div className="bg-gray-50 border border-gray-200 rounded overflow-hidden">
+              <div className="px-3 py-2 bg-gray-100 border-b border-gray-300">
+                <div className="text-xs text-gray-600 font-medium">💬 建议回复（点击复制）</div>
+              </div>
+              <SuggestRepliesView result={suggestReplies} />
             </div>
           ) : message.role === 'tool' ? (
             /* 工具调用结果 */
@@ -189,6 +330,24 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
                         </span>
                       </div>
                       
+                      {/* 命令审批（等待用户确认） */}
+                      {exec.approval && (
+                        <div className="p-2 border-b border-gray-300">
+                          <ApprovalPrompt approval={exec.approval} />
+                        </div>
+                      )}
+
+                      {/* 文件修改预览（等待用户确认） */}
+                      {exec.fileEdit && (
+                        <div className="p-2 border-b border-gray-300">
+                          <FileEditView
+                            edit={exec.fileEdit}
+                            onApply={async () => { await window.electronAPI.fileEditResolve(exec.fileEdit.id, true); }}
+                            onReject={async () => { await window.electronAPI.fileEditResolve(exec.fileEdit.id, false); }}
+                          />
+                        </div>
+                      )}
+
                       {/* 命令行显示 */}
                       <div className="px-3 py-2 bg-gray-900 text-gray-100 font-mono text-sm overflow-x-auto">
                         <div className="flex items-start gap-2">
@@ -217,11 +376,27 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
                           <summary className="px-3 py-2 bg-gray-50 cursor-pointer text-sm text-gray-600 hover:bg-gray-100 select-none">
                             {exec.status === 'completed' ? '📄 查看输出' : '⚠️ 查看错误'}
                           </summary>
-                          <div className="px-3 py-2 bg-white">
-                            <pre className="text-xs text-gray-700 font-mono overflow-x-auto whitespace-pre-wrap max-h-96 overflow-y-auto">
-                              {exec.result}
-                            </pre>
-                          </div>
+                          {parseSearchResult(exec.result) ? (
+                            <div className="bg-white">
+                              <SearchResultsView result={parseSearchResult(exec.result)!} />
+                            </div>
+                          ) : parseGitResult(exec.result) ? (
+                            <div className="bg-white">
+                              <GitResultView result={parseGitResult(exec.result)!} />
+                            </div>
+                          ) : parseRunJsResult(exec.result) ? (
+                            <div className="bg-white">
+                              <RunJsResultView result={parseRunJsResult(exec.result)!} />
+                            </div>
+                          ) : parseSuggestRepliesResult(exec.result) ? (
+                            <SuggestRepliesView result={parseSuggestRepliesResult(exec.result)!} />
+                          ) : (
+                            <div className="px-3 py-2 bg-white">
+                              <pre className="text-xs text-gray-700 font-mono overflow-x-auto whitespace-pre-wrap max-h-96 overflow-y-auto">
+                                {exec.result}
+                              </pre>
+                            </div>
+                          )}
                         </details>
                       )}
                     </div>
@@ -237,6 +412,51 @@ export const MessageItem = memo(function MessageItem({ message }: MessageItemPro
           <span className="text-xs text-gray-400">
             {formatTimestamp(message.timestamp)}
           </span>
+          {message.cancelled && (
+            <span className="text-xs text-orange-500">⏹ 已停止生成</span>
+          )}
+          {branchCount > 1 && (
+            <span className="flex items-center text-xs text-gray-500">
+              <button
+                onClick={() => handleSwitchBranch(-1)}
+                disabled={actionsDisabled || branchIndex === 0}
+                className="px-1 hover:text-gray-700 disabled:opacity-30"
+                title="上一个分支"
+              >
+                ‹
+              </button>
+              {branchIndex + 1}/{branchCount}
+              <button
+                onClick={() => handleSwitchBranch(1)}
+                disabled={actionsDisabled || branchIndex === branchCount - 1}
+                className="px-1 hover:text-gray-700 disabled:opacity-30"
+                title="下一个分支"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {canEdit && !editing && (
+            <button
+              onClick={() => {
+                setEditContent(message.content || '');
+                setEditing(true);
+              }}
+              className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+              title="编辑"
+            >
+              ✏️ 编辑
+            </button>
+          )}
+          {canRegenerate && (
+            <button
+              onClick={handleRegenerate}
+              className="text-xs text-gray-400 hover:text-gray-600 transition-colors"
+              title="重新生成"
+            >
+              🔄 重新生成
+            </button>
+          )}
           {!isUser && (
             <button
               onClick={handleCopy}
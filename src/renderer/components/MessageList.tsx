@@ -1,5 +1,6 @@
-import { useEffect, useRef } from 'react';
+import { Fragment, useEffect, useRef } from 'react';
 import { MessageItem } from './MessageItem';
+import { SummaryMarker } from './SummaryMarker';
 import { useChatStore } from '../store/chatStore';
 
 interface MessageListProps {
@@ -16,6 +17,9 @@ export function MessageList({ sessionId }: MessageListProps) {
   const isLoading = useChatStore((state) => 
     sessionId && state.sessions[sessionId] ? state.sessions[sessionId].isLoading : false
   );
+  const summary = useChatStore((state) => 
+    sessionId && state.sessions[sessionId] ? state.sessions[sessionId].summary : undefined
+  );
 
   // 自动滚动到底部
   // 1. 消息数量变化时滚动
@@ -44,7 +48,11 @@ export function MessageList({ sessionId }: MessageListProps) {
   return (
     <div className="flex-1 overflow-y-auto p-4 min-h-0">
       {messages.map((message) => (
-        <MessageItem key={message.id} message={message} />
+        <Fragment key={message.id}>
+          <MessageItem message={message} sessionId={sessionId} actionsDisabled={isLoading} />
+          {/* 摘要只在覆盖的最后一条消息位于当前分支时显示 */}
+          {summary?.upToMessageId === message.id && <SummaryMarker summary={summary} />}
+        </Fragment>
       ))}
 
       {/* 加载指示器 */}
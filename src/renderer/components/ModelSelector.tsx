@@ -0,0 +1,64 @@
+import { useState, useEffect } from 'react';
+
+interface ModelSelectorProps {
+  sessionId: string | null;
+}
+
+/**
+ * 会话模型选择器
+ * 空值表示使用全局默认模型，请求失败时仍按提供方的模型列表降级
+ */
+export function ModelSelector({ sessionId }: ModelSelectorProps) {
+  const [models, setModels] = useState<string[]>([]);
+  const [defaultModel, setDefaultModel] = useState('');
+  const [selectedModel, setSelectedModel] = useState('');
+
+  useEffect(() => {
+    loadModels();
+  }, [sessionId]);
+
+  const loadModels = async () => {
+    try {
+      const available = await window.electronAPI.modelGetAvailable();
+      setModels(available.models);
+      setDefaultModel(available.defaultModel);
+
+      if (sessionId) {
+        const session = await window.electronAPI.sessionGet(sessionId);
+        setSelectedModel(session?.model || '');
+      }
+    } catch (error) {
+      console.error('Failed to load models:', error);
+    }
+  };
+
+  const handleChange = async (model: string) => {
+    if (!sessionId) return;
+    setSelectedModel(model);
+    try {
+      await window.electronAPI.sessionSetModel(sessionId, model);
+    } catch (error) {
+      console.error('Failed to set session model:', error);
+    }
+  };
+
+  if (models.length === 0) {
+    return null;
+  }
+
+  return (
+    <select
+      value={selectedModel}
+      onChange={(e) => handleChange(e.target.value)}
+      onFocus={loadModels}
+      disabled={!sessionId}
+      className="text-sm text-gray-600 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 max-w-[180px]"
+      title="本会话使用的模型"
+    >
+      <option value="">默认（{defaultModel}）</option>
+      {models.map((model) => (
+        <option key={model} value={model}>{model}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+
+interface PersonaSelectorProps {
+  sessionId: string | null;
+}
+
+/**
+ * 会话人设选择器
+ * 空值表示使用默认人设，系统提示词在每次请求时按人设模板渲染
+ */
+export function PersonaSelector({ sessionId }: PersonaSelectorProps) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [defaultPersonaId, setDefaultPersonaId] = useState('');
+  const [selectedPersonaId, setSelectedPersonaId] = useState('');
+
+  useEffect(() => {
+    loadPersonas();
+  }, [sessionId]);
+
+  const loadPersonas = async () => {
+    try {
+      const result = await window.electronAPI.personaGetAll();
+      setPersonas(result.personas);
+      setDefaultPersonaId(result.defaultPersonaId);
+
+      if (sessionId) {
+        const session = await window.electronAPI.sessionGet(sessionId);
+        setSelectedPersonaId(session?.personaId || '');
+      }
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+    }
+  };
+
+  const handleChange = async (personaId: string) => {
+    if (!sessionId) return;
+    setSelectedPersonaId(personaId);
+    try {
+      await window.electronAPI.sessionSetPersona(sessionId, personaId);
+    } catch (error) {
+      console.error('Failed to set session persona:', error);
+    }
+  };
+
+  if (personas.length <= 1) {
+    return null;
+  }
+
+  const defaultPersona = personas.find(p => p.id === defaultPersonaId);
+
+  return (
+    <select
+      value={selectedPersonaId}
+      onChange={(e) => handleChange(e.target.value)}
+      onFocus={loadPersonas}
+      disabled={!sessionId}
+      className="text-sm text-gray-600 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 max-w-[140px]"
+      title="本会话使用的人设"
+    >
+      <option value="">默认（{defaultPersona?.name || '未设置'}）</option>
+      {personas.map((persona) => (
+        <option key={persona.id} value={persona.id}>{persona.name}</option>
+      ))}
+    </select>
+  );
+}
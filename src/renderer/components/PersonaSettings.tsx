@@ -0,0 +1,190 @@
+import { useState, useEffect } from 'react';
+
+interface PersonaSettingsProps {
+  onClose: () => void;
+}
+
+const TEMPLATE_VARIABLES: Array<{ name: string; label: string }> = [
+  { name: 'date', label: '当前日期和星期' },
+  { name: 'os', label: '操作系统' },
+  { name: 'cwd', label: '当前工作目录' },
+  { name: 'workspace_roots', label: '工作区目录列表' },
+  { name: 'knowledge', label: '背景知识（模板未引用时追加在末尾）' },
+];
+
+export function PersonaSettings({ onClose }: PersonaSettingsProps) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [defaultPersonaId, setDefaultPersonaId] = useState('');
+  const [editing, setEditing] = useState<Persona | null>(null);
+
+  useEffect(() => {
+    loadPersonas();
+  }, []);
+
+  const loadPersonas = async () => {
+    const result = await window.electronAPI.personaGetAll();
+    setPersonas(result.personas);
+    setDefaultPersonaId(result.defaultPersonaId);
+  };
+
+  const savePersonas = async (list: Persona[], defaultId: string) => {
+    try {
+      await window.electronAPI.saveConfig({ personas: list, defaultPersonaId: defaultId });
+      setPersonas(list);
+      setDefaultPersonaId(defaultId);
+    } catch (error) {
+      alert('保存失败：' + error);
+    }
+  };
+
+  const newPersona = () => {
+    setEditing({
+      id: `persona-${Date.now()}`,
+      name: '',
+      template: '你是一个桌面AI助手。\n\n当前时间：{date}\n操作系统：{os}\n工作区：{workspace_roots}',
+    });
+  };
+
+  const handleDelete = async (id: string) => {
+    if (personas.length <= 1) {
+      alert('至少需要保留一个人设');
+      return;
+    }
+    if (!confirm('确定删除该人设？')) return;
+    const list = personas.filter(p => p.id !== id);
+    await savePersonas(list, defaultPersonaId === id ? list[0].id : defaultPersonaId);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const exists = personas.some(p => p.id === editing.id);
+    const list = exists
+      ? personas.map(p => (p.id === editing.id ? editing : p))
+      : [...personas, editing];
+
+    await savePersonas(list, defaultPersonaId || editing.id);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">🎭 人设管理</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {editing ? (
+            <div className="bg-gray-50 rounded-lg p-4 mb-4">
+              <h3 className="font-semibold text-gray-700 mb-3">
+                {personas.some(p => p.id === editing.id) ? '编辑' : '添加'}人设
+              </h3>
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="名称"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+                <textarea
+                  placeholder="系统提示词模板"
+                  value={editing.template}
+                  onChange={(e) => setEditing({ ...editing, template: e.target.value })}
+                  rows={14}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                />
+                <div className="bg-white border border-gray-200 rounded p-3">
+                  <p className="text-xs text-gray-600 mb-1">可用变量（发送请求时替换）：</p>
+                  <div className="flex flex-wrap gap-2">
+                    {TEMPLATE_VARIABLES.map((variable) => (
+                      <button
+                        key={variable.name}
+                        onClick={() => setEditing({ ...editing, template: `${editing.template}{${variable.name}}` })}
+                        className="text-xs px-2 py-1 bg-gray-100 rounded hover:bg-gray-200 font-mono"
+                        title={variable.label}
+                      >
+                        {`{${variable.name}}`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    disabled={!editing.name.trim() || !editing.template.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    保存
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={newPersona}
+              className="w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 mb-4"
+            >
+              + 添加人设
+            </button>
+          )}
+
+          <div className="space-y-3">
+            {personas.map((persona) => (
+              <div key={persona.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-800">{persona.name}</h4>
+                      {persona.id === defaultPersonaId && (
+                        <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded">默认</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 truncate">{persona.template.split('\n')[0]}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    {persona.id !== defaultPersonaId && (
+                      <button
+                        onClick={() => savePersonas(personas, persona.id)}
+                        className="text-sm px-3 py-1 text-blue-600 hover:bg-blue-50 rounded"
+                      >
+                        设为默认
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setEditing(persona)}
+                      className="text-sm px-3 py-1 text-gray-600 hover:bg-gray-100 rounded"
+                    >
+                      编辑
+                    </button>
+                    <button
+                      onClick={() => handleDelete(persona.id)}
+                      className="text-sm px-3 py-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t bg-gray-50">
+          <button onClick={onClose} className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300">
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
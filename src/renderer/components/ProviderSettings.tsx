@@ -0,0 +1,361 @@
+import { useState, useEffect } from 'react';
+
+interface ProviderSettingsProps {
+  onClose: () => void;
+}
+
+const PROVIDER_TYPE_LABELS: Record<ProviderConfig['type'], string> = {
+  openai: 'OpenAI 兼容',
+  anthropic: 'Anthropic Messages',
+};
+
+const AUTH_SCHEME_LABELS: Record<ProviderConfig['authScheme'], string> = {
+  bearer: 'Authorization: Bearer',
+  'x-api-key': 'x-api-key',
+  none: '无鉴权',
+};
+
+const ERROR_CLASS_LABELS: Record<FallbackRule['errorClass'], string> = {
+  rate_limit: '限流 / 配额不足 (429)',
+  bad_request: '请求错误 (400)',
+  auth: '鉴权失败 (401/403)',
+  server: '服务端错误 (5xx)',
+  network: '网络错误',
+  unknown: '其他错误',
+};
+
+const FALLBACK_ACTION_LABELS: Record<FallbackRule['action'], string> = {
+  retry: '等待后重试同一模型',
+  next: '切换下一个模型',
+  stop: '直接报错',
+};
+
+export function ProviderSettings({ onClose }: ProviderSettingsProps) {
+  const [providers, setProviders] = useState<ProviderConfig[]>([]);
+  const [activeProviderId, setActiveProviderId] = useState('');
+  const [editing, setEditing] = useState<ProviderConfig | null>(null);
+  const [modelsText, setModelsText] = useState('');
+  const [defaultModel, setDefaultModel] = useState('');
+  const [fallbackRules, setFallbackRules] = useState<FallbackRule[]>([]);
+
+  useEffect(() => {
+    loadProviders();
+  }, []);
+
+  const loadProviders = async () => {
+    const config = await window.electronAPI.getConfig();
+    setProviders(config.providers || []);
+    setActiveProviderId(config.activeProviderId || '');
+    setDefaultModel(config.model || '');
+    setFallbackRules(config.fallbackRules || []);
+  };
+
+  const activeProvider = providers.find(p => p.id === activeProviderId);
+
+  const updateRule = (index: number, patch: Partial<FallbackRule>) => {
+    setFallbackRules(fallbackRules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const saveModelSettings = async () => {
+    try {
+      await window.electronAPI.saveConfig({ model: defaultModel, fallbackRules });
+      alert('模型设置已保存');
+    } catch (error) {
+      alert('保存失败：' + error);
+    }
+  };
+
+  const saveProviders = async (list: ProviderConfig[], activeId: string) => {
+    try {
+      await window.electronAPI.saveConfig({ providers: list, activeProviderId: activeId });
+      setProviders(list);
+      setActiveProviderId(activeId);
+    } catch (error) {
+      alert('保存失败：' + error);
+    }
+  };
+
+  const newProvider = () => {
+    setEditing({
+      id: `provider-${Date.now()}`,
+      name: '',
+      type: 'openai',
+      baseURL: 'http://localhost:11434/v1',
+      authScheme: 'none',
+      models: [],
+      capabilities: { vision: false, tools: true },
+    });
+    setModelsText('');
+  };
+
+  const handleEdit = (provider: ProviderConfig) => {
+    setEditing(provider);
+    setModelsText(provider.models.join('\n'));
+  };
+
+  const handleDelete = async (id: string) => {
+    if (providers.length <= 1) {
+      alert('至少需要保留一个提供方');
+      return;
+    }
+    if (!confirm('确定删除该提供方？')) return;
+    const list = providers.filter(p => p.id !== id);
+    await saveProviders(list, activeProviderId === id ? list[0].id : activeProviderId);
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const models = modelsText
+      .split('\n')
+      .map(m => m.trim())
+      .filter(Boolean);
+    const providerToSave = { ...editing, models };
+
+    const exists = providers.some(p => p.id === editing.id);
+    const list = exists
+      ? providers.map(p => (p.id === editing.id ? providerToSave : p))
+      : [...providers, providerToSave];
+
+    await saveProviders(list, activeProviderId || providerToSave.id);
+    setEditing(null);
+    setModelsText('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">🤖 模型提供方管理</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {editing ? (
+            <div className="bg-gray-50 rounded-lg p-4 mb-4">
+              <h3 className="font-semibold text-gray-700 mb-3">
+                {providers.some(p => p.id === editing.id) ? '编辑' : '添加'}提供方
+              </h3>
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="名称"
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={editing.type}
+                  onChange={(e) => setEditing({ ...editing, type: e.target.value as ProviderConfig['type'] })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.entries(PROVIDER_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  placeholder="Base URL (例如: http://localhost:11434/v1)"
+                  value={editing.baseURL}
+                  onChange={(e) => setEditing({ ...editing, baseURL: e.target.value })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                />
+                <select
+                  value={editing.authScheme}
+                  onChange={(e) => setEditing({ ...editing, authScheme: e.target.value as ProviderConfig['authScheme'] })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                >
+                  {Object.entries(AUTH_SCHEME_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                {editing.authScheme !== 'none' && (
+                  <input
+                    type="password"
+                    placeholder="API Key（不填则使用全局 API Key）"
+                    value={editing.apiKey || ''}
+                    onChange={(e) => setEditing({ ...editing, apiKey: e.target.value })}
+                    className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+                <textarea
+                  placeholder="可用模型，每行一个，按优先级从高到低排列"
+                  value={modelsText}
+                  onChange={(e) => setModelsText(e.target.value)}
+                  rows={4}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                />
+                <div className="flex gap-4">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={editing.capabilities.vision}
+                      onChange={(e) => setEditing({ ...editing, capabilities: { ...editing.capabilities, vision: e.target.checked } })}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-sm text-gray-700">支持图片输入</span>
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={editing.capabilities.tools}
+                      onChange={(e) => setEditing({ ...editing, capabilities: { ...editing.capabilities, tools: e.target.checked } })}
+                      className="w-4 h-4"
+                    />
+                    <span className="text-sm text-gray-700">支持工具调用</span>
+                  </label>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    disabled={!editing.name || !editing.baseURL || !modelsText.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    保存
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={newProvider}
+              className="w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 mb-4"
+            >
+              + 添加提供方
+            </button>
+          )}
+
+          <div className="space-y-3">
+            {providers.map((provider) => (
+              <div key={provider.id} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <h4 className="font-semibold text-gray-800">{provider.name}</h4>
+                    <p className="text-sm text-gray-600 mt-1 truncate">{provider.baseURL}</p>
+                    <div className="flex items-center gap-2 mt-2 flex-wrap">
+                      <span className="text-xs px-2 py-1 bg-gray-100 rounded">{PROVIDER_TYPE_LABELS[provider.type]}</span>
+                      <span className="text-xs px-2 py-1 bg-gray-100 rounded">{provider.models.length} 个模型</span>
+                      {provider.capabilities.vision && (
+                        <span className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded">视觉</span>
+                      )}
+                      {provider.capabilities.tools && (
+                        <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded">工具</span>
+                      )}
+                      {provider.id === activeProviderId && (
+                        <span className="text-xs px-2 py-1 bg-green-100 text-green-700 rounded">使用中</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {provider.id !== activeProviderId && (
+                      <button
+                        onClick={() => saveProviders(providers, provider.id)}
+                        className="text-sm px-3 py-1 text-blue-600 hover:bg-blue-50 rounded"
+                      >
+                        使用
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleEdit(provider)}
+                      className="text-sm px-3 py-1 text-gray-600 hover:bg-gray-100 rounded"
+                    >
+                      编辑
+                    </button>
+                    <button
+                      onClick={() => handleDelete(provider.id)}
+                      className="text-sm px-3 py-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {activeProvider && (
+            <div className="mt-6 border-t pt-4">
+              <h3 className="font-semibold text-gray-700 mb-3">默认模型与降级规则</h3>
+              <div className="space-y-3">
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">默认模型（会话未指定模型时使用）</label>
+                  <select
+                    value={activeProvider.models.includes(defaultModel) ? defaultModel : ''}
+                    onChange={(e) => setDefaultModel(e.target.value)}
+                    className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">按模型列表顺序（{activeProvider.models[0]}）</option>
+                    {activeProvider.models.map((model) => (
+                      <option key={model} value={model}>{model}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    降级链即提供方的模型列表顺序，可在「编辑」中调整
+                  </p>
+                </div>
+
+                {fallbackRules.map((rule, index) => (
+                  <div key={rule.errorClass} className="flex items-center gap-2">
+                    <span className="text-sm text-gray-700 w-44 flex-shrink-0">{ERROR_CLASS_LABELS[rule.errorClass]}</span>
+                    <select
+                      value={rule.action}
+                      onChange={(e) => updateRule(index, { action: e.target.value as FallbackRule['action'] })}
+                      className="flex-1 px-2 py-1 border rounded text-sm focus:ring-2 focus:ring-blue-500"
+                    >
+                      {Object.entries(FALLBACK_ACTION_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </select>
+                    {rule.action === 'retry' && (
+                      <>
+                        <input
+                          type="number"
+                          min={1}
+                          value={rule.maxRetries ?? 1}
+                          onChange={(e) => updateRule(index, { maxRetries: Number(e.target.value) })}
+                          className="w-16 px-2 py-1 border rounded text-sm"
+                          title="最大重试次数"
+                        />
+                        <span className="text-xs text-gray-500">次</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={500}
+                          value={rule.retryDelayMs ?? 2000}
+                          onChange={(e) => updateRule(index, { retryDelayMs: Number(e.target.value) })}
+                          className="w-20 px-2 py-1 border rounded text-sm"
+                          title="服务端未返回 Retry-After 时的等待时间"
+                        />
+                        <span className="text-xs text-gray-500">ms</span>
+                      </>
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  onClick={saveModelSettings}
+                  className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  保存模型设置
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t bg-gray-50">
+          <button onClick={onClose} className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300">
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+interface RunJsResultViewProps {
+  result: RunJsResult;
+}
+
+const LOG_STYLES: Record<RunJsResult['logs'][number]['level'], string> = {
+  log: 'text-gray-700',
+  info: 'text-blue-700',
+  debug: 'text-gray-500',
+  warn: 'text-yellow-700 bg-yellow-50',
+  error: 'text-red-700 bg-red-50',
+};
+
+// 结果标题
+export function runJsResultTitle(result: RunJsResult): string {
+  if (result.ok) {
+    return `🧮 JavaScript 执行完成（${result.durationMs}ms）`;
+  }
+  return result.timedOut ? '🧮 JavaScript 执行超时' : '🧮 JavaScript 执行出错';
+}
+
+/**
+ * run_js 结果
+ * 依次显示 console 输出和返回值（或错误）
+ */
+export function RunJsResultView({ result }: RunJsResultViewProps) {
+  return (
+    <div className="text-xs font-mono">
+      {result.logs.length > 0 && (
+        <div className="max-h-64 overflow-y-auto border-b border-gray-200">
+          {result.logs.map((log, index) => (
+            <pre key={index} className={`px-3 py-0.5 whitespace-pre-wrap border-b border-gray-100 last:border-b-0 ${LOG_STYLES[log.level] || LOG_STYLES.log}`}>
+              {log.text}
+            </pre>
+          ))}
+          {result.truncatedLogs && (
+            <div className="px-3 py-1 text-orange-600 font-sans">· 输出过多，后续的 console 输出已省略</div>
+          )}
+        </div>
+      )}
+      {result.ok ? (
+        <div className="px-3 py-2 flex gap-2">
+          <span className="text-gray-400 flex-shrink-0">⇒</span>
+          <pre className="text-gray-800 whitespace-pre-wrap max-h-96 overflow-y-auto flex-1">{result.value}</pre>
+        </div>
+      ) : (
+        <pre className="px-3 py-2 text-red-700 whitespace-pre-wrap">{result.error}</pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+import { useState, useEffect } from 'react';
+
+interface ScriptToolSettingsProps {
+  onClose: () => void;
+}
+
+interface EditingTool {
+  originalName: string | null;  // 新建时为 null
+  tool: ScriptToolConfig;
+  parametersText: string;       // 参数 schema 的 JSON 文本
+}
+
+const RISK_OPTIONS: Array<{ value: NonNullable<ScriptToolConfig['risk']>; label: string }> = [
+  { value: 'read-only', label: '只读（可与其他读取类工具并发）' },
+  { value: 'network', label: '访问网络（可并发）' },
+  { value: 'mutating', label: '修改环境（逐个执行）' },
+];
+
+const NAME_PATTERN = /^[a-z][a-z0-9_]{0,47}$/;
+
+/**
+ * 自定义脚本工具管理
+ * 命令模板中的 {参数名} 在调用时替换为参数值，脚本不经过 shell 执行
+ */
+export function ScriptToolSettings({ onClose }: ScriptToolSettingsProps) {
+  const [tools, setTools] = useState<ScriptToolConfig[]>([]);
+  const [editing, setEditing] = useState<EditingTool | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTools();
+  }, []);
+
+  const loadTools = async () => {
+    const config = await window.electronAPI.getConfig();
+    setTools(config?.scriptTools || []);
+  };
+
+  const saveTools = async (list: ScriptToolConfig[]) => {
+    try {
+      await window.electronAPI.saveConfig({ scriptTools: list });
+      setTools(list);
+      return true;
+    } catch (error) {
+      alert('保存失败：' + error);
+      return false;
+    }
+  };
+
+  const newTool = () => {
+    setError(null);
+    setEditing({
+      originalName: null,
+      tool: {
+        name: '',
+        description: '',
+        parameters: { type: 'object', properties: {} },
+        command: '',
+        timeoutSeconds: 60,
+        risk: 'read-only',
+        enabled: true,
+      },
+      parametersText: JSON.stringify({
+        type: 'object',
+        properties: {
+          service: { type: 'string', description: '服务名' },
+        },
+        required: ['service'],
+      }, null, 2),
+    });
+  };
+
+  const editTool = (tool: ScriptToolConfig) => {
+    setError(null);
+    setEditing({ originalName: tool.name, tool, parametersText: JSON.stringify(tool.parameters, null, 2) });
+  };
+
+  const handleDelete = async (name: string) => {
+    if (!confirm(`确定删除工具 ${name}？`)) return;
+    await saveTools(tools.filter(tool => tool.name !== name));
+  };
+
+  const handleToggle = async (name: string) => {
+    await saveTools(tools.map(tool => (tool.name === name ? { ...tool, enabled: tool.enabled === false } : tool)));
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const tool = { ...editing.tool, name: editing.tool.name.trim(), command: editing.tool.command.trim(), cwd: editing.tool.cwd?.trim() || undefined };
+    if (!NAME_PATTERN.test(tool.name)) {
+      setError('名称只能包含小写字母、数字和下划线，且以字母开头');
+      return;
+    }
+    if (tools.some(t => t.name === tool.name && t.name !== editing.originalName)) {
+      setError(`已存在名为 ${tool.name} 的工具`);
+      return;
+    }
+
+    try {
+      const parameters = JSON.parse(editing.parametersText);
+      if (parameters?.type !== 'object' || typeof parameters.properties !== 'object') {
+        throw new Error('type 必须为 object，并包含 properties');
+      }
+      tool.parameters = parameters;
+    } catch (e: any) {
+      setError(`参数 schema 无效：${e.message}`);
+      return;
+    }
+
+    const undeclared = getPlaceholders(tool.command).filter(name => !(name in tool.parameters.properties));
+    if (undeclared.length > 0) {
+      setError(`命令模板中的占位符未在参数 schema 中声明：${undeclared.join(', ')}`);
+      return;
+    }
+
+    const list = editing.originalName
+      ? tools.map(t => (t.name === editing.originalName ? tool : t))
+      : [...tools, tool];
+    if (await saveTools(list)) {
+      setEditing(null);
+    }
+  };
+
+  const update = (patch: Partial<ScriptToolConfig>) => {
+    if (editing) {
+      setEditing({ ...editing, tool: { ...editing.tool, ...patch } });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="px-6 py-4 border-b flex items-center justify-between">
+          <h2 className="text-xl font-bold text-gray-800">🧩 自定义脚本工具</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-2xl">×</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {editing ? (
+            <div className="bg-gray-50 rounded-lg p-4 mb-4">
+              <h3 className="font-semibold text-gray-700 mb-3">
+                {editing.originalName ? '编辑' : '添加'}工具
+              </h3>
+              <div className="space-y-3">
+                <input
+                  type="text"
+                  placeholder="工具名称，如 deploy_status"
+                  value={editing.tool.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                />
+                <textarea
+                  placeholder="说明：告诉 AI 这个工具做什么、什么时候使用"
+                  value={editing.tool.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                />
+                <div>
+                  <input
+                    type="text"
+                    placeholder="命令模板，如 ./bin/deploy-status --env {env} {service}"
+                    value={editing.tool.command}
+                    onChange={(e) => update({ command: e.target.value })}
+                    className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    {'{参数名}'} 替换为调用时的参数值；参数未提供时对应的那一段会被省略。命令不经过 shell，管道、重定向等写法不会生效
+                  </p>
+                </div>
+                <div>
+                  <textarea
+                    value={editing.parametersText}
+                    onChange={(e) => setEditing({ ...editing, parametersText: e.target.value })}
+                    rows={8}
+                    className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-xs"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">参数 schema（JSON Schema），支持 string、number、integer、boolean、array 和 enum</p>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2">
+                    <span className="text-xs text-gray-500">工作目录</span>
+                    <input
+                      type="text"
+                      placeholder="默认为第一个工作区目录"
+                      value={editing.tool.cwd || ''}
+                      onChange={(e) => update({ cwd: e.target.value })}
+                      className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                    />
+                  </div>
+                  <div>
+                    <span className="text-xs text-gray-500">超时（秒）</span>
+                    <input
+                      type="number"
+                      value={editing.tool.timeoutSeconds ?? 60}
+                      onChange={(e) => update({ timeoutSeconds: Math.max(1, parseInt(e.target.value) || 60) })}
+                      min="1"
+                      className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                    />
+                  </div>
+                </div>
+                <select
+                  value={editing.tool.risk || 'mutating'}
+                  onChange={(e) => update({ risk: e.target.value as ScriptToolConfig['risk'] })}
+                  className="w-full px-3 py-2 border rounded focus:ring-2 focus:ring-blue-500 text-sm"
+                >
+                  {RISK_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSave}
+                    disabled={!editing.tool.name.trim() || !editing.tool.description.trim() || !editing.tool.command.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    保存
+                  </button>
+                  <button
+                    onClick={() => setEditing(null)}
+                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    取消
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={newTool}
+              className="w-full px-4 py-3 border-2 border-dashed border-gray-300 rounded-lg text-gray-600 hover:border-blue-400 hover:text-blue-600 mb-4"
+            >
+              + 添加工具
+            </button>
+          )}
+
+          {tools.length === 0 && !editing && (
+            <p className="text-sm text-gray-500 text-center">还没有自定义工具</p>
+          )}
+
+          <div className="space-y-3">
+            {tools.map((tool) => (
+              <div key={tool.name} className="border rounded-lg p-4 hover:shadow-md transition-shadow">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-800 font-mono">{tool.name}</h4>
+                      {tool.enabled === false && (
+                        <span className="text-xs px-2 py-1 bg-gray-100 text-gray-500 rounded">已停用</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 truncate">{tool.description}</p>
+                    <p className="text-xs text-gray-400 mt-1 font-mono truncate" title={tool.command}>{tool.command}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleToggle(tool.name)}
+                      className="text-sm px-3 py-1 text-blue-600 hover:bg-blue-50 rounded"
+                    >
+                      {tool.enabled === false ? '启用' : '停用'}
+                    </button>
+                    <button
+                      onClick={() => editTool(tool)}
+                      className="text-sm px-3 py-1 text-gray-600 hover:bg-gray-100 rounded"
+                    >
+                      编辑
+                    </button>
+                    <button
+                      onClick={() => handleDelete(tool.name)}
+                      className="text-sm px-3 py-1 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      删除
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t bg-gray-50">
+          <button onClick={onClose} className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300">
+            关闭
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function getPlaceholders(command: string): string[] {
+  return Array.from(command.matchAll(/\{(\w+)\}/g), match => match[1]);
+}
@@ -0,0 +1,56 @@
+interface SearchResultsViewProps {
+  result: CodeSearchResult;
+}
+
+/**
+ * search_files 结果
+ * 按文件分组展示匹配行，点击匹配项用系统默认程序打开文件
+ */
+export function SearchResultsView({ result }: SearchResultsViewProps) {
+  const groups: Array<{ file: string; matches: CodeSearchResult['matches'] }> = [];
+  for (const match of result.matches) {
+    const last = groups[groups.length - 1];
+    if (last?.file === match.file) {
+      last.matches.push(match);
+    } else {
+      groups.push({ file: match.file, matches: [match] });
+    }
+  }
+
+  const openFile = async (file: string) => {
+    try {
+      await window.electronAPI.openFile(`${result.root}/${file}`);
+    } catch (error) {
+      console.error('Failed to open file:', error);
+    }
+  };
+
+  return (
+    <div className="text-xs">
+      <div className="px-3 py-1 text-gray-500">
+        🔍 {result.matches.length} 处匹配，{result.filesMatched} 个文件（共搜索 {result.filesSearched} 个文件）
+        {result.truncated && <span className="text-orange-600 ml-1">· 结果已截断</span>}
+      </div>
+      <div className="max-h-96 overflow-y-auto">
+        {groups.map((group) => (
+          <div key={group.file} className="border-t border-gray-200">
+            <div className="px-3 py-1 bg-gray-50 font-medium text-gray-700 truncate" title={`${result.root}/${group.file}`}>
+              📄 {group.file}
+            </div>
+            {group.matches.map((match) => (
+              <button
+                key={`${match.line}:${match.column}`}
+                onClick={() => openFile(group.file)}
+                className="w-full text-left px-3 py-0.5 font-mono hover:bg-blue-50 flex gap-2"
+                title="打开文件"
+              >
+                <span className="text-gray-400 flex-shrink-0 w-14 text-right">{match.line}:{match.column}</span>
+                <span className="text-gray-800 whitespace-pre overflow-hidden text-ellipsis">{match.preview}</span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ interface Session {
   id: string;
   name: string;
   messages: any[];
-  status: 'idle' | 'running' | 'completed' | 'error';
+  status: 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
   currentResponse: string;
   createdAt: number;
   updatedAt: number;
@@ -23,12 +23,16 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [sessions, setSessions] = useState<Session[]>([]);
+  const [allSessions, setAllSessions] = useState<Session[]>([]);
+  const [query, setQuery] = useState('');
+  const [searchHits, setSearchHits] = useState<SessionSearchHit[]>([]);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // 加载会话列表
   const loadSessions = async () => {
     try {
       const allSessions = await window.electronAPI.sessionGetAll();
+      setAllSessions(allSessions);
       // 过滤掉 0 条消息的会话，并按更新时间排序，只保留最新的 10 个
       const filtered = allSessions
         .filter(session => session.messages.length > 0)
@@ -52,6 +56,20 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
     }
   }, [isOpen]);
 
+  // 搜索会话（输入停顿后再搜索）
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchHits([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      window.electronAPI.sessionSearch(query)
+        .then(setSearchHits)
+        .catch(error => console.error('Failed to search sessions:', error));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [query]);
+
   // 点击外部关闭下拉菜单
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -155,8 +173,51 @@ export const SessionHistory: React.FC<SessionHistoryProps> = ({
             </button>
           </div>
 
+          {/* 搜索框 */}
+          <div className="px-2 pt-2">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索消息和截图中的文字"
+              className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:border-blue-400"
+            />
+          </div>
+
+          {/* 搜索结果 */}
+          {query.trim() && (
+            <div className="p-2">
+              {searchHits.length === 0 ? (
+                <div className="px-3 py-8 text-center text-gray-400 text-sm">
+                  没有匹配的消息
+                </div>
+              ) : (
+                searchHits.map((hit) => (
+                  <div
+                    key={`${hit.sessionId}:${hit.messageId}`}
+                    onClick={() => {
+                      const session = allSessions.find(item => item.id === hit.sessionId);
+                      if (session) {
+                        onSessionSelect(session);
+                        setIsOpen(false);
+                      }
+                    }}
+                    className="px-3 py-2 rounded-md cursor-pointer transition-colors hover:bg-gray-50"
+                  >
+                    <div className="text-sm font-medium truncate">{hit.sessionName}</div>
+                    <div className="text-xs text-gray-600 mt-1 line-clamp-2 break-all">
+                      {hit.source === 'ocr' && <span className="text-blue-600 mr-1">[截图文字]</span>}
+                      {hit.snippet}
+                    </div>
+                    <div className="text-xs text-gray-400 mt-1">{formatTime(hit.timestamp)}</div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+
           {/* 会话列表 */}
-          <div className="p-2">
+          <div className={`p-2 ${query.trim() ? 'hidden' : ''}`}>
             {sessions.length === 0 ? (
               <div className="px-3 py-8 text-center text-gray-400 text-sm">
                 暂无历史会话
@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { copyToClipboard } from '../utils/helpers';
+
+interface SuggestRepliesViewProps {
+  result: SuggestRepliesResult;
+}
+
+/**
+ * suggest_replies 结果
+ * 每条建议显示为一张卡片，点击复制；已自动复制的那条带标记
+ */
+export function SuggestRepliesView({ result }: SuggestRepliesViewProps) {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+
+  const handleCopy = async (index: number) => {
+    if (await copyToClipboard(result.replies[index].text)) {
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(current => (current === index ? null : current)), 2000);
+    }
+  };
+
+  return (
+    <div className="p-2 space-y-2">
+      {result.replies.map((reply, index) => (
+        <button
+          key={index}
+          onClick={() => handleCopy(index)}
+          className="w-full text-left border border-gray-200 rounded-lg px-3 py-2 bg-white hover:border-blue-400 hover:bg-blue-50 transition-colors group"
+          title="点击复制"
+        >
+          <div className="flex items-center justify-between gap-2 mb-1">
+            <span className="text-xs text-gray-500">{reply.label || `建议 ${index + 1}`}</span>
+            <span className="text-xs flex-shrink-0">
+              {copiedIndex === index ? (
+                <span className="text-green-600">✓ 已复制</span>
+              ) : result.copiedIndex === index ? (
+                <span className="text-gray-400">📋 已自动复制</span>
+              ) : (
+                <span className="text-blue-600 opacity-0 group-hover:opacity-100">📋 复制</span>
+              )}
+            </span>
+          </div>
+          <div className="text-sm text-gray-800 whitespace-pre-wrap break-words">{reply.text}</div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { useState } from 'react';
+
+interface SummaryMarkerProps {
+  summary: ConversationSummary;
+}
+
+/**
+ * 较早对话已摘要的标记
+ * 标记之前的消息不再原样发送给模型，而是以摘要形式发送
+ */
+export function SummaryMarker({ summary }: SummaryMarkerProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="my-4">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 text-xs text-gray-500 hover:text-gray-700"
+        title="以上对话已压缩为摘要发送给模型"
+      >
+        <span className="flex-1 border-t border-dashed border-gray-300"></span>
+        <span>📝 较早的 {summary.messageCount} 条消息已摘要 {expanded ? '▾' : '▸'}</span>
+        <span className="flex-1 border-t border-dashed border-gray-300"></span>
+      </button>
+      {expanded && (
+        <div className="mt-2 px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm text-gray-700 whitespace-pre-wrap">
+          {summary.content}
+        </div>
+      )}
+    </div>
+  );
+}
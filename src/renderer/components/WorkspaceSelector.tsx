@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+
+interface WorkspaceSelectorProps {
+  sessionId: string | null;
+}
+
+/**
+ * 会话工作目录选择器
+ * 工具中的相对路径和命令的默认目录都基于工作目录，空值表示使用第一个工作区目录
+ */
+export function WorkspaceSelector({ sessionId }: WorkspaceSelectorProps) {
+  const [roots, setRoots] = useState<string[]>([]);
+  const [defaultCwd, setDefaultCwd] = useState('');
+  const [selectedCwd, setSelectedCwd] = useState('');
+
+  useEffect(() => {
+    loadWorkspace();
+  }, [sessionId]);
+
+  const loadWorkspace = async () => {
+    try {
+      const workspace = await window.electronAPI.workspaceGet();
+      setRoots(workspace.roots);
+      setDefaultCwd(workspace.cwd);
+
+      if (sessionId) {
+        const session = await window.electronAPI.sessionGet(sessionId);
+        setSelectedCwd(session?.cwd || '');
+      }
+    } catch (error) {
+      console.error('Failed to load workspace:', error);
+    }
+  };
+
+  const handleChange = async (cwd: string) => {
+    if (!sessionId) return;
+    setSelectedCwd(cwd);
+    try {
+      await window.electronAPI.sessionSetCwd(sessionId, cwd);
+    } catch (error) {
+      console.error('Failed to set session cwd:', error);
+      alert('设置工作目录失败：' + (error instanceof Error ? error.message : error));
+      loadWorkspace();
+    }
+  };
+
+  if (roots.length <= 1 && !selectedCwd) {
+    return null;
+  }
+
+  const baseName = (dir: string) => dir.split(/[\\/]/).filter(Boolean).pop() || dir;
+
+  return (
+    <select
+      value={selectedCwd}
+      onChange={(e) => handleChange(e.target.value)}
+      onFocus={loadWorkspace}
+      disabled={!sessionId}
+      className="text-sm text-gray-600 px-2 py-1 border border-gray-200 rounded hover:bg-gray-100 max-w-[140px]"
+      title={`本会话的工作目录：${selectedCwd || defaultCwd}`}
+    >
+      <option value="">📁 默认（{baseName(defaultCwd)}）</option>
+      {selectedCwd && !roots.includes(selectedCwd) && (
+        <option value={selectedCwd}>📁 {baseName(selectedCwd)}</option>
+      )}
+      {roots.map((root) => (
+        <option key={root} value={root}>📁 {baseName(root)}</option>
+      ))}
+    </select>
+  );
+}
@@ -9,6 +9,7 @@ interface SessionState {
   error: string | null;
   currentUserMessage: string;
   currentImageCount: number;
+  summary?: ConversationSummary; // 较早对话的滚动摘要
 }
 
 interface ChatState {
@@ -43,6 +44,8 @@ interface ChatState {
   setCurrentImageCount: (sessionId: string, count: number) => void;
   addToolExecution: (sessionId: string, execution: any) => void;
   updateToolExecution: (sessionId: string, toolCallId: string, updates: any) => void;
+  markCancelled: (sessionId: string) => void;
+  setSummary: (sessionId: string, summary?: ConversationSummary) => void;
   reportCurrentConversation: (
     sessionId: string,
     assistantMessage: string,
@@ -299,6 +302,52 @@ export const useChatStore = create<ChatState>((set, get) => ({
       };
     }),
   
+  // 设置会话摘要
+  setSummary: (sessionId, summary) =>
+    set((state) => {
+      const currentSession = state.sessions[sessionId] || createDefaultSessionState();
+      return {
+        sessions: {
+          ...state.sessions,
+          [sessionId]: {
+            ...currentSession,
+            summary,
+          },
+        },
+      };
+    }),
+
+  // 标记最后一条 assistant 消息为已取消，并结束加载状态
+  markCancelled: (sessionId) =>
+    set((state) => {
+      const currentSession = state.sessions[sessionId] || createDefaultSessionState();
+      const messages = [...currentSession.messages];
+      
+      const lastMessage = messages[messages.length - 1];
+      if (lastMessage?.role === 'assistant') {
+        messages[messages.length - 1] = { ...lastMessage, cancelled: true };
+      } else {
+        messages.push({
+          id: `msg-${Date.now()}`,
+          role: 'assistant',
+          content: '',
+          timestamp: Date.now(),
+          cancelled: true,
+        });
+      }
+      
+      return {
+        sessions: {
+          ...state.sessions,
+          [sessionId]: {
+            ...currentSession,
+            messages,
+            isLoading: false,
+          },
+        },
+      };
+    }),
+  
   // 更新工具执行状态
   updateToolExecution: (sessionId, toolCallId, updates) =>
     set((state) => {
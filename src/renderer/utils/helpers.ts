@@ -17,6 +17,99 @@ export function formatTimestamp(timestamp: number): string {
   return `${hours}:${minutes}`;
 }
 
+/**
+ * 解析 search_files 的工具结果，格式不符时返回 null
+ */
+export function parseSearchResult(text: string | null | undefined): CodeSearchResult | null {
+  if (!text || !text.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return Array.isArray(parsed?.matches) && typeof parsed.root === 'string' && typeof parsed.pattern === 'string'
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析 git 工具返回的结构化结果
+ */
+export function parseGitResult(text: string | null | undefined): GitToolResult | null {
+  if (!text || !text.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return typeof parsed?.kind === 'string' && parsed.kind.startsWith('git_') && typeof parsed.root === 'string'
+      ? parsed
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析 run_js 的执行结果
+ */
+export function parseRunJsResult(text: string | null | undefined): RunJsResult | null {
+  if (!text || !text.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return parsed?.kind === 'run_js' && Array.isArray(parsed.logs) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 解析 suggest_replies 的建议回复
+ */
+export function parseSuggestRepliesResult(text: string | null | undefined): SuggestRepliesResult | null {
+  if (!text || !text.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(text);
+    return parsed?.kind === 'suggest_replies' && Array.isArray(parsed.replies) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 将主进程激活分支上的消息转换为界面消息
+ * 多模态内容只保留文本部分
+ */
+export function toDisplayMessages(messages: BranchedSessionMessage[]): Message[] {
+  return messages.map((msg) => {
+    let content = msg.content;
+    if (Array.isArray(content)) {
+      const textPart = content.find((part: any) => part.type === 'text');
+      content = textPart ? textPart.text : '';
+    }
+
+    return {
+      id: msg.id,
+      role: msg.role as Message['role'],
+      content: content as string | null,
+      imageUrls: msg.imageUrls,
+      clipboardImageUrls: msg.clipboardImageUrls,
+      timestamp: msg.timestamp,
+      cancelled: msg.cancelled,
+      tool_call_id: msg.tool_call_id,
+      fileEdit: msg.fileEdit,
+      ocrText: msg.ocrText,
+      branchIndex: msg.branchIndex,
+      branchCount: msg.branchCount,
+    };
+  });
+}
+
 /**
  * 将消息转换为 ChatMessage 格式
  */
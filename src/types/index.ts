@@ -19,6 +19,11 @@ export interface Message {
     };
   }>;
   tool_call_id?: string;  // 工具调用结果的 ID
+  cancelled?: boolean;    // 用户取消生成
+  branchIndex?: number;   // 在兄弟分支中的位置（从 0 开始）
+  branchCount?: number;   // 兄弟分支数量
+  fileEdit?: FileEditRecord; // 文件修改工具的修改记录
+  ocrText?: string[];        // 附带图片的文字识别结果
 }
 
 // 对话上下文
@@ -16,11 +16,24 @@ interface SessionMessage {
   timestamp: number;
 }
 
+// 激活分支上的消息（附带分支位置）
+interface BranchedSessionMessage extends Omit<SessionMessage, 'role'> {
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  parentId?: string | null;
+  cancelled?: boolean;
+  tool_call_id?: string;
+  fileEdit?: FileEditRecord;
+  ocrText?: string[];
+  branchIndex: number;
+  branchCount: number;
+}
+
 interface Session {
   id: string;
   name: string;
   messages: SessionMessage[];
-  status: 'idle' | 'running' | 'completed' | 'error';
+  activeLeafId?: string;
+  status: 'idle' | 'running' | 'completed' | 'error' | 'cancelled';
   currentResponse: string;
   usage?: {
     prompt_tokens: number;
@@ -32,6 +45,216 @@ interface Session {
   updatedAt: number;
   userMessage?: string;
   imageCount?: number;
+  model?: string;
+  personaId?: string;
+  cwd?: string;
+  summary?: ConversationSummary;
+  budgetExhausted?: {
+    reason: 'tool_rounds' | 'tokens' | 'duration';
+    message: string;
+  };
+}
+
+interface ProviderConfig {
+  id: string;
+  name: string;
+  type: 'openai' | 'anthropic';
+  baseURL: string;
+  authScheme: 'bearer' | 'x-api-key' | 'none';
+  apiKey?: string;
+  models: string[];
+  capabilities: {
+    vision: boolean;
+    tools: boolean;
+  };
+  headers?: Record<string, string>;
+}
+
+// 会话事件补齐结果（缓存不足时返回快照）
+interface SessionResyncResult {
+  seq: number;
+  events?: Array<{ sessionId: string; seq: number; type: string; [key: string]: any }>;
+  snapshot?: {
+    status: Session['status'];
+    currentResponse: string;
+    messages: BranchedSessionMessage[];
+    budgetExhausted?: Session['budgetExhausted'];
+    summary?: ConversationSummary;
+  };
+}
+
+interface FileEditRecord {
+  id: string;
+  tool: 'write_file' | 'edit_file' | 'apply_patch';
+  files: Array<{ path: string; action: 'create' | 'modify' | 'delete' }>;
+  diff: string;
+  status: 'pending' | 'applied' | 'rejected' | 'reverted';
+}
+
+interface CommandApprovalRequest {
+  id: string;
+  command: string;
+  cwd?: string;
+  level: 'safe' | 'warning' | 'danger';
+  reason?: string;
+  suggestedPattern: string;
+  allowAlways: boolean;
+  expiresAt: number;
+}
+
+interface CommandApprovalRule {
+  pattern: string;
+  createdAt: number;
+}
+
+interface ConversationSummary {
+  content: string;
+  upToMessageId: string;
+  messageCount: number;
+  updatedAt: number;
+}
+
+interface Persona {
+  id: string;
+  name: string;
+  template: string;
+}
+
+interface CodeSearchResult {
+  root: string;
+  pattern: string;
+  matches: Array<{
+    file: string;
+    line: number;
+    column: number;
+    preview: string;
+    before?: string[];
+    after?: string[];
+  }>;
+  filesSearched: number;
+  filesMatched: number;
+  truncated: boolean;
+}
+
+interface GitCommitInfo {
+  hash: string;
+  shortHash: string;
+  author: string;
+  email: string;
+  date: string;
+  subject: string;
+  body?: string;
+}
+
+interface GitDiffFileInfo {
+  path: string;
+  oldPath?: string;
+  additions: number;
+  deletions: number;
+  binary: boolean;
+}
+
+type GitToolResult =
+  | {
+      kind: 'git_status';
+      root: string;
+      branch: string | null;
+      upstream: string | null;
+      ahead: number;
+      behind: number;
+      staged: Array<{ path: string; oldPath?: string; status: string }>;
+      unstaged: Array<{ path: string; oldPath?: string; status: string }>;
+      untracked: string[];
+      conflicted: string[];
+    }
+  | { kind: 'git_diff'; root: string; range: string; files: GitDiffFileInfo[]; diff: string; truncated: boolean }
+  | { kind: 'git_log'; root: string; commits: GitCommitInfo[] }
+  | { kind: 'git_show'; root: string; commit: GitCommitInfo; files: GitDiffFileInfo[]; diff: string; truncated: boolean }
+  | {
+      kind: 'git_blame';
+      root: string;
+      path: string;
+      lines: Array<{ line: number; hash: string; author: string; date: string; summary: string; content: string }>;
+    };
+
+interface RunJsResult {
+  kind: 'run_js';
+  ok: boolean;
+  value?: string;
+  error?: string;
+  logs: Array<{ level: 'log' | 'info' | 'warn' | 'error' | 'debug'; text: string }>;
+  truncatedLogs?: boolean;
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+interface SuggestRepliesResult {
+  kind: 'suggest_replies';
+  replies: Array<{ label?: string; text: string }>;
+  copiedIndex: number | null;
+}
+
+interface WorkspaceSettings {
+  roots: string[];
+  outsidePolicy: 'deny' | 'confirm';
+  indexExclude?: string[];
+}
+
+interface OcrSettings {
+  mode: 'auto' | 'always' | 'off';
+  languages: string[];
+}
+
+interface ToolOutputBudgets {
+  default: number;
+  perTool: Record<string, number>;
+}
+
+interface ScriptToolConfig {
+  name: string;
+  description: string;
+  parameters: { type: 'object'; properties: Record<string, any>; required?: string[] };
+  command: string;
+  cwd?: string;
+  timeoutSeconds?: number;
+  risk?: 'read-only' | 'network' | 'mutating';
+  enabled?: boolean;
+}
+
+interface OcrStatus {
+  available: boolean;
+  binary: string | null;
+  languages: string[];
+  error?: string;
+}
+
+interface SessionSearchHit {
+  sessionId: string;
+  sessionName: string;
+  messageId: string;
+  source: 'message' | 'ocr';
+  snippet: string;
+  timestamp: number;
+}
+
+interface WebFetchSettings {
+  proxy: string;
+  allowDomains: string[];
+  denyDomains: string[];
+  cacheTtlMinutes: number;
+}
+
+interface LoopBudget {
+  maxToolRounds: number;
+  maxTokens: number;
+  maxDurationMs: number;
+}
+
+interface FallbackRule {
+  errorClass: 'rate_limit' | 'bad_request' | 'auth' | 'server' | 'network' | 'unknown';
+  action: 'retry' | 'next' | 'stop';
+  maxRetries?: number;
+  retryDelayMs?: number;
 }
 
 interface Window {
@@ -45,6 +268,20 @@ interface Window {
       userInfo?: UserInfo;
       clipboardImageExpiry?: number;
       autoUnselectImages?: boolean;
+      autoClipboard?: boolean;
+      providers?: ProviderConfig[];
+      activeProviderId?: string;
+      model?: string;
+      fallbackRules?: FallbackRule[];
+      toolConcurrency?: number;
+      loopBudget?: LoopBudget;
+      personas?: Persona[];
+      defaultPersonaId?: string;
+      workspace?: WorkspaceSettings;
+      webFetch?: WebFetchSettings;
+      ocr?: OcrSettings;
+      toolOutputBudgets?: ToolOutputBudgets;
+      scriptTools?: ScriptToolConfig[];
     }>;
     saveConfig: (config: { 
       apiKey?: string; 
@@ -53,6 +290,20 @@ interface Window {
       userInfo?: UserInfo;
       clipboardImageExpiry?: number;
       autoUnselectImages?: boolean;
+      autoClipboard?: boolean;
+      providers?: ProviderConfig[];
+      activeProviderId?: string;
+      model?: string;
+      fallbackRules?: FallbackRule[];
+      toolConcurrency?: number;
+      loopBudget?: LoopBudget;
+      personas?: Persona[];
+      defaultPersonaId?: string;
+      workspace?: WorkspaceSettings;
+      webFetch?: WebFetchSettings;
+      ocr?: OcrSettings;
+      toolOutputBudgets?: ToolOutputBudgets;
+      scriptTools?: ScriptToolConfig[];
     }) => Promise<boolean>;
     getUserInfo: () => Promise<UserInfo | null>;
     bucLogin: () => Promise<UserInfo>;
@@ -67,11 +318,36 @@ interface Window {
     sessionCreate: () => Promise<Session>;
     sessionStartAI: (sessionId: string, messages: SessionMessage[], userMessage: string, imageCount: number) => Promise<boolean>;
     sessionCancel: (sessionId: string) => Promise<boolean>;
+    sessionContinue: (sessionId: string) => Promise<boolean>;
+    sessionSetModel: (sessionId: string, model: string) => Promise<boolean>;
+    modelGetAvailable: () => Promise<{ models: string[]; defaultModel: string }>;
+    sessionSetPersona: (sessionId: string, personaId: string) => Promise<boolean>;
+    personaGetAll: () => Promise<{ personas: Persona[]; defaultPersonaId: string }>;
+    sessionSetCwd: (sessionId: string, cwd: string) => Promise<boolean>;
+    workspaceGet: (sessionId?: string) => Promise<{ roots: string[]; cwd: string }>;
+    sessionGetActivePath: (sessionId: string) => Promise<BranchedSessionMessage[]>;
+    sessionEditMessage: (sessionId: string, messageId: string, content: string) => Promise<boolean>;
+    sessionRegenerate: (sessionId: string, messageId: string) => Promise<boolean>;
+    sessionSwitchBranch: (sessionId: string, messageId: string, offset: number) => Promise<BranchedSessionMessage[]>;
     sessionGet: (sessionId: string) => Promise<Session | undefined>;
     sessionGetAll: () => Promise<Session[]>;
     sessionDelete: (sessionId: string) => Promise<boolean>;
+    sessionSearch: (query: string) => Promise<SessionSearchHit[]>;
+    ocrGetStatus: (refresh?: boolean) => Promise<OcrStatus>;
+    approvalResolve: (approvalId: string, decision: 'approve' | 'deny' | 'always', pattern?: string) => Promise<boolean>;
+    approvalGetRules: () => Promise<CommandApprovalRule[]>;
+    approvalRemoveRule: (pattern: string) => Promise<boolean>;
+    fileEditResolve: (editId: string, approved: boolean) => Promise<boolean>;
+    fileEditRevert: (sessionId: string, messageId: string) => Promise<boolean>;
+    openFile: (filePath: string) => Promise<boolean>;
+    sessionSubscribe: (sessionId: string) => Promise<number>;
+    sessionUnsubscribe: (sessionId: string) => Promise<boolean>;
+    sessionResync: (sessionId: string, fromSeq: number) => Promise<SessionResyncResult>;
     onSessionUpdate: (callback: (data: any) => void) => void;
     offSessionUpdate: (callback: (data: any) => void) => void;
+    takePendingSession: () => Promise<string | null>;
+    onOpenSession: (callback: (sessionId: string) => void) => void;
+    offOpenSession: (callback: (sessionId: string) => void) => void;
 
     // 命令执行
     commandExecute: (command: string, options?: any) => Promise<any>;